@@ -45,6 +45,7 @@ const sync = new StateSync({
         // ── Write operations with causal invalidation ───────────
         {
             match: 'transfers.create',
+            rejectStaleWrites: true,    // Refuse transfers based on a stale balance read
             invalidates: [
                 'accounts.*',       // Sender + receiver balances changed
                 'transfers.*',      // Transfer list is stale
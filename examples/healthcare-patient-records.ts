@@ -32,9 +32,11 @@ const server = new Server({ name: 'clinical-assistant', version: '1.0.0' }, {
 //
 // Reference data (ICD-10 codes, drug formulary) is immutable — these are
 // international standards that don't change within a clinical session.
+// `memoize` serves repeated lookups from the server-side cache.
 
 const sync = new StateSync({
     defaults: { cacheControl: 'no-store' },
+    memoize: { maxEntries: 5000 },
     policies: [
         // ── Reference data (international standards, safe to cache) ──
         { match: 'icd10.*',        cacheControl: 'immutable' },
@@ -0,0 +1,58 @@
+/**
+ * AnnotationInference — Policies Derived from MCP Tool Annotations
+ *
+ * Pure functions. Single responsibility: derive a policy for a tool from
+ * its MCP `annotations` when no policy was written for it by hand.
+ *
+ * - `readOnlyHint: true` → the default directive (`defaults.cacheControl`)
+ * - any other annotated tool → a write that invalidates its own namespace
+ *   (`sprints.create` → `sprints.*`)
+ *
+ * Tools without `annotations` carry no hint and are never inferred.
+ * `destructiveHint` and `idempotentHint` do not change the outcome: every
+ * non-read-only tool may modify state.
+ */
+import type { McpToolDef, SyncPolicy, CacheDirective } from './types.js';
+
+/**
+ * Infer the policy of a single tool from its annotations.
+ * Returns `null` when the tool has no annotations, or when it is a
+ * write without a namespace to invalidate (a name without `.`).
+ *
+ * @example
+ * inferPolicy({ name: 'sprints.create', annotations: { readOnlyHint: false }, ... })
+ * // → { match: 'sprints.create', invalidates: ['sprints.*'] }
+ */
+export function inferPolicy(
+    tool: McpToolDef,
+    defaults?: { readonly cacheControl?: CacheDirective },
+): SyncPolicy | null {
+    const { annotations } = tool;
+    if (!annotations || typeof annotations !== 'object') return null;
+
+    if (annotations.readOnlyHint === true) {
+        const cacheControl = defaults?.cacheControl;
+        return { match: tool.name, ...(cacheControl && { cacheControl }) };
+    }
+
+    const dot = tool.name.lastIndexOf('.');
+    if (dot <= 0) return null;
+    return { match: tool.name, invalidates: [`${tool.name.slice(0, dot)}.*`] };
+}
+
+/**
+ * Infer policies for a list of tools — one entry per tool with an
+ * inference, in input order. Useful to inspect what inference mode would
+ * do for a registry.
+ */
+export function inferPolicies(
+    tools: readonly McpToolDef[],
+    defaults?: { readonly cacheControl?: CacheDirective },
+): SyncPolicy[] {
+    const inferred: SyncPolicy[] = [];
+    for (const tool of tools) {
+        const policy = inferPolicy(tool, defaults);
+        if (policy) inferred.push(policy);
+    }
+    return inferred;
+}
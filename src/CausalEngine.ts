@@ -5,23 +5,67 @@
  * determine which domain patterns to invalidate.
  *
  * Rules:
- * 1. If the response has `isError: true` → no invalidation (mutation failed)
- * 2. If the policy has `invalidates` → return those patterns
- * 3. Otherwise → no invalidation
+ * 1. If the response has `isError: true` → no invalidation (mutation failed),
+ *    unless the policy's `onError` says the write may have partially applied
+ * 2. If the policy's `success` predicate rejects the result → same as `isError`;
+ *    a thrown upstream error follows `onException` (default: `onError`)
+ * 3. If the policy has `invalidates` → return those patterns, with
+ *    argument-scoped templates rendered against the call arguments and
+ *    `!` exclusions kept (a list of only exclusions invalidates nothing)
+ * 4. Otherwise → no invalidation
  */
-import type { ResolvedPolicy } from './types.js';
+import type { ResolvedPolicy, McpCallResult, OnErrorMode } from './types.js';
+import { renderInvalidation, isExclusion } from './InvalidationTemplate.js';
 
 /**
  * Resolve which domain patterns should be invalidated after a tool call.
  *
+ * @param policy  - Resolved policy of the called tool
+ * @param isError - Whether the write failed (see `writeSucceeded`)
+ * @param args    - The `tools/call` arguments, used by `$args.` templates
+ * @param thrown  - Whether the failure was a thrown error, timeout or cancellation
  * @returns Array of glob patterns to invalidate, or empty if none.
  */
 export function resolveInvalidations(
     policy: ResolvedPolicy | null,
     isError: boolean,
+    args: Record<string, unknown> = {},
+    thrown = false,
 ): readonly string[] {
-    // Guard: failed mutations don't invalidate
-    if (isError) return [];
+    // Guard: failed mutations don't invalidate — unless they may be partial
+    if (isError && failureMode(policy, thrown) === 'skip') return [];
 
-    return policy?.invalidates ?? [];
+    const patterns = policy?.invalidates ?? [];
+    const rendered = patterns.map(pattern => renderInvalidation(pattern, args));
+
+    // Exclusions alone invalidate nothing
+    if (rendered.every(isExclusion)) return [];
+
+    // Two templates may collapse to the same coarse glob
+    return [...new Set(rendered)];
+}
+
+/**
+ * How a failed write is handled: `onException` for thrown errors,
+ * timeouts and cancellations (falling back to `onError`), `onError`
+ * for `isError` results. Default: `'skip'`.
+ */
+export function failureMode(policy: ResolvedPolicy | null, thrown = false): OnErrorMode {
+    return (thrown ? policy?.onException : undefined) ?? policy?.onError ?? 'skip';
+}
+
+/**
+ * Decide whether a call modified state: not `isError`, and accepted by
+ * the policy's `success` predicate when it has one. A predicate that
+ * throws counts as success — over-invalidation is always safe.
+ */
+export function writeSucceeded(policy: ResolvedPolicy | null, result: McpCallResult): boolean {
+    if (result.isError) return false;
+    if (!policy?.success) return true;
+
+    try {
+        return policy.success(result);
+    } catch {
+        return true;
+    }
 }
@@ -0,0 +1,242 @@
+/**
+ * Cli — `mcp-state-sync` Command-Line Tool
+ *
+ * Single responsibility: parse command-line arguments, run the requested
+ * analysis on a config file and format the result. All output goes
+ * through `CliIo`, so the commands are testable without a process.
+ *
+ * Commands:
+ * - `lint <config> --tools <tools.json>`     — PolicyLinter findings
+ * - `explain <config> <toolName>`            — how a single tool resolves
+ * - `matrix <config> --tools <tools.json>`   — tools × directive × invalidated-by
+ */
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { McpToolDef, ResolvedPolicy, SyncConfig } from './types.js';
+import { loadSyncConfig } from './ConfigLoader.js';
+import { PolicyEngine } from './PolicyEngine.js';
+import { lintPolicies } from './PolicyLinter.js';
+import { matchInvalidations } from './InvalidationTemplate.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Output streams of the CLI. */
+export interface CliIo {
+    readonly out: (text: string) => void;
+    readonly err: (text: string) => void;
+}
+
+/** One row of `matrix`. */
+interface MatrixRow {
+    readonly tool: string;
+    readonly cacheControl: string | null;
+    readonly invalidatedBy: readonly string[];
+}
+
+/** Thrown for bad command lines; reported with the usage text. */
+class UsageError extends Error {}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+const USAGE = `Usage:
+  mcp-state-sync lint <config> --tools <tools.json> [--format text|json] [--strict]
+  mcp-state-sync explain <config> <toolName> [--tools <tools.json>]
+  mcp-state-sync matrix <config> --tools <tools.json> [--format text|markdown|json]
+
+<config> is a JSON or YAML SyncConfig. <tools.json> is an array of MCP tool
+definitions or a tools/list result ({ "tools": [...] }).
+
+Exit codes: 0 success, 1 lint errors (or warnings with --strict), 2 usage or config error.
+`;
+
+const OPTIONS = {
+    tools: { type: 'string' },
+    format: { type: 'string' },
+    strict: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+// ── Entry Point ─────────────────────────────────────────────────────
+
+/**
+ * Run the CLI with the given arguments (without `node` and script path).
+ * Resolves to the process exit code.
+ */
+export async function runCli(argv: readonly string[], io: CliIo): Promise<number> {
+    try {
+        const { values, positionals } = parseArgs({
+            args: [...argv],
+            options: OPTIONS,
+            allowPositionals: true,
+        });
+        const [command, configPath, ...rest] = positionals;
+
+        if (values.help || !command) {
+            io.out(USAGE);
+            return values.help ? 0 : 2;
+        }
+        if (!configPath) throw new UsageError(`"${command}" requires a <config> path.`);
+
+        const config = await loadSyncConfig(configPath);
+        const tools = values.tools ? await loadTools(values.tools) : undefined;
+
+        switch (command) {
+            case 'lint':
+                return lint(config, requireTools(command, tools), values.format ?? 'text', values.strict ?? false, io);
+            case 'explain':
+                if (!rest[0]) throw new UsageError('"explain" requires a <toolName>.');
+                return explain(config, rest[0], tools, io);
+            case 'matrix':
+                return matrix(config, requireTools(command, tools), values.format ?? 'text', io);
+            default:
+                throw new UsageError(`unknown command "${command}".`);
+        }
+    } catch (err) {
+        io.err(`mcp-state-sync: ${(err as Error).message}\n`);
+        if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+            io.err(`\n${USAGE}`);
+        }
+        return 2;
+    }
+}
+
+// ── Commands ────────────────────────────────────────────────────────
+
+function lint(
+    config: SyncConfig,
+    tools: readonly McpToolDef[],
+    format: string,
+    strict: boolean,
+    io: CliIo,
+): number {
+    const findings = lintPolicies(config, tools);
+
+    if (format === 'json') {
+        io.out(`${JSON.stringify(findings, null, 2)}\n`);
+    } else if (format === 'text') {
+        for (const f of findings) io.out(`${f.severity} ${f.code}: ${f.message}\n`);
+        const errors = findings.filter(f => f.severity === 'error').length;
+        io.out(`${errors} error(s), ${findings.length - errors} warning(s)\n`);
+    } else {
+        throw new UsageError(`"lint" does not support --format ${format}.`);
+    }
+
+    const failing = strict ? findings : findings.filter(f => f.severity === 'error');
+    return failing.length > 0 ? 1 : 0;
+}
+
+function explain(
+    config: SyncConfig,
+    toolName: string,
+    tools: readonly McpToolDef[] | undefined,
+    io: CliIo,
+): number {
+    const trace = createEngine(config).explain(toolName, tools?.find(t => t.name === toolName));
+    const { matched, resolved } = trace;
+
+    const source = matched
+        ? `Policy[${matched.index}] (match: "${matched.match}")`
+        : resolved?.inferred ? 'inferred from annotations' : 'none';
+    const tried = trace.tried.map(t => `Policy[${t.index}] (match: "${t.match}") — ${t.reason}`);
+    const origin = (field: 'cacheControl' | 'invalidates') =>
+        trace.fromDefaults.includes(field) ? ' (from defaults)'
+            : trace.fromAnnotations.includes(field) ? ' (from annotations)' : '';
+
+    io.out([
+        `Tool:        ${toolName}`,
+        `Policy:      ${source}`,
+        ...tried.map((line, i) => `${i === 0 ? 'Tried:      ' : '           '} ${line}`),
+        ...(trace.accumulated
+            ? [`Accumulated: ${trace.accumulated.map(a => `Policy[${a.index}]`).join(', ') || '(none)'}`]
+            : []),
+        `Directive:   ${resolved?.cacheControl ? resolved.cacheControl + origin('cacheControl') : '(none)'}`,
+        `Invalidates: ${resolved?.invalidates ? resolved.invalidates.join(', ') + origin('invalidates') : '(none)'}`,
+    ].join('\n') + '\n');
+    return 0;
+}
+
+function matrix(
+    config: SyncConfig,
+    tools: readonly McpToolDef[],
+    format: string,
+    io: CliIo,
+): number {
+    const engine = createEngine(config);
+    const resolved = new Map<string, ResolvedPolicy | null>(
+        tools.map(t => [t.name, engine.resolve(t.name, t)]),
+    );
+
+    const rows: MatrixRow[] = tools.map(tool => ({
+        tool: tool.name,
+        cacheControl: resolved.get(tool.name)?.cacheControl ?? null,
+        invalidatedBy: tools
+            .filter(w => matchInvalidations(resolved.get(w.name)?.invalidates ?? [], tool.name))
+            .map(w => w.name),
+    }));
+
+    switch (format) {
+        case 'json':
+            io.out(`${JSON.stringify(rows, null, 2)}\n`);
+            break;
+        case 'markdown':
+            io.out(formatMarkdown(rows));
+            break;
+        case 'text':
+            io.out(formatText(rows));
+            break;
+        default:
+            throw new UsageError(`"matrix" does not support --format ${format}.`);
+    }
+    return 0;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function createEngine(config: SyncConfig): PolicyEngine {
+    return new PolicyEngine(config.policies, config.defaults, {
+        inferFromAnnotations: config.inferFromAnnotations === true,
+        resolution: config.resolution,
+        resources: config.resources,
+    });
+}
+
+function requireTools(command: string, tools: readonly McpToolDef[] | undefined): readonly McpToolDef[] {
+    if (!tools) throw new UsageError(`"${command}" requires --tools <tools.json>.`);
+    return tools;
+}
+
+/** Read tool definitions: a JSON array or a `tools/list` result. */
+async function loadTools(path: string): Promise<McpToolDef[]> {
+    const parsed: unknown = JSON.parse(await readFile(path, 'utf8'));
+    const tools = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { tools?: unknown } | null)?.tools;
+
+    if (!Array.isArray(tools) || tools.some(t => typeof t?.name !== 'string')) {
+        throw new Error(`${path}: expected an array of tool definitions or { "tools": [...] }.`);
+    }
+    return tools as McpToolDef[];
+}
+
+const HEADER = ['Tool', 'Directive', 'Invalidated by'] as const;
+
+function cells(row: MatrixRow): string[] {
+    return [row.tool, row.cacheControl ?? '-', row.invalidatedBy.join(', ') || '-'];
+}
+
+function formatText(rows: readonly MatrixRow[]): string {
+    const table = [[...HEADER], ...rows.map(cells)];
+    const widths = HEADER.map((_, c) => Math.max(...table.map(r => r[c].length)));
+    return table
+        .map(r => r.map((cell, c) => cell.padEnd(widths[c])).join('  ').trimEnd())
+        .join('\n') + '\n';
+}
+
+function formatMarkdown(rows: readonly MatrixRow[]): string {
+    const line = (r: readonly string[]) => `| ${r.join(' | ')} |`;
+    return [
+        line(HEADER),
+        line(HEADER.map(() => '---')),
+        ...rows.map(r => line(cells(r).map(c => c.replace(/\|/g, '\\|')))),
+    ].join('\n') + '\n';
+}
@@ -0,0 +1,160 @@
+/**
+ * ConfigLoader — SyncConfig from JSON / YAML Files
+ *
+ * Single responsibility: parse a policy file, validate it with
+ * PolicyValidator, and report problems at their source location
+ * (`policies.yaml:12:19`) instead of `Policy[3]`. The reverse —
+ * `serializeSyncConfig` — writes a config back as JSON or YAML.
+ *
+ * JSON is a subset of YAML 1.2, so both formats go through the same
+ * parser and get the same line/column reporting.
+ */
+import { readFile } from 'node:fs/promises';
+import { parseDocument, LineCounter, stringify } from 'yaml';
+import type { Document } from 'yaml';
+import type { SyncConfig } from './types.js';
+import { validateSyncConfig, validateKnownKeys, ConfigValidationError } from './PolicyValidator.js';
+import type { ConfigPath } from './PolicyValidator.js';
+import { describeMatch } from './PolicyMatch.js';
+
+// ── Error ───────────────────────────────────────────────────────────
+
+/** A syntax or validation problem in a config file, with its location. */
+export class ConfigFileError extends Error {
+    readonly file: string;
+    /** 1-based line number. */
+    readonly line: number;
+    /** 1-based column number. */
+    readonly column: number;
+    /** Path inside `SyncConfig`, for validation errors. */
+    readonly path: ConfigPath | undefined;
+
+    constructor(file: string, line: number, column: number, detail: string, path?: ConfigPath) {
+        const where = path?.length ? `${formatPath(path)}: ` : '';
+        super(`${file}:${line}:${column}: ${where}${detail}`);
+        this.name = 'ConfigFileError';
+        this.file = file;
+        this.line = line;
+        this.column = column;
+        this.path = path;
+    }
+}
+
+// ── Load ────────────────────────────────────────────────────────────
+
+/**
+ * Load and validate a `SyncConfig` from a `.json`, `.yaml` or `.yml` file.
+ * A top-level `$schema` key (for editor autocompletion) is ignored.
+ *
+ * @example
+ * ```typescript
+ * const sync = new StateSync(await loadSyncConfig('./state-sync.yaml'));
+ * ```
+ *
+ * @throws ConfigFileError on syntax or validation errors
+ */
+export async function loadSyncConfig(path: string): Promise<SyncConfig> {
+    const text = await readFile(path, 'utf8');
+    return parseSyncConfig(text, path);
+}
+
+/**
+ * Parse and validate a `SyncConfig` from JSON or YAML text.
+ *
+ * @param source - File name used in error messages
+ * @throws ConfigFileError on syntax or validation errors
+ */
+export function parseSyncConfig(text: string, source: string = '<inline>'): SyncConfig {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+
+    const [syntaxError] = doc.errors;
+    if (syntaxError) {
+        const { line, col } = lineCounter.linePos(syntaxError.pos[0]);
+        throw new ConfigFileError(source, line, col, syntaxError.message);
+    }
+
+    const config: unknown = doc.toJS();
+    if (config && typeof config === 'object' && '$schema' in config) {
+        delete (config as Record<string, unknown>).$schema;
+    }
+
+    try {
+        validateSyncConfig(config);
+        validateKnownKeys(config);
+    } catch (err) {
+        if (!(err instanceof ConfigValidationError)) throw err;
+        const { line, col } = lineCounter.linePos(locate(doc, err.path));
+        throw new ConfigFileError(source, line, col, err.detail, err.path);
+    }
+
+    return config;
+}
+
+// ── Serialize ───────────────────────────────────────────────────────
+
+/**
+ * Serialize a `SyncConfig` as JSON or YAML text that `parseSyncConfig`
+ * reads back. Code-only parts cannot be written to a file and are
+ * rejected: RegExp and predicate `match`ers, `success` predicates.
+ *
+ * @example
+ * ```typescript
+ * await writeFile('./state-sync.yaml', serializeSyncConfig(config, 'yaml'));
+ * ```
+ *
+ * @throws ConfigValidationError if the config is invalid or not serializable
+ */
+export function serializeSyncConfig(config: SyncConfig, format: 'json' | 'yaml' = 'json'): string {
+    validateSyncConfig(config);
+
+    config.policies.forEach((policy, i) => {
+        const prefix = `Policy[${i}] (match: "${describeMatch(policy.match)}")`;
+        if (typeof policy.match !== 'string') {
+            const kind = policy.match instanceof RegExp ? 'RegExp' : 'predicate';
+            throw new ConfigValidationError(
+                ['policies', i, 'match'],
+                `${kind} matchers cannot be serialized; only glob strings can be written to a config file.`,
+                prefix,
+            );
+        }
+        if (policy.success) {
+            throw new ConfigValidationError(
+                ['policies', i, 'success'],
+                `'success' predicates cannot be serialized to a config file.`,
+                prefix,
+            );
+        }
+    });
+    for (const [key, template] of Object.entries(config.messages?.templates ?? {})) {
+        if (typeof template === 'function') {
+            throw new ConfigValidationError(
+                ['messages', 'templates', key],
+                `function templates cannot be serialized; only string templates can be written to a config file.`,
+            );
+        }
+    }
+
+    return format === 'yaml' ? stringify(config) : `${JSON.stringify(config, null, 2)}\n`;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Source offset of the value at `path`. Missing values (e.g. an absent
+ * `match`) resolve to their closest existing parent.
+ */
+function locate(doc: Document, path: ConfigPath): number {
+    for (let depth = path.length; depth > 0; depth--) {
+        const node = doc.getIn(path.slice(0, depth), true) as { range?: [number, number, number] } | undefined;
+        if (node?.range) return node.range[0];
+    }
+    return doc.contents?.range?.[0] ?? 0;
+}
+
+/** `['policies', 3, 'cacheControl']` → `policies[3].cacheControl` */
+function formatPath(path: ConfigPath): string {
+    return path
+        .map((seg, i) => typeof seg === 'number' ? `[${seg}]` : i === 0 ? seg : `.${seg}`)
+        .join('');
+}
@@ -0,0 +1,94 @@
+/**
+ * ConfigWatcher — Reload a Policy File on Change
+ *
+ * Single responsibility: watch a config file, reload it through
+ * ConfigLoader when it changes, and hand the validated config over.
+ *
+ * The parent directory is watched rather than the file itself, so
+ * editors that save by rename (write temp file → rename) keep working.
+ * Reloads run one at a time, in change order, so the last write on disk
+ * is always the one left applied.
+ */
+import { watch } from 'node:fs';
+import type { FSWatcher } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import type { SyncConfig } from './types.js';
+import { loadSyncConfig } from './ConfigLoader.js';
+
+/** Options for watching a config file. */
+export interface WatchConfigOptions {
+    /** Quiet period (ms) after the last change before reloading. Default: 100. */
+    readonly debounceMs?: number;
+    /** Called after a reload was applied. */
+    readonly onReload?: (config: SyncConfig) => void;
+    /**
+     * Called when the file cannot be loaded or applied (syntax or validation
+     * errors, a throwing `onReload`), and when the watcher itself fails
+     * (e.g. the directory was removed). The previously active policies stay
+     * in effect. Errors thrown by `onError` are ignored.
+     */
+    readonly onError?: (error: unknown) => void;
+}
+
+/** Handle returned by `watchSyncConfig`. */
+export interface ConfigWatcher {
+    /** Stop watching. Pending reloads are cancelled. */
+    close(): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Watch a JSON/YAML config file and call `apply` with every valid version.
+ */
+export function watchSyncConfig(
+    path: string,
+    apply: (config: SyncConfig) => void | Promise<void>,
+    options: WatchConfigOptions = {},
+): ConfigWatcher {
+    const { debounceMs = DEFAULT_DEBOUNCE_MS, onReload, onError } = options;
+    const file = basename(path);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+    /** Tail of the reload chain — each reload starts after the previous one settled. */
+    let reloading: Promise<void> = Promise.resolve();
+
+    // Never throws: a throwing onError would otherwise break the reload chain
+    const report = (err: unknown): void => {
+        try {
+            onError?.(err);
+        } catch {
+            // Nothing left to report to — keep watching
+        }
+    };
+
+    const reload = async (): Promise<void> => {
+        if (closed) return;
+        try {
+            const config = await loadSyncConfig(path);
+            if (closed) return;
+            await apply(config);
+            onReload?.(config);
+        } catch (err) {
+            report(err);
+        }
+    };
+
+    const watcher: FSWatcher = watch(dirname(path), (_event, changed) => {
+        if (changed !== null && changed.toString() !== file) return;
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            reloading = reloading.then(reload);
+        }, debounceMs);
+    });
+    // Without a listener, an FSWatcher 'error' event crashes the process
+    watcher.on('error', report);
+
+    return {
+        close() {
+            closed = true;
+            clearTimeout(timer);
+            watcher.close();
+        },
+    };
+}
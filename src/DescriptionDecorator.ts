@@ -1,37 +1,79 @@
 /**
  * DescriptionDecorator — Append Cache-Control to Tool Descriptions
  *
- * Pure function. Single responsibility: decorate a tool description
- * with its resolved Cache-Control directive.
+ * Pure function. Single responsibility: decorate a tool (or resource)
+ * description with its resolved Cache-Control directive.
  *
- * Idempotent: calling twice on the same tool produces the same result.
+ * Idempotent: calling twice on the same tool produces the same result,
+ * with the default suffix or a custom `cacheControl` template.
  */
-import type { McpToolDef, ResolvedPolicy } from './types.js';
+import type { McpToolDef, ResolvedPolicy, MessageTemplates } from './types.js';
+import { DEFAULT_MESSAGES, formatMessage, parseTemplate } from './Messages.js';
 
-/** Regex to detect an existing Cache-Control directive in the description. */
-const CACHE_CONTROL_PATTERN = /\s*\[Cache-Control:\s*\w[^\]]*\]$/;
+/** Stand-in directive used to find where a function template puts it. */
+const PROBE = '\u0000';
+
+/** Suffix pattern per catalog; `null` when a function template hides the directive. */
+const suffixPatterns = new WeakMap<MessageTemplates, RegExp | null>();
 
 /**
- * Append the Cache-Control directive to a tool's description.
+ * Append the Cache-Control directive to a tool's (or resource's) description.
  * Returns a shallow copy with the decorated description.
  * If the policy has no cacheControl, returns the tool unchanged.
  *
- * Idempotent: if the description already ends with a Cache-Control
- * directive, it is replaced (not duplicated).
+ * Idempotent: if the description already ends with a suffix rendered by
+ * the same `cacheControl` template, it is replaced (not duplicated).
  *
  * @example
  * decorateDescription(tool, { cacheControl: 'no-store' })
  * // "Manage sprints." → "Manage sprints. [Cache-Control: no-store]"
  */
-export function decorateDescription(
-    tool: McpToolDef,
+export function decorateDescription<T extends Pick<McpToolDef, 'description'>>(
+    tool: T,
     policy: ResolvedPolicy | null,
-): McpToolDef {
+    messages: MessageTemplates = DEFAULT_MESSAGES,
+): T {
     if (!policy?.cacheControl) return tool;
 
-    const suffix = ` [Cache-Control: ${policy.cacheControl}]`;
-    const base = (tool.description ?? '').replace(CACHE_CONTROL_PATTERN, '');
-    const description = base + suffix;
+    const suffix = ` ${formatMessage(messages, 'cacheControl', { directive: policy.cacheControl })}`;
+    const description = stripSuffix(tool.description ?? '', suffix, messages) + suffix;
 
     return { ...tool, description };
 }
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Remove an existing suffix. String templates — and function templates
+ * that insert the directive verbatim — match any directive; other
+ * function templates only match their current rendering.
+ */
+function stripSuffix(description: string, suffix: string, messages: MessageTemplates): string {
+    const pattern = suffixPattern(messages);
+    if (pattern) return description.replace(pattern, '');
+    return description.endsWith(suffix) ? description.slice(0, -suffix.length) : description;
+}
+
+function suffixPattern(messages: MessageTemplates): RegExp | null {
+    let pattern = suffixPatterns.get(messages);
+    if (pattern !== undefined) return pattern;
+
+    const template = messages.cacheControl;
+    const literals = typeof template === 'string'
+        ? parseTemplate(template).literals
+        : String(template({ directive: PROBE })).split(PROBE);
+
+    pattern = literals.length > 1
+        ? new RegExp(`\\s*${literals.map(toPattern).join('\\S+?')}$`)
+        : null;
+    suffixPatterns.set(messages, pattern);
+    return pattern;
+}
+
+/** Literal template text as a pattern; whitespace runs match any whitespace. */
+function toPattern(literal: string): string {
+    return literal
+        .split(/\s+/)
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('\\s*');
+}
@@ -0,0 +1,205 @@
+/**
+ * DomainVersions — Per-Domain Version Counters
+ *
+ * Single responsibility: assign a monotonically increasing version to
+ * every invalidated domain pattern, from write tools and external sources
+ * alike, and answer "what is the current version of this tool call?".
+ *
+ * A read stamped with version `v` is stale once any invalidation covering
+ * it has been recorded with a version greater than `v`. Exclusions
+ * (`!glob`) are recorded with every pattern of the same invalidation.
+ *
+ * Lookups run on every recorded read, so domains are indexed by the first
+ * segment of their glob, the glob itself and their first scope pair:
+ * `tasks.get{id=42}` is only compared with `tasks.*` calls whose `id` is
+ * 42 or absent.
+ */
+import { matchGlob } from './GlobMatcher.js';
+import { isResourcePattern } from './UriGlob.js';
+import {
+    matchInvalidations,
+    isExclusion,
+    parseInvalidation,
+    readScopeValue,
+} from './InvalidationTemplate.js';
+
+/** Default upper bound on distinct patterns tracked. */
+export const DEFAULT_MAX_DOMAINS = 10_000;
+
+/** Index prefix of globs whose first segment is not a literal. */
+const ANY_PREFIX = '*';
+
+/** A recorded pattern (+ exclusions) with the version of its latest invalidation. */
+interface Domain {
+    readonly key: string;
+    readonly patterns: readonly string[];
+    readonly version: number;
+}
+
+/** Domains sharing one coarse glob, split by their first literal scope pair. */
+interface GlobBucket {
+    readonly glob: string;
+    readonly unscoped: Map<string, Domain>;
+    /** Scope key → scope value → domains. */
+    readonly scoped: Map<string, Map<string, Map<string, Domain>>>;
+}
+
+export class DomainVersions {
+    /** Every tracked domain by key, least recently bumped first. */
+    private readonly domains = new Map<string, Domain>();
+    /** First glob segment (or `*`) → coarse glob → bucket. Resource URIs are not indexed. */
+    private readonly index = new Map<string, Map<string, GlobBucket>>();
+    private readonly maxDomains: number;
+    private clock = 0;
+    /** Highest version forgotten on overflow — applies to every tool. */
+    private floor = 0;
+
+    constructor(maxDomains: number = DEFAULT_MAX_DOMAINS) {
+        if (!Number.isInteger(maxDomains) || maxDomains < 1) {
+            throw new Error(`DomainVersions: maxDomains must be a positive integer, received ${maxDomains}.`);
+        }
+        this.maxDomains = maxDomains;
+    }
+
+    /** The latest version issued. Reads are stamped with this value. */
+    get current(): number {
+        return this.clock;
+    }
+
+    /**
+     * Record an invalidation of the given patterns under a new version.
+     * @returns The new version
+     */
+    bump(patterns: readonly string[]): number {
+        if (patterns.length === 0) return this.clock;
+
+        const version = ++this.clock;
+        const exclusions = patterns.filter(isExclusion);
+        for (const pattern of patterns) {
+            if (isExclusion(pattern)) continue;
+            const key = [pattern, ...exclusions].join('\u0000');
+            const previous = this.domains.get(key);
+            if (previous) this.remove(previous);
+            this.add({ key, patterns: [pattern, ...exclusions], version });
+        }
+
+        // Forgetting a domain must never make a read look fresh: raise the floor
+        while (this.domains.size > this.maxDomains) {
+            const oldest = this.domains.values().next().value as Domain;
+            this.remove(oldest);
+            this.floor = Math.max(this.floor, oldest.version);
+        }
+
+        return version;
+    }
+
+    /** Current version of a tool call: the latest invalidation covering it. */
+    versionOf(toolName: string, args?: Record<string, unknown>): number {
+        let version = this.floor;
+        for (const prefix of [firstSegment(toolName), ANY_PREFIX]) {
+            for (const bucket of this.index.get(prefix)?.values() ?? []) {
+                if (!matchGlob(bucket.glob, toolName)) continue;
+                for (const domains of candidates(bucket, args)) {
+                    for (const domain of domains.values()) {
+                        if (domain.version > version && matchInvalidations(domain.patterns, toolName, args)) {
+                            version = domain.version;
+                        }
+                    }
+                }
+            }
+        }
+        return version;
+    }
+
+    private add(domain: Domain): void {
+        this.domains.set(domain.key, domain);
+        const slot = this.slotOf(domain, true);
+        slot?.set(domain.key, domain);
+    }
+
+    private remove(domain: Domain): void {
+        this.domains.delete(domain.key);
+        const slot = this.slotOf(domain, false);
+        if (!slot?.delete(domain.key) || slot.size > 0) return;
+
+        // Prune emptied maps so churn over distinct entities does not accumulate
+        const [prefix, glob, pair] = indexPath(domain.patterns[0])!;
+        const buckets = this.index.get(prefix)!;
+        const bucket = buckets.get(glob)!;
+        if (pair) {
+            const values = bucket.scoped.get(pair.key)!;
+            values.delete(pair.value);
+            if (values.size === 0) bucket.scoped.delete(pair.key);
+        }
+        if (bucket.unscoped.size > 0 || bucket.scoped.size > 0) return;
+        buckets.delete(glob);
+        if (buckets.size === 0) this.index.delete(prefix);
+    }
+
+    /** The index map holding a domain, created on demand when `create` is set. */
+    private slotOf(domain: Domain, create: boolean): Map<string, Domain> | undefined {
+        const path = indexPath(domain.patterns[0]);
+        if (!path) return undefined;
+        const [prefix, glob, pair] = path;
+
+        let buckets = this.index.get(prefix);
+        let bucket = buckets?.get(glob);
+        if (!bucket) {
+            if (!create) return undefined;
+            bucket = { glob, unscoped: new Map(), scoped: new Map() };
+            if (!buckets) this.index.set(prefix, buckets = new Map());
+            buckets.set(glob, bucket);
+        }
+        if (!pair) return bucket.unscoped;
+
+        let values = bucket.scoped.get(pair.key);
+        let slot = values?.get(pair.value);
+        if (!slot) {
+            if (!create) return undefined;
+            slot = new Map();
+            if (!values) bucket.scoped.set(pair.key, values = new Map());
+            values.set(pair.value, slot);
+        }
+        return slot;
+    }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Index position of a tool pattern: first glob segment, coarse glob and
+ * first literal scope pair. Resource URIs never cover a tool call.
+ */
+function indexPath(pattern: string): [string, string, { key: string; value: string } | undefined] | undefined {
+    if (isResourcePattern(pattern)) return undefined;
+
+    const { glob, scope } = parseInvalidation(pattern);
+    const first = firstSegment(glob);
+    const prefix = first.includes('*') || first.includes('{') ? ANY_PREFIX : first;
+    const literal = scope.find(param => param.value !== undefined);
+    return [prefix, glob, literal && { key: literal.key, value: literal.value! }];
+}
+
+function firstSegment(name: string): string {
+    const dot = name.indexOf('.');
+    return dot === -1 ? name : name.slice(0, dot);
+}
+
+/**
+ * Domain maps of a bucket that can cover a call: unscoped ones, and scoped
+ * ones whose value equals the call's argument — all of them when the call
+ * does not constrain that key.
+ */
+function candidates(bucket: GlobBucket, args?: Record<string, unknown>): Map<string, Domain>[] {
+    const maps = [bucket.unscoped];
+    for (const [key, values] of bucket.scoped) {
+        const actual = args ? readScopeValue(args, key) : undefined;
+        if (actual === undefined) {
+            for (const slot of values.values()) maps.push(slot);
+        } else {
+            const slot = values.get(actual);
+            if (slot) maps.push(slot);
+        }
+    }
+    return maps;
+}
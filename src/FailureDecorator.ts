@@ -0,0 +1,49 @@
+/**
+ * FailureDecorator — Sanitized Upstream Failure Result
+ *
+ * Pure function. Single responsibility: build the `isError` result
+ * returned instead of a raw JSON-RPC error when the upstream throws,
+ * times out or is cancelled. The error message is never included — it
+ * may carry stack traces, SQL or credentials.
+ */
+import type { McpCallResult, MessageTemplates } from './types.js';
+import { classifyUpstreamError, UpstreamTimeoutError } from './UpstreamDeadline.js';
+import { DEFAULT_MESSAGES, formatMessage } from './Messages.js';
+
+/**
+ * Build the result for a `tools/call` whose upstream threw.
+ *
+ * @param toolName - The tool that failed
+ * @param error    - What the upstream (or its deadline) threw
+ * @param messages - Message catalog (`upstreamError`, `upstreamTimeout`, `upstreamCancelled`)
+ * @returns An `isError` result naming the tool and the kind of failure
+ *
+ * @example
+ * upstreamFailure('sprints.update', new UpstreamTimeoutError(5000))
+ * // → [System: sprints.update failed — timed out after 5000 ms.]
+ */
+export function upstreamFailure(
+    toolName: string,
+    error: unknown,
+    messages: MessageTemplates = DEFAULT_MESSAGES,
+): McpCallResult {
+    return {
+        content: [{ type: 'text', text: describe(toolName, error, messages) }],
+        isError: true,
+    };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function describe(tool: string, error: unknown, messages: MessageTemplates): string {
+    switch (classifyUpstreamError(error)) {
+        case 'timeout': {
+            const timeoutMs = String((error as UpstreamTimeoutError).timeoutMs);
+            return formatMessage(messages, 'upstreamTimeout', { tool, timeoutMs });
+        }
+        case 'cancelled':
+            return formatMessage(messages, 'upstreamCancelled', { tool });
+        default:
+            return formatMessage(messages, 'upstreamError', { tool });
+    }
+}
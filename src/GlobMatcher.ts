@@ -1,12 +1,82 @@
 /**
  * GlobMatcher — Dot-Separated Glob Pattern Matching
  *
- * Pure function. Single responsibility: match a dot-separated tool name
- * against a glob pattern.
+ * Pure functions. Single responsibility: match a dot-separated tool name
+ * against a glob pattern, and compare globs with each other.
  *
- * - `*`  matches exactly one segment
- * - `**` matches zero or more segments
+ * - `*`  as a whole segment matches exactly one segment
+ * - `**` matches zero or more segments (whole segments only)
+ * - `*`  inside a segment matches any characters of that segment: `*.get*`
+ * - `{a,b}` matches any of the alternatives within a segment:
+ *   `sprints.{create,update,delete}`
  */
+import { LruCache } from './LruCache.js';
+
+// ── Syntax ──────────────────────────────────────────────────────────
+
+/** A glob that cannot be parsed. `column` is 1-based. */
+export class GlobSyntaxError extends Error {
+    constructor(message: string, readonly column: number) {
+        super(message);
+        this.name = 'GlobSyntaxError';
+    }
+}
+
+/** Literal segment characters. */
+const VALID_CHAR = /[a-zA-Z0-9_-]/;
+
+/**
+ * Check the syntax of a glob. Throws a `GlobSyntaxError` naming the
+ * first problem and its column; `offset` shifts columns for globs
+ * embedded in a longer string.
+ *
+ * @example
+ * validateGlob('sprints.{create,update')
+ * // throws: unclosed "{" at column 9
+ */
+export function validateGlob(pattern: string, offset: number = 0): void {
+    const fail = (message: string, index: number): never => {
+        throw new GlobSyntaxError(`${message} at column ${offset + index + 1}`, offset + index + 1);
+    };
+
+    let segmentStart = 0;
+    let braceAt = -1;
+    let alternativeStart = -1;
+
+    const endSegment = (end: number) => {
+        const segment = pattern.slice(segmentStart, end);
+        if (segment === '') fail('empty segment', segmentStart);
+        const doubleStar = segment.indexOf('**');
+        if (doubleStar !== -1 && segment !== '**') {
+            fail('"**" must be a whole segment', segmentStart + doubleStar);
+        }
+        segmentStart = end + 1;
+    };
+
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === '{') {
+            if (braceAt !== -1) fail('nested "{"', i);
+            braceAt = i;
+            alternativeStart = i + 1;
+        } else if (c === '}' || c === ',') {
+            if (braceAt === -1) fail(`unexpected "${c}" outside "{...}"`, i);
+            if (i === alternativeStart) fail('empty alternative', i);
+            if (c === '}') braceAt = -1;
+            alternativeStart = i + 1;
+        } else if (c === '.') {
+            if (braceAt !== -1) fail('unclosed "{"', braceAt);
+            endSegment(i);
+        } else if (c !== '*' && !VALID_CHAR.test(c)) {
+            const end = pattern.indexOf('.', i);
+            const segment = pattern.slice(segmentStart, end === -1 ? undefined : end);
+            fail(`invalid segment "${segment}": unexpected "${c}"`, i);
+        }
+    }
+
+    if (braceAt !== -1) fail('unclosed "{"', braceAt);
+    endSegment(pattern.length);
+}
 
 /**
  * Match a dot-separated name against a glob pattern.
@@ -43,9 +113,176 @@ function matchSegments(
             || matchSegments(pp, pi, np, ni + 1);
     }
 
-    if (segment === '*' || segment === np[ni]) {
+    if (matchSegment(segment, np[ni])) {
         return matchSegments(pp, pi + 1, np, ni + 1);
     }
 
     return false;
 }
+
+/** Compiled intra-segment patterns (`get*`, `{create,update}`). */
+const SEGMENT_PATTERNS = new LruCache<string, RegExp>(1000);
+
+/** Match one name segment against one non-`**` glob segment. */
+export function matchSegment(segment: string, actual: string): boolean {
+    if (segment === '*') return true;
+    if (!segment.includes('*') && !segment.includes('{')) return segment === actual;
+
+    let regex = SEGMENT_PATTERNS.get(segment);
+    if (!regex) {
+        regex = compileSegment(segment);
+        SEGMENT_PATTERNS.set(segment, regex);
+    }
+    return regex.test(actual);
+}
+
+/** `get{One,All}*` → `/^get(?:One|All)[^.]*$/`. */
+function compileSegment(segment: string): RegExp {
+    let source = '';
+    let inBraces = false;
+    for (const c of segment) {
+        if (c === '*') {
+            source += '[^.]*';
+        } else if (c === '{' && !inBraces) {
+            source += '(?:';
+            inBraces = true;
+        } else if (c === '}' && inBraces) {
+            source += ')';
+            inBraces = false;
+        } else if (c === ',' && inBraces) {
+            source += '|';
+        } else {
+            source += c.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+        }
+    }
+    if (inBraces) source += ')';
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Explain why a name does not match a glob, segment by segment.
+ * Returns `null` when it matches.
+ *
+ * Segments before the first `**` are compared from the start, segments
+ * after the last `**` from the end; what lies between is reported as a whole.
+ *
+ * @example
+ * explainGlobMismatch('sprints.*', 'tasks.get')
+ * // → 'segment 1: "tasks" does not match "sprints"'
+ */
+export function explainGlobMismatch(pattern: string, name: string): string | null {
+    if (matchGlob(pattern, name)) return null;
+
+    const pp = pattern.split('.');
+    const np = name.split('.');
+    const first = pp.indexOf('**');
+
+    if (first === -1) {
+        for (let i = 0; i < pp.length; i++) {
+            if (i === np.length) {
+                return `segment ${i + 1}: pattern expects "${pp[i]}", name has only ${np.length} segment(s)`;
+            }
+            const reason = compareSegment(pp[i], np[i], i);
+            if (reason) return reason;
+        }
+        return `name has ${np.length} segments, pattern only ${pp.length}`;
+    }
+
+    for (let i = 0; i < first && i < np.length; i++) {
+        const reason = compareSegment(pp[i], np[i], i);
+        if (reason) return reason;
+    }
+
+    const tail = pp.length - 1 - pp.lastIndexOf('**');
+    for (let k = 1; k <= tail && k <= np.length; k++) {
+        const reason = compareSegment(pp[pp.length - k], np[np.length - k], np.length - k);
+        if (reason) return reason;
+    }
+
+    return `name has too few segments for "${pattern}"`;
+}
+
+/** Reason a single non-`**` segment fails, or `null`. */
+function compareSegment(segment: string, actual: string, index: number): string | null {
+    if (matchSegment(segment, actual)) return null;
+    return `segment ${index + 1}: "${actual}" does not match "${segment}"`;
+}
+
+/**
+ * Check whether every name matched by `inner` is also matched by `outer`
+ * (structural containment, independent of any tool list).
+ *
+ * @example
+ * coversGlob('sprints.*', 'sprints.get')  // true
+ * coversGlob('**', 'sprints.*')           // true
+ * coversGlob('sprints.*', 'sprints.**')   // false — `sprints.a.b`
+ * coversGlob('*.get*', 'tasks.{get,getAll}') // true
+ *
+ * Intra-segment wildcards are compared conservatively: a result of
+ * `false` means containment could not be shown.
+ */
+export function coversGlob(outer: string, inner: string): boolean {
+    return coverSegments(
+        outer.split('.'), 0,
+        inner.split('.'), 0,
+    );
+}
+
+function coverSegments(
+    op: string[], oi: number,
+    ip: string[], ii: number,
+): boolean {
+    if (oi === op.length) return ii === ip.length;
+
+    const segment = op[oi];
+
+    if (segment === '**') {
+        return coverSegments(op, oi + 1, ip, ii)
+            || (ii < ip.length && coverSegments(op, oi, ip, ii + 1));
+    }
+
+    // `**` in the inner glob can only be covered by `**`
+    if (ii === ip.length || ip[ii] === '**') return false;
+
+    if (coversSegment(segment, ip[ii])) {
+        return coverSegments(op, oi + 1, ip, ii + 1);
+    }
+
+    return false;
+}
+
+/** Whether every name segment matched by `inner` is matched by `outer`. */
+function coversSegment(outer: string, inner: string): boolean {
+    if (outer === '*' || outer === inner) return true;
+    return expandBraces(inner).every(alternative => alternative.includes('*')
+        ? coversWildcard(outer, alternative)
+        : matchSegment(outer, alternative));
+}
+
+/**
+ * A wildcard segment `H*…*T` is covered by an outer alternative that is
+ * `*`, identical, or `P*S` with `H` starting with `P` and `T` ending with `S`.
+ */
+function coversWildcard(outer: string, inner: string): boolean {
+    const head = inner.slice(0, inner.indexOf('*'));
+    const tail = inner.slice(inner.lastIndexOf('*') + 1);
+
+    return expandBraces(outer).some(alternative => {
+        if (alternative === '*' || alternative === inner) return true;
+        const star = alternative.indexOf('*');
+        if (star === -1 || star !== alternative.lastIndexOf('*')) return false;
+        return head.startsWith(alternative.slice(0, star)) && tail.endsWith(alternative.slice(star + 1));
+    });
+}
+
+/** `get{One,All}` → `['getOne', 'getAll']`. */
+function expandBraces(segment: string): string[] {
+    const open = segment.indexOf('{');
+    const close = segment.indexOf('}', open);
+    if (open === -1 || close === -1) return [segment];
+
+    const rest = expandBraces(segment.slice(close + 1));
+    return segment.slice(open + 1, close).split(',').flatMap(alternative =>
+        rest.map(suffix => segment.slice(0, open) + alternative + suffix),
+    );
+}
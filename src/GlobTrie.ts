@@ -0,0 +1,132 @@
+/**
+ * GlobTrie — Precompiled First-Match Glob Lookup
+ *
+ * Single responsibility: find the first of many globs that matches a
+ * tool name without trying them one by one. Globs are compiled into a
+ * segment trie once; a lookup walks the name's segments through it,
+ * tracking every reachable node at the same time (no backtracking on
+ * `**`), and returns the lowest index among the globs that end there —
+ * or all of them, for accumulating resolution.
+ *
+ * Same semantics as `matchGlob` applied in declaration order.
+ */
+import { matchSegment } from './GlobMatcher.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+interface TrieNode {
+    /** Exact segments. */
+    readonly literals: Map<string, TrieNode>;
+    /** Intra-segment patterns (`get*`, `{create,update}`). */
+    readonly patterns: Map<string, TrieNode>;
+    /** A whole-segment `*`. */
+    star?: TrieNode;
+    /** A `**` segment. */
+    globstar?: TrieNode;
+    /** This node is a `**`: it consumes further segments without moving. */
+    readonly repeats: boolean;
+    /** Indices of the globs ending at this node, ascending. */
+    readonly ends: number[];
+}
+
+// ── GlobTrie ────────────────────────────────────────────────────────
+
+export class GlobTrie {
+    private readonly root = createNode(false);
+
+    /** Compile globs; their position in the array is the index `firstMatch` reports. */
+    constructor(globs: readonly string[]) {
+        globs.forEach((glob, index) => this.insert(glob, index));
+    }
+
+    /**
+     * Index of the first glob matching `name`, or `-1`.
+     *
+     * @example
+     * new GlobTrie(['tasks.*', '**']).firstMatch('tasks.get')   // 0
+     * new GlobTrie(['tasks.*', '**']).firstMatch('sprints.get') // 1
+     */
+    firstMatch(name: string): number {
+        let first = Infinity;
+        for (const node of this.walk(name)) {
+            if (node.ends.length > 0) first = Math.min(first, node.ends[0]);
+        }
+        return first === Infinity ? -1 : first;
+    }
+
+    /**
+     * Indices of every glob matching `name`, ascending.
+     *
+     * @example
+     * new GlobTrie(['tasks.*', 'sprints.*', '**']).allMatches('tasks.get') // [0, 2]
+     */
+    allMatches(name: string): number[] {
+        const matches = new Set<number>();
+        for (const node of this.walk(name)) {
+            for (const index of node.ends) matches.add(index);
+        }
+        return [...matches].sort((a, b) => a - b);
+    }
+
+    /** The nodes reached after consuming every segment of `name`. */
+    private walk(name: string): Set<TrieNode> {
+        let states = closure([this.root]);
+
+        for (const segment of name.split('.')) {
+            const next: TrieNode[] = [];
+            for (const node of states) {
+                const literal = node.literals.get(segment);
+                if (literal) next.push(literal);
+                if (node.star) next.push(node.star);
+                for (const [pattern, child] of node.patterns) {
+                    if (matchSegment(pattern, segment)) next.push(child);
+                }
+                if (node.repeats) next.push(node);
+            }
+            if (next.length === 0) return new Set();
+            states = closure(next);
+        }
+        return states;
+    }
+
+    private insert(glob: string, index: number): void {
+        let node = this.root;
+        for (const segment of glob.split('.')) {
+            node = child(node, segment);
+        }
+        node.ends.push(index);
+    }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function createNode(repeats: boolean): TrieNode {
+    return { literals: new Map(), patterns: new Map(), repeats, ends: [] };
+}
+
+/** The child of `node` for a glob segment, created on first use. */
+function child(node: TrieNode, segment: string): TrieNode {
+    if (segment === '**') return node.globstar ??= createNode(true);
+    if (segment === '*') return node.star ??= createNode(false);
+
+    const children = segment.includes('*') || segment.includes('{') ? node.patterns : node.literals;
+    let next = children.get(segment);
+    if (!next) {
+        next = createNode(false);
+        children.set(segment, next);
+    }
+    return next;
+}
+
+/** `nodes` plus every node reachable through `**` without consuming a segment. */
+function closure(nodes: readonly TrieNode[]): Set<TrieNode> {
+    const reached = new Set<TrieNode>();
+    const pending = [...nodes];
+    while (pending.length > 0) {
+        const node = pending.pop()!;
+        if (reached.has(node)) continue;
+        reached.add(node);
+        if (node.globstar) pending.push(node.globstar);
+    }
+    return reached;
+}
@@ -0,0 +1,336 @@
+/**
+ * InvalidationTemplate — Argument-Scoped (Entity-Level) Invalidation
+ *
+ * Pure functions. Single responsibility: parse and render invalidation
+ * templates that narrow a domain glob to a single entity using values
+ * taken from the `tools/call` arguments.
+ *
+ * Syntax: `<glob>{<key>=<value>, ...}` where `<value>` is either a literal
+ * or an argument reference (`$args.taskId`, `$args.task.id`).
+ *
+ * - `tasks.get{id=$args.taskId}` + `{ taskId: 42 }` → `tasks.get{id=42}`
+ * - `tasks.get{id=$args.taskId}` + `{}`             → `tasks.get` (coarse fallback)
+ *
+ * Scope keys name the argument of the *invalidated* tool: `tasks.get{id=42}`
+ * matches a `tasks.get` call made with `{ id: 42 }`.
+ *
+ * A trailing `{...}` is a scope when it contains `=`; otherwise it is glob
+ * alternation (`tasks.{get,list}`, `tasks.{get}`). Both combine:
+ * `tasks.{get,list}{id=$args.taskId}`.
+ *
+ * A leading `!` excludes: in `['tasks.*', '!tasks.archive.*']` the list
+ * covers every `tasks.*` call except `tasks.archive.*` ones. Exclusions
+ * apply to the whole list, whatever their position.
+ *
+ * Patterns starting with a URI scheme target MCP resources (see UriGlob).
+ * Their argument references sit inside the URI:
+ * - `jira://sprints/{$args.sprintId}` + `{ sprintId: 42 }` → `jira://sprints/42`
+ * - `jira://sprints/{$args.sprintId}` + `{}`               → `jira://sprints/*`
+ */
+import { matchGlob, validateGlob, GlobSyntaxError } from './GlobMatcher.js';
+import { isResourcePattern, matchUriGlob, validateUriGlob } from './UriGlob.js';
+import { LruCache } from './LruCache.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A single `key=value` pair of an invalidation scope. */
+export interface ScopeParam {
+    readonly key: string;
+    /** Argument path for `$args.` references (e.g. `['task', 'id']`). */
+    readonly ref?: readonly string[];
+    /** Literal value (rendered templates only carry literals). */
+    readonly value?: string;
+}
+
+/** A parsed invalidation pattern: domain glob + optional entity scope. */
+export interface ParsedInvalidation {
+    readonly glob: string;
+    readonly scope: readonly ScopeParam[];
+    /** `true` for `!`-prefixed exclusions. */
+    readonly negated?: true;
+    /** `true` for resource URI patterns; `glob` is then a URI glob. */
+    readonly resource?: true;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+/** Trailing `{...}` block: a scope or the last alternation of the glob. */
+const TRAILING_BLOCK = /\{([^{}]*)\}$/;
+
+/** Scope key: identifier-like. */
+const VALID_KEY = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
+
+/** Literal scope value: no reserved characters, no whitespace. */
+const VALID_VALUE = /^[a-zA-Z0-9_.:@/+-]+$/;
+
+/** Argument reference prefix. */
+const ARGS_PREFIX = '$args.';
+
+/** `{$args.path}` inside a resource URI pattern. */
+const URI_REFERENCE = /\{\$args\.([^{}]*)\}/g;
+
+/** Parsed patterns — matching runs on every recorded read and version lookup. */
+const PARSED_PATTERNS = new LruCache<string, ParsedInvalidation>(10_000);
+
+// ── Parse ───────────────────────────────────────────────────────────
+
+/**
+ * Parse an invalidation pattern into its glob and scope.
+ * Plain globs (`sprints.*`) parse to an empty scope.
+ *
+ * @throws Error with a description of the first syntax problem
+ */
+export function parseInvalidation(pattern: string): ParsedInvalidation {
+    let parsed = PARSED_PATTERNS.get(pattern);
+    if (!parsed) {
+        parsed = isResourcePattern(pattern) ? parseResourceInvalidation(pattern) : parseToolInvalidation(pattern);
+        PARSED_PATTERNS.set(pattern, parsed);
+    }
+    return parsed;
+}
+
+/** Tool pattern: a glob with an optional trailing `{key=value, ...}` scope. */
+function parseToolInvalidation(pattern: string): ParsedInvalidation {
+
+    const negated = pattern.startsWith('!');
+    const start = negated ? 1 : 0;
+
+    const block = TRAILING_BLOCK.exec(pattern);
+    const isScope = block !== null && block[1].includes('=');
+    const glob = pattern.slice(start, isScope ? block.index : undefined);
+    const body = isScope ? block[1] : undefined;
+
+    try {
+        validateGlob(glob, start);
+    } catch (err) {
+        if (!(err instanceof GlobSyntaxError)) throw err;
+        throw new Error(
+            `invalid invalidation template "${pattern}": ${err.message}. ` +
+            `Expected "<glob>" or "<glob>{key=$args.name, ...}".`,
+        );
+    }
+
+    const base = { glob, scope: [] as ScopeParam[], ...(negated && { negated: true as const }) };
+    if (body === undefined) return base;
+
+    const { scope } = base;
+    for (const part of body.split(',')) {
+        const pair = part.trim();
+        const eq = pair.indexOf('=');
+        const key = eq === -1 ? pair : pair.slice(0, eq).trim();
+        const raw = eq === -1 ? '' : pair.slice(eq + 1).trim();
+
+        if (!VALID_KEY.test(key)) {
+            throw new Error(`invalid scope key "${key}" in "${pattern}".`);
+        }
+        if (scope.some(p => p.key === key)) {
+            throw new Error(`duplicate scope key "${key}" in "${pattern}".`);
+        }
+
+        if (raw.startsWith(ARGS_PREFIX)) {
+            // A missing argument would widen the exclusion to the coarse glob
+            if (negated) {
+                throw new Error(`exclusion "${pattern}" cannot reference "${raw}": use literal scope values.`);
+            }
+            const ref = raw.slice(ARGS_PREFIX.length).split('.');
+            if (ref.some(s => !VALID_KEY.test(s))) {
+                throw new Error(`invalid argument reference "${raw}" in "${pattern}".`);
+            }
+            scope.push({ key, ref });
+        } else if (VALID_VALUE.test(raw)) {
+            scope.push({ key, value: raw });
+        } else {
+            throw new Error(
+                `invalid scope value "${raw}" for key "${key}" in "${pattern}". ` +
+                `Expected a literal or "$args.<name>".`,
+            );
+        }
+    }
+
+    return base;
+}
+
+/** Resource URI pattern: a URI glob with optional `{$args.path}` references. */
+function parseResourceInvalidation(pattern: string): ParsedInvalidation {
+    const negated = pattern.startsWith('!');
+    const glob = pattern.slice(negated ? 1 : 0);
+
+    try {
+        validateUriGlob(glob, negated ? 1 : 0);
+    } catch (err) {
+        if (!(err instanceof GlobSyntaxError)) throw err;
+        throw new Error(`invalid resource pattern "${pattern}": ${err.message}.`);
+    }
+    for (const [reference, path] of glob.matchAll(URI_REFERENCE)) {
+        if (negated) {
+            throw new Error(`exclusion "${pattern}" cannot reference "${reference}": use literal URIs.`);
+        }
+        if (path.split('.').some(s => !VALID_KEY.test(s))) {
+            throw new Error(`invalid argument reference "${reference}" in "${pattern}".`);
+        }
+    }
+
+    return { glob, scope: [], resource: true, ...(negated && { negated: true as const }) };
+}
+
+// ── Render ──────────────────────────────────────────────────────────
+
+/**
+ * Render an invalidation template against the call arguments.
+ *
+ * Argument references are replaced by their values. If any referenced
+ * argument is missing or is not a renderable primitive, the template
+ * falls back to its coarse domain glob — over-invalidation is always safe.
+ */
+export function renderInvalidation(
+    pattern: string,
+    args: Record<string, unknown>,
+): string {
+    if (isResourcePattern(pattern)) {
+        // Missing arguments widen one segment only
+        return pattern.replace(URI_REFERENCE, (_, path: string) => {
+            const value = readPrimitive(args, path.split('.'));
+            return value === undefined ? '*' : encodeURIComponent(value).replace(/\*/g, '%2A');
+        });
+    }
+
+    const { glob, scope, negated } = parseInvalidation(pattern);
+    const coarse = negated ? `!${glob}` : glob;
+    if (scope.length === 0) return coarse;
+
+    const pairs: string[] = [];
+    for (const param of scope) {
+        const value = param.ref ? readArgument(args, param.ref) : param.value;
+        if (value === undefined) return coarse;
+        pairs.push(`${param.key}=${value}`);
+    }
+
+    return `${coarse}{${pairs.join(',')}}`;
+}
+
+/**
+ * The call argument a scope key is compared with, as rendered in scopes,
+ * or `undefined` when the call does not constrain that key.
+ */
+export function readScopeValue(args: Record<string, unknown>, key: string): string | undefined {
+    return readArgument(args, [key]);
+}
+
+/** Resolve an argument path to a renderable literal, or `undefined`. */
+function readArgument(
+    args: Record<string, unknown>,
+    path: readonly string[],
+): string | undefined {
+    const value = readPrimitive(args, path);
+    return value !== undefined && VALID_VALUE.test(value) ? value : undefined;
+}
+
+/** Resolve an argument path to a string, number or boolean, as a string. */
+function readPrimitive(
+    args: Record<string, unknown>,
+    path: readonly string[],
+): string | undefined {
+    let current: unknown = args;
+    for (const segment of path) {
+        if (!current || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[segment];
+    }
+
+    if (typeof current !== 'string' && typeof current !== 'number' && typeof current !== 'boolean') {
+        return undefined;
+    }
+    return String(current);
+}
+
+// ── Match ───────────────────────────────────────────────────────────
+
+/**
+ * Check whether a rendered invalidation covers a specific tool call.
+ *
+ * The glob must match the tool name. Each scope key is compared with the
+ * call argument of the same name; calls without that argument (e.g. list
+ * tools) or without known arguments are conservatively covered.
+ * An exclusion (`!glob`) on its own covers nothing — see `matchInvalidations`.
+ */
+export function matchInvalidation(
+    pattern: string,
+    toolName: string,
+    args?: Record<string, unknown>,
+): boolean {
+    const parsed = parseInvalidation(pattern);
+    return !parsed.negated && covers(parsed, toolName, args);
+}
+
+/**
+ * Check whether a list of invalidations covers a specific tool call:
+ * some pattern covers it and no exclusion (`!glob`) excludes it.
+ *
+ * Exclusions only apply when certain — a scoped exclusion needs the call
+ * arguments to match, so over-invalidation stays the failure mode.
+ *
+ * @example
+ * matchInvalidations(['tasks.*', '!tasks.archive'], 'tasks.archive') // false
+ */
+export function matchInvalidations(
+    patterns: readonly string[],
+    toolName: string,
+    args?: Record<string, unknown>,
+): boolean {
+    let covered = false;
+    for (const pattern of patterns) {
+        const parsed = parseInvalidation(pattern);
+        if (parsed.negated) {
+            if (excludes(parsed, toolName, args)) return false;
+        } else if (!covered) {
+            covered = covers(parsed, toolName, args);
+        }
+    }
+    return covered;
+}
+
+/**
+ * Check whether a list of invalidations covers a resource URI: some
+ * resource pattern matches it and no resource exclusion does. Tool
+ * patterns are ignored.
+ *
+ * @example
+ * matchResourceInvalidations(['sprints.*', 'jira://sprints/42'], 'jira://sprints/42') // true
+ */
+export function matchResourceInvalidations(patterns: readonly string[], uri: string): boolean {
+    let covered = false;
+    for (const pattern of patterns) {
+        if (!isResourcePattern(pattern)) continue;
+        if (isExclusion(pattern)) {
+            if (matchUriGlob(pattern.slice(1), uri)) return false;
+        } else if (!covered) {
+            covered = matchUriGlob(pattern, uri);
+        }
+    }
+    return covered;
+}
+
+/** Whether an invalidation pattern is an exclusion (`!glob`). */
+export function isExclusion(pattern: string): boolean {
+    return pattern.startsWith('!');
+}
+
+function covers(parsed: ParsedInvalidation, toolName: string, args?: Record<string, unknown>): boolean {
+    if (parsed.resource || !matchGlob(parsed.glob, toolName)) return false;
+    if (!args) return true;
+
+    for (const param of parsed.scope) {
+        if (param.value === undefined) continue;
+        const actual = readScopeValue(args, param.key);
+        if (actual !== undefined && actual !== param.value) return false;
+    }
+
+    return true;
+}
+
+function excludes(parsed: ParsedInvalidation, toolName: string, args?: Record<string, unknown>): boolean {
+    if (parsed.resource || !matchGlob(parsed.glob, toolName)) return false;
+    if (parsed.scope.length === 0) return true;
+    if (!args) return false;
+
+    return parsed.scope.every(param => readScopeValue(args, param.key) === param.value);
+}
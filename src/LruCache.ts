@@ -0,0 +1,56 @@
+/**
+ * LruCache — Bounded Least-Recently-Used Map
+ *
+ * Single responsibility: a size-bounded key/value store that evicts the
+ * least recently used entry on overflow. Backed by `Map` insertion order.
+ */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, V>();
+    private readonly maxEntries: number;
+
+    constructor(maxEntries: number) {
+        if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+            throw new Error(`LruCache: maxEntries must be a positive integer, received ${maxEntries}.`);
+        }
+        this.maxEntries = maxEntries;
+    }
+
+    /** Number of entries currently held. */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** Get a value and mark it as most recently used. */
+    get(key: K): V | undefined {
+        const value = this.entries.get(key);
+        if (value === undefined) return undefined;
+
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    /** Insert or replace a value, evicting the least recently used on overflow. */
+    set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        if (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as K;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: K): boolean {
+        return this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /** Iterate entries from least to most recently used (does not refresh). */
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.entries.entries();
+    }
+}
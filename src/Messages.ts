@@ -0,0 +1,143 @@
+/**
+ * Messages — Localizable Message Catalogs
+ *
+ * Pure functions. Single responsibility: hold the built-in catalogs
+ * (`en`, `pt-BR`, `es`), merge a `MessagesConfig` onto them and render
+ * templates with safe interpolation.
+ *
+ * Interpolation is a single pass: `{name}` is replaced by its value,
+ * `{{` / `}}` by a literal brace, and inserted values are never scanned
+ * again — a tool name containing `{domains}` stays literal. The
+ * `[Cache-Control: X]` suffix is protocol vocabulary and identical in
+ * every locale.
+ */
+import type { MessageLocale, MessageParams, MessageTemplate, MessageTemplates, MessagesConfig } from './types.js';
+
+// ── Catalogs ────────────────────────────────────────────────────────
+
+/** Built-in catalog per locale. */
+export const BUILT_IN_MESSAGES: Readonly<Record<MessageLocale, MessageTemplates>> = {
+    'en': Object.freeze({
+        cacheControl: '[Cache-Control: {directive}]',
+        invalidated: '[System: Cache invalidated for {domains} — caused by {causedBy}]',
+        partialFailure: '[System: {causedBy} failed and may have partially modified state. ' +
+            'Cache invalidated for {domains} — re-read before relying on it.]',
+        expired: '[System: Cache expired for {tools} — re-read before relying on it.]',
+        writeRejected: '[System: Write rejected — {tool} is based on stale reads of {reads}. ' +
+            'Re-read them before retrying.]',
+        upstreamError: '[System: {tool} failed — upstream error.]',
+        upstreamTimeout: '[System: {tool} failed — timed out after {timeoutMs} ms.]',
+        upstreamCancelled: '[System: {tool} failed — cancelled by the client.]',
+    }),
+    'pt-BR': Object.freeze({
+        cacheControl: '[Cache-Control: {directive}]',
+        invalidated: '[Sistema: Cache invalidado para {domains} — causado por {causedBy}]',
+        partialFailure: '[Sistema: {causedBy} falhou e pode ter modificado o estado parcialmente. ' +
+            'Cache invalidado para {domains} — leia novamente antes de confiar nele.]',
+        expired: '[Sistema: Cache expirado para {tools} — leia novamente antes de confiar nele.]',
+        writeRejected: '[Sistema: Escrita rejeitada — {tool} se baseia em leituras desatualizadas de {reads}. ' +
+            'Leia-as novamente antes de tentar outra vez.]',
+        upstreamError: '[Sistema: {tool} falhou — erro no upstream.]',
+        upstreamTimeout: '[Sistema: {tool} falhou — tempo esgotado após {timeoutMs} ms.]',
+        upstreamCancelled: '[Sistema: {tool} falhou — cancelado pelo cliente.]',
+    }),
+    'es': Object.freeze({
+        cacheControl: '[Cache-Control: {directive}]',
+        invalidated: '[Sistema: Caché invalidada para {domains} — causado por {causedBy}]',
+        partialFailure: '[Sistema: {causedBy} falló y puede haber modificado el estado parcialmente. ' +
+            'Caché invalidada para {domains} — vuelve a leer antes de confiar en ella.]',
+        expired: '[Sistema: Caché expirada para {tools} — vuelve a leer antes de confiar en ella.]',
+        writeRejected: '[Sistema: Escritura rechazada — {tool} se basa en lecturas obsoletas de {reads}. ' +
+            'Vuelve a leerlas antes de reintentar.]',
+        upstreamError: '[Sistema: {tool} falló — error del upstream.]',
+        upstreamTimeout: '[Sistema: {tool} falló — tiempo agotado tras {timeoutMs} ms.]',
+        upstreamCancelled: '[Sistema: {tool} falló — cancelado por el cliente.]',
+    }),
+};
+
+/** The catalog used when no `messages` are configured. */
+export const DEFAULT_MESSAGES: MessageTemplates = BUILT_IN_MESSAGES.en;
+
+/** Placeholders each message may use. */
+export const MESSAGE_PLACEHOLDERS: { readonly [K in keyof MessageParams]: readonly (keyof MessageParams[K])[] } = {
+    cacheControl: ['directive'],
+    invalidated: ['domains', 'causedBy'],
+    partialFailure: ['domains', 'causedBy'],
+    expired: ['tools'],
+    writeRejected: ['tool', 'reads'],
+    upstreamError: ['tool'],
+    upstreamTimeout: ['tool', 'timeoutMs'],
+    upstreamCancelled: ['tool'],
+};
+
+/** `{{`, `}}` or a `{name}` placeholder. */
+const TOKEN = /\{\{|\}\}|\{(\w+)\}/g;
+
+// ── Resolution ──────────────────────────────────────────────────────
+
+/**
+ * The catalog for a `MessagesConfig`: the locale's built-in messages with
+ * `templates` overrides on top. Assumes a validated config.
+ *
+ * @example
+ * resolveMessages({ locale: 'pt-BR', templates: { expired: 'Releia {tools}.' } })
+ */
+export function resolveMessages(config?: MessagesConfig): MessageTemplates {
+    if (!config) return DEFAULT_MESSAGES;
+
+    const base = BUILT_IN_MESSAGES[config.locale ?? 'en'];
+    return config.templates ? Object.freeze({ ...base, ...config.templates }) : base;
+}
+
+// ── Rendering ───────────────────────────────────────────────────────
+
+/**
+ * Render one message of a catalog.
+ *
+ * @example
+ * formatMessage(DEFAULT_MESSAGES, 'cacheControl', { directive: 'no-store' })
+ * // → '[Cache-Control: no-store]'
+ */
+export function formatMessage<K extends keyof MessageParams>(
+    messages: MessageTemplates,
+    key: K,
+    params: MessageParams[K],
+): string {
+    return renderTemplate(messages[key] as MessageTemplate<MessageParams[K]>, params);
+}
+
+/**
+ * Render a template: call a function template, or interpolate a string
+ * template in a single pass. Unknown placeholders are left as written.
+ */
+export function renderTemplate<P>(template: MessageTemplate<P>, params: P): string {
+    if (typeof template === 'function') return String(template(params));
+
+    const values = params as Record<string, unknown>;
+    return template.replace(TOKEN, (token, name: string | undefined) => {
+        if (name === undefined) return token[0];
+        return Object.hasOwn(values, name) ? String(values[name]) : token;
+    });
+}
+
+/** Literal text and placeholder names of a string template, in order. */
+export function parseTemplate(template: string): { literals: string[]; placeholders: string[] } {
+    const literals: string[] = [];
+    const placeholders: string[] = [];
+    let literal = '';
+    let last = 0;
+
+    for (const m of template.matchAll(TOKEN)) {
+        literal += template.slice(last, m.index);
+        last = m.index + m[0].length;
+        if (m[1] === undefined) {
+            literal += m[0][0];
+        } else {
+            literals.push(literal);
+            placeholders.push(m[1]);
+            literal = '';
+        }
+    }
+    literals.push(literal + template.slice(last));
+    return { literals, placeholders };
+}
@@ -0,0 +1,80 @@
+/**
+ * MetaDecorator — Machine-Readable StateSync Metadata
+ *
+ * Pure functions. Single responsibility: attach StateSync's decisions as
+ * structured `_meta` under the `io.vinkius/state-sync` key — the
+ * machine-readable twin of the `[Cache-Control: X]` description suffix
+ * and of the `[System: ...]` blocks, so orchestrators and client-side
+ * caches do not have to parse text.
+ *
+ * Other `_meta` keys are preserved; the StateSync key is replaced.
+ */
+import type { McpCallResult, McpToolDef, ResolvedPolicy, CacheDirective } from './types.js';
+
+/** `_meta` key of every StateSync record (reverse-DNS, per MCP `_meta` conventions). */
+export const META_KEY = 'io.vinkius/state-sync';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** `_meta[META_KEY]` of a tool in `tools/list`. */
+export interface ToolMeta {
+    readonly cacheControl: CacheDirective;
+}
+
+/** One invalidation reported with a `tools/call` result. */
+export interface InvalidationMeta {
+    /** Rendered patterns, never narrowed to the session's reads. */
+    readonly invalidated: readonly string[];
+    /** The write tool, or the external reason. */
+    readonly causedBy: string;
+    /** Domain version issued by the invalidation. */
+    readonly version: number;
+    /** When the invalidation happened (ISO 8601). */
+    readonly timestamp: string;
+    /** Set when a failed write may have partially modified state. */
+    readonly partialFailure?: true;
+}
+
+/** A read past its `max-calls=N` budget. */
+export interface ExpiryMeta {
+    readonly tool: string;
+    readonly maxCalls: number;
+}
+
+/** `_meta[META_KEY]` of a `tools/call` result. */
+export interface CallMeta {
+    /** Oldest first, like the System blocks. */
+    readonly invalidations?: readonly InvalidationMeta[];
+    readonly expired?: readonly ExpiryMeta[];
+}
+
+// ── Decorators ──────────────────────────────────────────────────────
+
+/**
+ * Attach the resolved directive to a tool's (or resource's) `_meta`.
+ * Returns the tool unchanged when the policy has no `cacheControl`.
+ *
+ * @example
+ * decorateToolMeta(tool, { cacheControl: 'no-store' })._meta
+ * // → { 'io.vinkius/state-sync': { cacheControl: 'no-store' } }
+ */
+export function decorateToolMeta<T extends Pick<McpToolDef, '_meta'>>(tool: T, policy: ResolvedPolicy | null): T {
+    if (!policy?.cacheControl) return tool;
+
+    const meta: ToolMeta = { cacheControl: policy.cacheControl };
+    return { ...tool, _meta: { ...tool._meta, [META_KEY]: meta } };
+}
+
+/**
+ * Attach invalidation and expiry records to a call result's `_meta`.
+ * Returns the result unchanged when there is nothing to report.
+ */
+export function decorateCallMeta(result: McpCallResult, meta: CallMeta): McpCallResult {
+    const record: CallMeta = {
+        ...(meta.invalidations?.length && { invalidations: meta.invalidations }),
+        ...(meta.expired?.length && { expired: meta.expired }),
+    };
+    if (!record.invalidations && !record.expired) return result;
+
+    return { ...result, _meta: { ...result._meta, [META_KEY]: record } };
+}
@@ -1,60 +1,238 @@
 /**
- * PolicyEngine — First-Match-Wins Policy Resolution
+ * PolicyEngine — Policy Resolution
  *
- * Single responsibility: resolve a tool name to its applicable policy.
- * Delegates glob matching to GlobMatcher and validation to PolicyValidator.
+ * Single responsibility: resolve a tool name to its applicable policy —
+ * first-match-wins by default, or accumulated across every matching
+ * policy up to the first `final` one (`resolution: 'accumulate'`).
+ * Delegates glob matching to GlobTrie (policies are compiled once at
+ * construction), RegExp and predicate matchers to PolicyMatch,
+ * validation to PolicyValidator and (opt-in) annotation-based inference
+ * to AnnotationInference. Resource URIs resolve against the separate
+ * `resources` rules via UriGlob.
  *
- * Pure, stateless after construction.
+ * Immutable after construction; resolutions are kept in a bounded LRU.
  */
-import type { SyncPolicy, ResolvedPolicy, CacheDirective } from './types.js';
-import { matchGlob } from './GlobMatcher.js';
-import { validatePolicies, validateDefaults } from './PolicyValidator.js';
+import type {
+    SyncPolicy,
+    ResolvedPolicy,
+    CacheDirective,
+    McpToolDef,
+    PolicyTrace,
+    PolicyAttempt,
+    PolicyMatch,
+    ResolutionMode,
+    ResourcePolicy,
+} from './types.js';
+import { explainGlobMismatch } from './GlobMatcher.js';
+import { GlobTrie } from './GlobTrie.js';
+import { matchTool, explainMatchMismatch, describeMatch } from './PolicyMatch.js';
+import { LruCache } from './LruCache.js';
+import { matchUriGlob } from './UriGlob.js';
+import {
+    validatePolicies,
+    validateDefaults,
+    validateResolution,
+    validateResourcePolicies,
+} from './PolicyValidator.js';
+import { inferPolicy } from './AnnotationInference.js';
+
+/** PolicyEngine construction options. */
+export interface PolicyEngineOptions {
+    /** Fill gaps in the explicit policies from MCP tool annotations. Default: `false`. */
+    readonly inferFromAnnotations?: boolean;
+    /** Upper bound on cached resolutions (LRU eviction). Default: 10000. */
+    readonly cacheSize?: number;
+    /** How matching policies combine. Default: `'first-match'`. */
+    readonly resolution?: ResolutionMode;
+    /** Cache rules for resource URIs, first match wins. */
+    readonly resources?: readonly ResourcePolicy[];
+}
+
+/** Default upper bound on cached resolutions. */
+const DEFAULT_CACHE_SIZE = 10_000;
+
+/** A RegExp or predicate matcher and the index of its policy. */
+interface CustomMatcher {
+    readonly index: number;
+    readonly match: Exclude<PolicyMatch, string>;
+}
 
 export class PolicyEngine {
     private readonly policies: readonly SyncPolicy[];
     private readonly defaultCacheControl: CacheDirective | undefined;
+    /** Whether gaps are filled from tool annotations. */
+    readonly inferFromAnnotations: boolean;
+    /** Whether `resolve()` needs the tool definition (inference or predicate matchers). */
+    readonly needsToolDefinition: boolean;
+    private readonly resolution: ResolutionMode;
+    private readonly resources: readonly ResourcePolicy[];
 
-    /** Resolution cache: avoids repeated glob iteration for the same tool. */
-    private readonly cache = new Map<string, ResolvedPolicy | null>();
+    /** Every glob `match`, compiled for first-match lookup. */
+    private readonly matcher: GlobTrie;
+    /** Trie index → policy index. */
+    private readonly globPolicies: readonly number[];
+    /** RegExp and predicate matchers, in policy order. */
+    private readonly customMatchers: readonly CustomMatcher[];
+    /** Resolution cache: avoids repeated matching for the same tool. */
+    private readonly cache: LruCache<string, ResolvedPolicy | null>;
 
     constructor(
         policies: readonly SyncPolicy[],
         defaults?: { readonly cacheControl?: CacheDirective },
+        options: PolicyEngineOptions = {},
     ) {
         validatePolicies(policies);
         validateDefaults(defaults);
+        validateResolution(options.resolution);
+        validateResourcePolicies(options.resources);
+        const cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+        if (!Number.isInteger(cacheSize) || cacheSize < 1) {
+            throw new Error(`PolicyEngine: cacheSize must be a positive integer, received ${cacheSize}.`);
+        }
 
         this.policies = Object.freeze([...policies]);
         this.defaultCacheControl = defaults?.cacheControl;
+        this.inferFromAnnotations = options.inferFromAnnotations ?? false;
+        this.resolution = options.resolution ?? 'first-match';
+        this.resources = Object.freeze([...options.resources ?? []]);
+        const globs: string[] = [];
+        const globPolicies: number[] = [];
+        const customMatchers: CustomMatcher[] = [];
+        this.policies.forEach(({ match }, index) => {
+            if (typeof match === 'string') {
+                globs.push(match);
+                globPolicies.push(index);
+            } else {
+                customMatchers.push({ index, match });
+            }
+        });
+        this.matcher = new GlobTrie(globs);
+        this.globPolicies = globPolicies;
+        this.customMatchers = customMatchers;
+        this.needsToolDefinition = this.inferFromAnnotations || customMatchers.some(m => typeof m.match === 'function');
+        this.cache = new LruCache(cacheSize);
     }
 
     /**
      * Resolve the applicable policy for a tool name.
-     * First matching policy wins. Falls back to defaults.
+     * First matching policy wins — or, with `resolution: 'accumulate'`,
+     * every matching policy up to the first `final` one contributes:
+     * `invalidates` are merged, other fields come from the first policy
+     * that sets them. Falls back to defaults.
      * Returns `null` if no policy matches and no defaults are set.
      *
-     * Results are cached — repeated calls for the same tool are O(1).
+     * Pass the tool definition for predicate matchers and, with
+     * `inferFromAnnotations`, so its annotations can fill what the
+     * explicit policies leave open:
+     * - no matching policy → the inferred policy
+     * - matching policy without `invalidates` → the inferred `invalidates`
+     *
+     * Results are cached by tool name (LRU, `cacheSize` entries) —
+     * repeated calls for the same tool are O(1). Without a tool
+     * definition, predicates do not match, inference is skipped and
+     * nothing is cached.
      */
-    resolve(toolName: string): ResolvedPolicy | null {
+    resolve(toolName: string, tool?: McpToolDef): ResolvedPolicy | null {
         const cached = this.cache.get(toolName);
         if (cached !== undefined) return cached;
 
-        const result = this.resolveUncached(toolName);
-        this.cache.set(toolName, result);
+        const inferred = this.inferFromAnnotations && tool
+            ? inferPolicy(tool, { cacheControl: this.defaultCacheControl })
+            : null;
+        const result = this.resolveUncached(toolName, tool, inferred);
+        if (!this.needsToolDefinition || tool) this.cache.set(toolName, result);
         return result;
     }
 
-    private resolveUncached(toolName: string): ResolvedPolicy | null {
-        for (const policy of this.policies) {
-            if (matchGlob(policy.match, toolName)) {
-                const cacheControl = policy.cacheControl ?? this.defaultCacheControl;
-                const invalidates = policy.invalidates?.length
-                    ? Object.freeze([...policy.invalidates])
-                    : undefined;
+    /**
+     * Resolve the cache rule for a resource URI or URI template: the first
+     * `resources` policy whose URI glob matches. A template is matched only
+     * by globs covering every instance (`jira://sprints/*` covers
+     * `jira://sprints/{sprintId}`). `defaults` do not apply to resources.
+     */
+    resolveResource(uri: string): ResolvedPolicy | null {
+        const policy = this.resources.find(p => matchUriGlob(p.match, uri));
+        return policy ? Object.freeze({ cacheControl: policy.cacheControl }) : null;
+    }
+
+    /**
+     * Explain how a tool name resolves: which policy matched, why every
+     * earlier policy did not, which policies were accumulated (in
+     * accumulate mode), and which fields came from `defaults` or tool
+     * annotations. Not cached — meant for debugging and tooling.
+     *
+     * @example
+     * engine.explain('sprints.get')
+     * // → { matched: { index: 1, match: 'sprints.*' },
+     * //     tried: [{ index: 0, match: 'tasks.*', reason: 'segment 1: "sprints" does not match "tasks"' }],
+     * //     fromDefaults: ['cacheControl'], ... }
+     */
+    explain(toolName: string, tool?: McpToolDef): PolicyTrace {
+        const resolved = this.resolve(toolName, tool);
+        const tried: PolicyAttempt[] = [];
+        let matched: PolicyTrace['matched'] = null;
 
-                if (!cacheControl && !invalidates) return null;
-                return Object.freeze({ cacheControl, invalidates });
+        for (const [index, policy] of this.policies.entries()) {
+            const reason = typeof policy.match === 'string'
+                ? explainGlobMismatch(policy.match, toolName)
+                : explainMatchMismatch(policy.match, toolName, tool);
+            const match = describeMatch(policy.match);
+            if (reason === null) {
+                matched = { index, match };
+                break;
             }
+            tried.push({ index, match, reason });
+        }
+
+        const contributing = this.matchingPolicies(toolName, tool);
+        const fromDefaults: (keyof ResolvedPolicy)[] = [];
+        const fromAnnotations: (keyof ResolvedPolicy)[] = [];
+
+        if (resolved?.cacheControl && !contributing.some(i => this.policies[i].cacheControl)) {
+            fromDefaults.push('cacheControl');
+        }
+        if (resolved?.inferred && resolved.invalidates) fromAnnotations.push('invalidates');
+
+        const accumulated = this.resolution === 'accumulate'
+            ? { accumulated: contributing.map(index => ({ index, match: describeMatch(this.policies[index].match) })) }
+            : {};
+        return { toolName, matched, tried, ...accumulated, fromDefaults, fromAnnotations, resolved };
+    }
+
+    private resolveUncached(
+        toolName: string,
+        tool: McpToolDef | undefined,
+        inferred: SyncPolicy | null,
+    ): ResolvedPolicy | null {
+        const matching = this.matchingPolicies(toolName, tool);
+        if (matching.length > 0) {
+            const policy = mergePolicies(matching.map(i => this.policies[i]));
+            const cacheControl = policy.cacheControl ?? this.defaultCacheControl;
+            const source = policy.invalidates ?? inferred?.invalidates;
+            const invalidates = source?.length
+                ? Object.freeze([...source])
+                : undefined;
+
+            if (!cacheControl && !invalidates) return null;
+            return Object.freeze({
+                cacheControl,
+                invalidates,
+                ...(policy.memoize !== undefined && { memoize: policy.memoize }),
+                ...(policy.rejectStaleWrites && { rejectStaleWrites: true }),
+                ...(policy.success && { success: policy.success }),
+                ...(policy.onError && policy.onError !== 'skip' && { onError: policy.onError }),
+                ...(policy.onException && { onException: policy.onException }),
+                ...(policy.timeoutMs !== undefined && { timeoutMs: policy.timeoutMs }),
+                ...(!policy.invalidates && invalidates && { inferred: true }),
+            });
+        }
+
+        if (inferred && (inferred.cacheControl || inferred.invalidates)) {
+            return Object.freeze({
+                cacheControl: inferred.cacheControl ?? this.defaultCacheControl,
+                invalidates: inferred.invalidates && Object.freeze([...inferred.invalidates]),
+                inferred: true,
+            });
         }
 
         if (this.defaultCacheControl) {
@@ -63,4 +241,56 @@ export class PolicyEngine {
 
         return null;
     }
+
+    /** Indices of the policies that make up the resolution, in order. */
+    private matchingPolicies(toolName: string, tool: McpToolDef | undefined): number[] {
+        if (this.resolution === 'first-match') {
+            const index = this.firstMatch(toolName, tool);
+            return index === -1 ? [] : [index];
+        }
+
+        const matches = [
+            ...this.matcher.allMatches(toolName).map(i => this.globPolicies[i]),
+            ...this.customMatchers.filter(m => matchTool(m.match, toolName, tool)).map(m => m.index),
+        ].sort((a, b) => a - b);
+        const final = matches.findIndex(i => this.policies[i].final);
+        return final === -1 ? matches : matches.slice(0, final + 1);
+    }
+
+    /** Index of the first matching policy, or `-1`: the first glob hit, unless a custom matcher before it hits. */
+    private firstMatch(toolName: string, tool: McpToolDef | undefined): number {
+        const glob = this.matcher.firstMatch(toolName);
+        const globIndex = glob === -1 ? Infinity : this.globPolicies[glob];
+
+        for (const { index, match } of this.customMatchers) {
+            if (index > globIndex) break;
+            if (matchTool(match, toolName, tool)) return index;
+        }
+        return globIndex === Infinity ? -1 : globIndex;
+    }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Accumulated policies as one: `invalidates` united, every other field from the first policy setting it. */
+function mergePolicies(policies: readonly SyncPolicy[]): SyncPolicy {
+    if (policies.length === 1) return policies[0];
+
+    const first = <K extends keyof SyncPolicy>(key: K): SyncPolicy[K] | undefined =>
+        policies.find(p => p[key] !== undefined)?.[key];
+    const invalidates = policies.some(p => p.invalidates)
+        ? [...new Set(policies.flatMap(p => p.invalidates ?? []))]
+        : undefined;
+
+    return {
+        match: policies[0].match,
+        cacheControl: first('cacheControl'),
+        invalidates,
+        memoize: first('memoize'),
+        rejectStaleWrites: first('rejectStaleWrites'),
+        success: first('success'),
+        onError: first('onError'),
+        onException: first('onException'),
+        timeoutMs: first('timeoutMs'),
+    };
 }
@@ -0,0 +1,162 @@
+/**
+ * PolicyLinter — Static Analysis of a SyncConfig Against a Tool List
+ *
+ * Pure function. Single responsibility: find policies that are valid
+ * but cannot do what their author intended. `validatePolicies` checks
+ * syntax; this checks meaning.
+ *
+ * Every finding carries a stable `code` and a `severity`, so CI can
+ * fail on errors (or on every finding) without parsing messages.
+ */
+import type { SyncConfig, SyncPolicy, McpToolDef, PolicyMatch } from './types.js';
+import type { ConfigPath } from './PolicyValidator.js';
+import { validateSyncConfig } from './PolicyValidator.js';
+import { PolicyEngine } from './PolicyEngine.js';
+import { matchGlob, coversGlob } from './GlobMatcher.js';
+import { isResourcePattern } from './UriGlob.js';
+import { parseInvalidation } from './InvalidationTemplate.js';
+import { matchTool, describeMatch } from './PolicyMatch.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** `error`: the policy can never take effect. `warning`: likely a mistake. */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Stable finding codes.
+ * - `shadowed-policy`: an earlier policy matches every tool this one matches
+ *   (in accumulate mode: an earlier `final` policy)
+ * - `unmatched-policy`: the policy matches no known tool
+ * - `dead-invalidation`: an `invalidates` entry matches no known tool
+ *   (resource URI entries are not checked)
+ * - `unguarded-write`: a tool that looks like a write resolves without `invalidates`
+ */
+export type LintCode =
+    | 'shadowed-policy'
+    | 'unmatched-policy'
+    | 'dead-invalidation'
+    | 'unguarded-write';
+
+/** A single linter finding. */
+export interface LintFinding {
+    readonly code: LintCode;
+    readonly severity: LintSeverity;
+    readonly message: string;
+    /** Location inside `SyncConfig`, when the finding is about a config value. */
+    readonly path?: ConfigPath;
+    /** The tool the finding is about, for `unguarded-write`. */
+    readonly tool?: string;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+/** Leading verbs of tool actions that usually modify state. */
+const WRITE_VERBS = new Set([
+    'add', 'append', 'approve', 'archive', 'assign', 'cancel', 'close', 'create',
+    'delete', 'destroy', 'disable', 'enable', 'insert', 'merge', 'move', 'patch',
+    'post', 'publish', 'put', 'reject', 'remove', 'rename', 'reopen', 'reset',
+    'restore', 'send', 'set', 'submit', 'transfer', 'unassign', 'update', 'upsert',
+    'write',
+]);
+
+// ── Lint ────────────────────────────────────────────────────────────
+
+/**
+ * Lint a config against the tools it will be applied to.
+ * Findings are ordered by policy, then by tool.
+ *
+ * @example
+ * lintPolicies({ policies: [{ match: 'sprints.*' }, { match: 'sprints.get' }] }, tools)
+ * // → [{ code: 'shadowed-policy', severity: 'error', path: ['policies', 1, 'match'], ... }]
+ *
+ * @throws ConfigValidationError if the config itself is invalid
+ */
+export function lintPolicies(config: SyncConfig, tools: readonly McpToolDef[]): LintFinding[] {
+    validateSyncConfig(config);
+
+    const findings: LintFinding[] = [];
+    const names = tools.map(t => t.name);
+
+    // Accumulated policies still contribute behind a covering one — unless it is `final`
+    const accumulate = config.resolution === 'accumulate';
+    config.policies.forEach((policy, i) => {
+        const shadow = config.policies.findIndex((p, j) =>
+            j < i && (!accumulate || p.final === true) && shadows(p.match, policy.match));
+        if (shadow !== -1) {
+            findings.push({
+                code: 'shadowed-policy',
+                severity: 'error',
+                message:
+                    `${label(policy, i)} can never match: ` +
+                    `shadowed by ${label(config.policies[shadow], shadow)}.`,
+                path: ['policies', i, 'match'],
+            });
+        } else if (!tools.some(tool => matches(policy.match, tool))) {
+            findings.push({
+                code: 'unmatched-policy',
+                severity: 'warning',
+                message: `${label(policy, i)} matches no known tool.`,
+                path: ['policies', i, 'match'],
+            });
+        }
+
+        policy.invalidates?.forEach((pattern, j) => {
+            if (isResourcePattern(pattern)) return;
+            const { glob } = parseInvalidation(pattern);
+            if (names.some(name => matchGlob(glob, name))) return;
+            findings.push({
+                code: 'dead-invalidation',
+                severity: 'warning',
+                message: `${label(policy, i)}: invalidates "${pattern}", which matches no known tool.`,
+                path: ['policies', i, 'invalidates', j],
+            });
+        });
+    });
+
+    const engine = new PolicyEngine(config.policies, config.defaults, {
+        inferFromAnnotations: config.inferFromAnnotations === true,
+        resolution: config.resolution,
+        resources: config.resources,
+    });
+    for (const tool of tools) {
+        if (!looksLikeWrite(tool) || engine.resolve(tool.name, tool)?.invalidates) continue;
+        findings.push({
+            code: 'unguarded-write',
+            severity: 'warning',
+            message: `Tool "${tool.name}" looks like a write but invalidates nothing.`,
+            tool: tool.name,
+        });
+    }
+
+    return findings;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** `Policy[3] (match: "sprints.get")` — same prefix as PolicyValidator. */
+function label(policy: SyncPolicy, index: number): string {
+    return `Policy[${index}] (match: "${describeMatch(policy.match)}")`;
+}
+
+/** Glob containment; RegExp and predicate matchers are never reported as shadowing or shadowed. */
+function shadows(earlier: PolicyMatch, later: PolicyMatch): boolean {
+    return typeof earlier === 'string' && typeof later === 'string' && coversGlob(earlier, later);
+}
+
+function matches(match: PolicyMatch, tool: McpToolDef): boolean {
+    return typeof match === 'string' ? matchGlob(match, tool.name) : matchTool(match, tool.name, tool);
+}
+
+/**
+ * A tool looks like a write when its annotations say it is not read-only,
+ * or — without a `readOnlyHint` — when its action starts with a write verb
+ * (`sprints.create`, `tasks.update_status`, `users.setRole`).
+ */
+function looksLikeWrite(tool: McpToolDef): boolean {
+    const hint = tool.annotations?.readOnlyHint;
+    if (typeof hint === 'boolean') return !hint;
+
+    const action = tool.name.slice(tool.name.lastIndexOf('.') + 1);
+    const verb = action.split(/[_-]|(?=[A-Z])/)[0].toLowerCase();
+    return WRITE_VERBS.has(verb);
+}
@@ -0,0 +1,64 @@
+/**
+ * PolicyMatch — RegExp and Predicate Policy Matchers
+ *
+ * Pure functions. Single responsibility: apply and describe the
+ * non-glob forms of `SyncPolicy.match`. Globs go through GlobMatcher
+ * (and GlobTrie inside PolicyEngine).
+ *
+ * - `RegExp`: tested against the tool name
+ * - predicate: called with the tool definition; without one (a call to
+ *   a tool missing from `tools/list`) it does not match. A predicate
+ *   that throws does not match either.
+ */
+import type { McpToolDef, PolicyMatch } from './types.js';
+
+/**
+ * Whether a RegExp or predicate matcher applies to a tool.
+ *
+ * @example
+ * matchTool(/^billing_/, 'billing_refund')                                // true
+ * matchTool(t => t.annotations?.category === 'billing', 'refund', tool) // depends on tool
+ */
+export function matchTool(
+    match: Exclude<PolicyMatch, string>,
+    toolName: string,
+    tool?: McpToolDef,
+): boolean {
+    if (match instanceof RegExp) {
+        match.lastIndex = 0;
+        return match.test(toolName);
+    }
+    if (!tool) return false;
+    try {
+        return Boolean(match(tool));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Why a RegExp or predicate matcher does not apply to a tool, or `null`
+ * when it does. Mirrors `explainGlobMismatch`.
+ */
+export function explainMatchMismatch(
+    match: Exclude<PolicyMatch, string>,
+    toolName: string,
+    tool?: McpToolDef,
+): string | null {
+    if (matchTool(match, toolName, tool)) return null;
+    if (match instanceof RegExp) return `"${toolName}" does not match ${match}`;
+    return tool ? 'predicate returned false' : 'predicate needs the tool definition';
+}
+
+/**
+ * Human-readable form of a matcher, as shown in `Policy[i] (match: ...)`.
+ *
+ * @example
+ * describeMatch('sprints.*')           // 'sprints.*'
+ * describeMatch(/^billing_/i)          // '/^billing_/i'
+ * describeMatch(function isBilling() {}) // '<predicate isBilling>'
+ */
+export function describeMatch(match: unknown): string {
+    if (typeof match === 'function') return match.name ? `<predicate ${match.name}>` : '<predicate>';
+    return String(match);
+}
@@ -3,16 +3,84 @@
  *
  * Pure functions. Single responsibility: validate SyncPolicy arrays
  * and default config at construction time (fail-fast).
+ *
+ * Every failure is a `ConfigValidationError` carrying the path of the
+ * offending value inside `SyncConfig`, so file loaders can map it back
+ * to a source location.
  */
-import type { SyncPolicy, CacheDirective } from './types.js';
+import type {
+    SyncConfig,
+    SyncPolicy,
+    CacheDirective,
+    MemoizeConfig,
+    SessionsConfig,
+    ResolutionMode,
+    ChannelsConfig,
+    MessagesConfig,
+    MessageParams,
+    ResourcePolicy,
+} from './types.js';
+import { validateUriGlob } from './UriGlob.js';
+import { BUILT_IN_MESSAGES, MESSAGE_PLACEHOLDERS, parseTemplate } from './Messages.js';
+import { parseInvalidation } from './InvalidationTemplate.js';
+import { validateGlob, GlobSyntaxError } from './GlobMatcher.js';
+import { describeMatch } from './PolicyMatch.js';
+
+// ── Error ───────────────────────────────────────────────────────────
+
+/** Path of a value inside `SyncConfig`, e.g. `['policies', 3, 'cacheControl']`. */
+export type ConfigPath = readonly (string | number)[];
+
+/** Thrown by every validator in this module. */
+export class ConfigValidationError extends Error {
+    /** Location of the invalid value inside `SyncConfig`. */
+    readonly path: ConfigPath;
+    /** The message without its `Policy[i] (match: ...)` prefix. */
+    readonly detail: string;
+
+    constructor(path: ConfigPath, detail: string, prefix?: string) {
+        super(prefix ? `${prefix}: ${detail}` : detail);
+        this.name = 'ConfigValidationError';
+        this.path = path;
+        this.detail = detail;
+    }
+}
 
 // ── Constants ───────────────────────────────────────────────────────
 
-/** Valid cache directives — binary vocab, no max-age. */
+/** Valid keyword cache directives — no max-age. See also `max-calls=N`. */
 export const VALID_DIRECTIVES = new Set<string>(['no-store', 'immutable']);
 
-/** Valid glob segment: alphanumeric, `_`, `-`, `*`, `**`. */
-const VALID_SEGMENT = /^(\*{1,2}|[a-zA-Z0-9_-]+)$/;
+/** Call-count freshness directive: `max-calls=N`, N a positive integer. */
+export const MAX_CALLS_DIRECTIVE = /^max-calls=([1-9]\d*)$/;
+
+/** Valid `onError` modes. */
+export const VALID_ON_ERROR = new Set<string>(['skip', 'invalidate', 'invalidate-with-warning']);
+
+/** Valid `resolution` modes. */
+export const VALID_RESOLUTION = new Set<string>(['first-match', 'accumulate']);
+
+/** Built-in message locales. */
+export const VALID_LOCALES = new Set<string>(Object.keys(BUILT_IN_MESSAGES));
+
+// ── Directives ──────────────────────────────────────────────────────
+
+/** `no-store`, `immutable` or `max-calls=N`. */
+export function isValidDirective(value: unknown): value is CacheDirective {
+    return typeof value === 'string' && (VALID_DIRECTIVES.has(value) || MAX_CALLS_DIRECTIVE.test(value));
+}
+
+/**
+ * The N of a `max-calls=N` directive, or `undefined` for any other directive.
+ *
+ * @example
+ * parseMaxCalls('max-calls=5') // → 5
+ * parseMaxCalls('no-store')    // → undefined
+ */
+export function parseMaxCalls(directive: string | undefined): number | undefined {
+    const match = directive !== undefined ? MAX_CALLS_DIRECTIVE.exec(directive) : null;
+    return match ? Number(match[1]) : undefined;
+}
 
 // ── Validate Policies ───────────────────────────────────────────────
 
@@ -21,44 +89,147 @@ const VALID_SEGMENT = /^(\*{1,2}|[a-zA-Z0-9_-]+)$/;
  * Called at PolicyEngine construction time for fail-fast behavior.
  */
 export function validatePolicies(policies: readonly SyncPolicy[]): void {
+    if (!Array.isArray(policies)) {
+        throw new ConfigValidationError(['policies'], `'policies' must be an array.`);
+    }
+
     for (let i = 0; i < policies.length; i++) {
         const p = policies[i];
-        const prefix = `Policy[${i}] (match: "${p.match}")`;
+        const at = (...rest: (string | number)[]): ConfigPath => ['policies', i, ...rest];
 
-        if (!p.match || typeof p.match !== 'string') {
-            throw new Error(`${prefix}: 'match' must be a non-empty string.`);
+        if (!p || typeof p !== 'object') {
+            throw new ConfigValidationError(at(), 'must be an object.', `Policy[${i}]`);
         }
 
-        const segments = p.match.split('.');
-        for (const seg of segments) {
-            if (!VALID_SEGMENT.test(seg)) {
-                throw new Error(
-                    `${prefix}: invalid segment "${seg}". ` +
-                    `Allowed: alphanumeric, "_", "-", "*", "**".`,
-                );
+        const prefix = `Policy[${i}] (match: "${describeMatch(p.match)}")`;
+
+        if (typeof p.match === 'string' && p.match) {
+            try {
+                validateGlob(p.match);
+            } catch (err) {
+                if (!(err instanceof GlobSyntaxError)) throw err;
+                throw new ConfigValidationError(at('match'), `${err.message}.`, prefix);
             }
+        } else if (!(p.match instanceof RegExp) && typeof p.match !== 'function') {
+            throw new ConfigValidationError(
+                at('match'),
+                `'match' must be a non-empty string, a RegExp or a function.`,
+                prefix,
+            );
+        }
+
+        if (p.cacheControl !== undefined && !isValidDirective(p.cacheControl)) {
+            throw new ConfigValidationError(
+                at('cacheControl'),
+                `invalid cacheControl "${p.cacheControl}". ` +
+                `Allowed: "no-store", "immutable", "max-calls=N".`,
+                prefix,
+            );
+        }
+
+        if (p.memoize !== undefined && typeof p.memoize !== 'boolean') {
+            throw new ConfigValidationError(at('memoize'), `'memoize' must be a boolean.`, prefix);
+        }
+
+        if (p.rejectStaleWrites !== undefined && typeof p.rejectStaleWrites !== 'boolean') {
+            throw new ConfigValidationError(
+                at('rejectStaleWrites'),
+                `'rejectStaleWrites' must be a boolean.`,
+                prefix,
+            );
+        }
+
+        if (p.onError !== undefined && !VALID_ON_ERROR.has(p.onError)) {
+            throw new ConfigValidationError(
+                at('onError'),
+                `invalid onError "${p.onError}". ` +
+                `Allowed: "skip", "invalidate", "invalidate-with-warning".`,
+                prefix,
+            );
         }
 
-        if (p.cacheControl !== undefined && !VALID_DIRECTIVES.has(p.cacheControl)) {
-            throw new Error(
-                `${prefix}: invalid cacheControl "${p.cacheControl}". ` +
-                `Allowed: "no-store", "immutable".`,
+        if (p.onException !== undefined && !VALID_ON_ERROR.has(p.onException)) {
+            throw new ConfigValidationError(
+                at('onException'),
+                `invalid onException "${p.onException}". ` +
+                `Allowed: "skip", "invalidate", "invalidate-with-warning".`,
+                prefix,
             );
         }
 
+        const { timeoutMs } = p;
+        if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || !Number.isFinite(timeoutMs) || timeoutMs <= 0)) {
+            throw new ConfigValidationError(
+                at('timeoutMs'),
+                `'timeoutMs' must be a positive number, received ${timeoutMs}.`,
+                prefix,
+            );
+        }
+
+        if (p.final !== undefined && typeof p.final !== 'boolean') {
+            throw new ConfigValidationError(at('final'), `'final' must be a boolean.`, prefix);
+        }
+
+        if (p.success !== undefined && typeof p.success !== 'function') {
+            throw new ConfigValidationError(at('success'), `'success' must be a function.`, prefix);
+        }
+
         if (p.invalidates !== undefined) {
             if (!Array.isArray(p.invalidates)) {
-                throw new Error(`${prefix}: 'invalidates' must be an array.`);
+                throw new ConfigValidationError(at('invalidates'), `'invalidates' must be an array.`, prefix);
             }
-            for (const pattern of p.invalidates) {
+            p.invalidates.forEach((pattern: unknown, j: number) => {
                 if (!pattern || typeof pattern !== 'string') {
-                    throw new Error(`${prefix}: 'invalidates' entries must be non-empty strings.`);
+                    throw new ConfigValidationError(
+                        at('invalidates', j),
+                        `'invalidates' entries must be non-empty strings.`,
+                        prefix,
+                    );
                 }
-            }
+                try {
+                    parseInvalidation(pattern);
+                } catch (err) {
+                    throw new ConfigValidationError(at('invalidates', j), (err as Error).message, prefix);
+                }
+            });
         }
     }
 }
 
+// ── Validate Resource Policies ──────────────────────────────────────
+
+/**
+ * Validate resource policies. Throws on a missing or malformed URI glob
+ * `match` and on a missing or invalid `cacheControl`.
+ */
+export function validateResourcePolicies(resources?: readonly ResourcePolicy[]): void {
+    if (resources === undefined) return;
+
+    if (!Array.isArray(resources)) {
+        throw new ConfigValidationError(['resources'], `'resources' must be an array.`);
+    }
+    resources.forEach((r: ResourcePolicy, i: number) => {
+        const prefix = `Resource[${i}] (match: "${String(r?.match)}")`;
+        if (typeof r?.match !== 'string' || r.match.length === 0) {
+            throw new ConfigValidationError(['resources', i, 'match'], `'match' must be a non-empty URI glob.`, prefix);
+        }
+        try {
+            validateUriGlob(r.match);
+        } catch (err) {
+            if (!(err instanceof GlobSyntaxError)) throw err;
+            throw new ConfigValidationError(['resources', i, 'match'], `${err.message}.`, prefix);
+        }
+        if (!isValidDirective(r.cacheControl)) {
+            throw new ConfigValidationError(
+                ['resources', i, 'cacheControl'],
+                `cacheControl "${r.cacheControl}" is invalid. ` +
+                `Allowed: "no-store", "immutable", "max-calls=N".`,
+                prefix,
+            );
+        }
+    });
+}
+
 // ── Validate Defaults ───────────────────────────────────────────────
 
 /**
@@ -67,10 +238,237 @@ export function validatePolicies(policies: readonly SyncPolicy[]): void {
 export function validateDefaults(
     defaults?: { readonly cacheControl?: CacheDirective },
 ): void {
-    if (defaults?.cacheControl !== undefined && !VALID_DIRECTIVES.has(defaults.cacheControl)) {
-        throw new Error(
+    if (defaults !== undefined && (!defaults || typeof defaults !== 'object')) {
+        throw new ConfigValidationError(['defaults'], `'defaults' must be an object.`);
+    }
+    if (defaults?.cacheControl !== undefined && !isValidDirective(defaults.cacheControl)) {
+        throw new ConfigValidationError(
+            ['defaults', 'cacheControl'],
             `Default cacheControl "${defaults.cacheControl}" is invalid. ` +
-            `Allowed: "no-store", "immutable".`,
+            `Allowed: "no-store", "immutable", "max-calls=N".`,
+        );
+    }
+}
+
+// ── Validate Memoize ────────────────────────────────────────────────
+
+/**
+ * Validate the memoization config. Throws if `maxEntries` is not a positive
+ * integer or `scope` is not `'session'` or `'shared'`.
+ */
+export function validateMemoize(memoize?: boolean | MemoizeConfig): void {
+    if (memoize === undefined || typeof memoize === 'boolean') return;
+
+    if (!memoize || typeof memoize !== 'object') {
+        throw new ConfigValidationError(['memoize'], `'memoize' must be a boolean or an object.`);
+    }
+    const { maxEntries, scope } = memoize;
+    if (maxEntries !== undefined && (!Number.isInteger(maxEntries) || maxEntries < 1)) {
+        throw new ConfigValidationError(
+            ['memoize', 'maxEntries'],
+            `memoize.maxEntries must be a positive integer, received ${maxEntries}.`,
+        );
+    }
+    if (scope !== undefined && scope !== 'session' && scope !== 'shared') {
+        throw new ConfigValidationError(
+            ['memoize', 'scope'],
+            `memoize.scope must be 'session' or 'shared', received ${JSON.stringify(scope)}.`,
         );
     }
 }
+
+// ── Validate Sessions ───────────────────────────────────────────────
+
+/**
+ * Validate the sessions config. Throws on a non-boolean `trackReads`
+ * or a non-positive `ttlMs`.
+ */
+export function validateSessions(sessions?: SessionsConfig): void {
+    if (sessions === undefined) return;
+
+    if (!sessions || typeof sessions !== 'object') {
+        throw new ConfigValidationError(['sessions'], `'sessions' must be an object.`);
+    }
+    if (sessions.trackReads !== undefined && typeof sessions.trackReads !== 'boolean') {
+        throw new ConfigValidationError(['sessions', 'trackReads'], `sessions.trackReads must be a boolean.`);
+    }
+    const { ttlMs } = sessions;
+    if (ttlMs !== undefined && (typeof ttlMs !== 'number' || !Number.isFinite(ttlMs) || ttlMs <= 0)) {
+        throw new ConfigValidationError(
+            ['sessions', 'ttlMs'],
+            `sessions.ttlMs must be a positive number, received ${ttlMs}.`,
+        );
+    }
+}
+
+// ── Validate Channels ───────────────────────────────────────────────
+
+/**
+ * Validate the output channels. Throws on a non-boolean flag or when
+ * both channels are disabled (StateSync would then report nothing).
+ */
+export function validateChannels(channels?: ChannelsConfig): void {
+    if (channels === undefined) return;
+
+    if (!channels || typeof channels !== 'object') {
+        throw new ConfigValidationError(['channels'], `'channels' must be an object.`);
+    }
+    for (const key of ['text', 'meta'] as const) {
+        if (channels[key] !== undefined && typeof channels[key] !== 'boolean') {
+            throw new ConfigValidationError(['channels', key], `channels.${key} must be a boolean.`);
+        }
+    }
+    if (channels.text === false && channels.meta !== true) {
+        throw new ConfigValidationError(['channels'], 'at least one channel (text or meta) must be enabled.');
+    }
+}
+
+// ── Validate Messages ───────────────────────────────────────────────
+
+/**
+ * Validate the message config. Throws on an unknown locale or template
+ * name, on a template that is neither a non-empty string nor a function,
+ * and on a string template with an unknown placeholder. A string
+ * `cacheControl` template must contain `{directive}`.
+ */
+export function validateMessages(messages?: MessagesConfig): void {
+    if (messages === undefined) return;
+
+    if (!messages || typeof messages !== 'object') {
+        throw new ConfigValidationError(['messages'], `'messages' must be an object.`);
+    }
+    if (messages.locale !== undefined && !VALID_LOCALES.has(messages.locale)) {
+        throw new ConfigValidationError(
+            ['messages', 'locale'],
+            `invalid locale "${messages.locale}". Allowed: "en", "pt-BR", "es".`,
+        );
+    }
+
+    const { templates } = messages;
+    if (templates === undefined) return;
+    if (!templates || typeof templates !== 'object') {
+        throw new ConfigValidationError(['messages', 'templates'], `messages.templates must be an object.`);
+    }
+    for (const [key, template] of Object.entries(templates)) {
+        const path = ['messages', 'templates', key];
+        if (!Object.hasOwn(MESSAGE_PLACEHOLDERS, key)) {
+            const names = Object.keys(MESSAGE_PLACEHOLDERS).map(name => `"${name}"`);
+            throw new ConfigValidationError(path, `unknown template "${key}". Allowed: ${names.join(', ')}.`);
+        }
+        if (typeof template === 'function') continue;
+        if (typeof template !== 'string' || template.length === 0) {
+            throw new ConfigValidationError(path, `messages.templates.${key} must be a non-empty string or a function.`);
+        }
+
+        const allowed: readonly string[] = MESSAGE_PLACEHOLDERS[key as keyof MessageParams];
+        const { placeholders } = parseTemplate(template);
+        const unknown = placeholders.find(name => !allowed.includes(name));
+        if (unknown !== undefined) {
+            throw new ConfigValidationError(
+                path,
+                `messages.templates.${key}: unknown placeholder "{${unknown}}". ` +
+                `Allowed: ${allowed.map(name => `{${name}}`).join(', ')}.`,
+            );
+        }
+        if (key === 'cacheControl' && !placeholders.includes('directive')) {
+            throw new ConfigValidationError(path, `messages.templates.cacheControl must contain "{directive}".`);
+        }
+    }
+}
+
+// ── Validate Resolution ─────────────────────────────────────────────
+
+/**
+ * Validate the resolution mode. Throws unless `'first-match'` or `'accumulate'`.
+ */
+export function validateResolution(resolution?: ResolutionMode): void {
+    if (resolution !== undefined && !VALID_RESOLUTION.has(resolution)) {
+        throw new ConfigValidationError(
+            ['resolution'],
+            `invalid resolution "${resolution}". Allowed: "first-match", "accumulate".`,
+        );
+    }
+}
+
+// ── Validate Known Keys ─────────────────────────────────────────────
+
+/** Keys a config file may use — mirrors `additionalProperties: false` in the JSON Schema. */
+const FILE_KEYS = {
+    config: [
+        'policies', 'defaults', 'memoize', 'sessions', 'inferFromAnnotations',
+        'resolution', 'channels', 'messages', 'resources',
+    ],
+    policy: [
+        'match', 'cacheControl', 'invalidates', 'memoize', 'rejectStaleWrites',
+        'onError', 'onException', 'timeoutMs', 'final',
+    ],
+    defaults: ['cacheControl'],
+    memoize: ['maxEntries', 'scope'],
+    sessions: ['trackReads', 'ttlMs'],
+    channels: ['text', 'meta'],
+    messages: ['locale', 'templates'],
+    resource: ['match', 'cacheControl'],
+} as const;
+
+/**
+ * Reject keys the JSON Schema does not allow, so a typo such as
+ * `cacheControll` fails instead of being silently ignored. For configs
+ * parsed from files: code-only keys (`success` predicates) are unknown
+ * there. Call after `validateSyncConfig`.
+ */
+export function validateKnownKeys(config: SyncConfig): void {
+    rejectUnknownKeys(config, FILE_KEYS.config, []);
+    config.policies.forEach((policy, i) => rejectUnknownKeys(
+        policy,
+        FILE_KEYS.policy,
+        ['policies', i],
+        `Policy[${i}] (match: "${describeMatch(policy.match)}")`,
+    ));
+    config.resources?.forEach((resource, i) => rejectUnknownKeys(
+        resource,
+        FILE_KEYS.resource,
+        ['resources', i],
+        `Resource[${i}] (match: "${resource.match}")`,
+    ));
+    for (const key of ['defaults', 'memoize', 'sessions', 'channels', 'messages'] as const) {
+        const value = config[key];
+        if (value && typeof value === 'object') rejectUnknownKeys(value, FILE_KEYS[key], [key]);
+    }
+}
+
+function rejectUnknownKeys(value: object, allowed: readonly string[], path: ConfigPath, prefix?: string): void {
+    const unknown = Object.keys(value).find(key => !allowed.includes(key));
+    if (unknown === undefined) return;
+
+    throw new ConfigValidationError(
+        [...path, unknown],
+        `unknown key "${unknown}". Allowed: ${allowed.map(key => `"${key}"`).join(', ')}.`,
+        prefix,
+    );
+}
+
+// ── Validate SyncConfig ─────────────────────────────────────────────
+
+/**
+ * Validate a complete, untrusted `SyncConfig` (e.g. parsed from a file).
+ * Runs every validator above in declaration order.
+ */
+export function validateSyncConfig(config: unknown): asserts config is SyncConfig {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new ConfigValidationError([], 'SyncConfig must be an object.');
+    }
+
+    const c = config as SyncConfig;
+    validatePolicies(c.policies);
+    validateDefaults(c.defaults);
+    validateMemoize(c.memoize);
+    validateSessions(c.sessions);
+    validateResolution(c.resolution);
+    validateChannels(c.channels);
+    validateMessages(c.messages);
+    validateResourcePolicies(c.resources);
+
+    if (c.inferFromAnnotations !== undefined && typeof c.inferFromAnnotations !== 'boolean') {
+        throw new ConfigValidationError(['inferFromAnnotations'], `'inferFromAnnotations' must be a boolean.`);
+    }
+}
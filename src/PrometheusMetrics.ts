@@ -0,0 +1,157 @@
+/**
+ * PrometheusMetrics — Metrics in Prometheus Text Exposition Format
+ *
+ * Single responsibility: aggregate StateSync lifecycle events into
+ * counters and histograms and render them as Prometheus text (v0.0.4).
+ * No client library — serve `render()` from any HTTP handler.
+ *
+ * Metrics (default prefix `mcp_state_sync`):
+ * - `_calls_total{directive,is_error}`          — counter
+ * - `_invalidations_total{domain}`              — counter, one per invalidated pattern;
+ *   resource URIs count under their `scheme://authority` to bound cardinality
+ * - `_upstream_latency_seconds{tool}`           — histogram, upstream time only
+ */
+import type { SyncEventEmitter } from './SyncEvents.js';
+import { parseInvalidation } from './InvalidationTemplate.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** PrometheusMetrics construction options. */
+export interface PrometheusMetricsOptions {
+    /** Metric name prefix. Default: `mcp_state_sync`. */
+    readonly prefix?: string;
+    /** Upper bounds (seconds) of the latency histogram buckets. */
+    readonly buckets?: readonly number[];
+}
+
+/** Anything StateSync events can be subscribed on (`StateSync` or `SyncEventEmitter`). */
+export type SyncEventSource = Pick<SyncEventEmitter, 'on'>;
+
+interface HistogramSeries {
+    readonly counts: number[];
+    sum: number;
+    count: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+/** Default latency buckets (seconds), as used by most Prometheus clients. */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const DEFAULT_PREFIX = 'mcp_state_sync';
+
+/** Valid metric name (Prometheus data model). */
+const VALID_METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+/** Scheme and authority of a resource URI: `jira://sprints/42` → `jira://sprints`. */
+const URI_SCHEME_AUTHORITY = /^[a-zA-Z][a-zA-Z0-9+.-]*:(\/\/[^/?#]*)?/;
+
+// ── PrometheusMetrics ───────────────────────────────────────────────
+
+export class PrometheusMetrics {
+    /** `Content-Type` header for `render()` output. */
+    static readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+    private readonly prefix: string;
+    private readonly buckets: readonly number[];
+    private readonly calls = new Map<string, number>();
+    private readonly invalidations = new Map<string, number>();
+    private readonly latency = new Map<string, HistogramSeries>();
+
+    constructor(options: PrometheusMetricsOptions = {}) {
+        const prefix = options.prefix ?? DEFAULT_PREFIX;
+        if (!VALID_METRIC_NAME.test(prefix)) {
+            throw new Error(`PrometheusMetrics: invalid metric prefix "${prefix}".`);
+        }
+        const buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+        if (buckets.length === 0 || buckets.some(b => !Number.isFinite(b) || b <= 0)) {
+            throw new Error('PrometheusMetrics: buckets must be positive finite numbers.');
+        }
+
+        this.prefix = prefix;
+        this.buckets = buckets;
+    }
+
+    /**
+     * Subscribe to the events of a StateSync instance.
+     * Returns a function that unsubscribes.
+     *
+     * @example
+     * ```typescript
+     * const metrics = new PrometheusMetrics();
+     * metrics.attach(sync);
+     * app.get('/metrics', (_req, res) => res.type(PrometheusMetrics.contentType).send(metrics.render()));
+     * ```
+     */
+    attach(source: SyncEventSource): () => void {
+        const off = [
+            source.on('callCompleted', e => {
+                increment(this.calls, labels({ directive: e.policy?.cacheControl ?? 'none', is_error: String(e.isError) }));
+                if (e.upstreamMs !== undefined) this.observeLatency(e.tool, e.upstreamMs / 1000);
+            }),
+            source.on('invalidated', e => {
+                for (const pattern of e.patterns) {
+                    const { glob, negated, resource } = parseInvalidation(pattern);
+                    if (negated) continue;
+                    // Rendered URIs name single entities — one series each would be unbounded
+                    const domain = resource ? URI_SCHEME_AUTHORITY.exec(glob)![0] : glob;
+                    increment(this.invalidations, labels({ domain }));
+                }
+            }),
+        ];
+        return () => off.forEach(fn => fn());
+    }
+
+    /** Render every metric in Prometheus text exposition format. */
+    render(): string {
+        const p = this.prefix;
+        const lines = [
+            `# HELP ${p}_calls_total tools/call requests by resolved cache directive.`,
+            `# TYPE ${p}_calls_total counter`,
+            ...[...this.calls].map(([l, v]) => `${p}_calls_total${l} ${v}`),
+            `# HELP ${p}_invalidations_total Invalidated patterns by domain glob.`,
+            `# TYPE ${p}_invalidations_total counter`,
+            ...[...this.invalidations].map(([l, v]) => `${p}_invalidations_total${l} ${v}`),
+            `# HELP ${p}_upstream_latency_seconds Time spent in the upstream tool handler.`,
+            `# TYPE ${p}_upstream_latency_seconds histogram`,
+        ];
+
+        for (const [tool, series] of this.latency) {
+            const name = `${p}_upstream_latency_seconds`;
+            this.buckets.forEach((le, i) => {
+                lines.push(`${name}_bucket${labels({ tool, le: String(le) })} ${series.counts[i]}`);
+            });
+            lines.push(`${name}_bucket${labels({ tool, le: '+Inf' })} ${series.count}`);
+            lines.push(`${name}_sum${labels({ tool })} ${series.sum}`);
+            lines.push(`${name}_count${labels({ tool })} ${series.count}`);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    private observeLatency(tool: string, seconds: number): void {
+        const series = this.latency.get(tool) ?? { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.latency.set(tool, series);
+
+        // Buckets are cumulative: every bucket with le >= value counts it
+        this.buckets.forEach((le, i) => {
+            if (seconds <= le) series.counts[i]++;
+        });
+        series.sum += seconds;
+        series.count++;
+    }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function increment(counter: Map<string, number>, key: string): void {
+    counter.set(key, (counter.get(key) ?? 0) + 1);
+}
+
+/** `{a="1",b="x\"y"}` with Prometheus label-value escaping. */
+function labels(values: Record<string, string>): string {
+    const pairs = Object.entries(values).map(([k, v]) =>
+        `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+    );
+    return `{${pairs.join(',')}}`;
+}
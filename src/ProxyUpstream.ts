@@ -0,0 +1,269 @@
+/**
+ * ProxyUpstream — Transparent Proxy in Front of Another MCP Server
+ *
+ * Single responsibility: adapt a connected MCP `Client` into an Upstream.
+ * `tools/*` and `resources/*` go through StateSync like any other
+ * upstream; prompts, completions, the logging level and every upstream
+ * notification are passed through unchanged, and so are the upstream's
+ * requests to the client (sampling, roots, elicitation).
+ *
+ * The client may use any transport — a stdio child process
+ * (`StdioClientTransport`) or `InMemoryTransport` — and must be connected
+ * before attaching: the proxied features follow the upstream server's
+ * capabilities, and the upstream's requests follow the capabilities the
+ * client was created with.
+ */
+import {
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
+    CompleteRequestSchema,
+    SetLevelRequestSchema,
+    CreateMessageRequestSchema,
+    CreateMessageResultSchema,
+    ListRootsRequestSchema,
+    ListRootsResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import * as sdkTypes from '@modelcontextprotocol/sdk/types.js';
+import type {
+    Upstream,
+    McpCallResult,
+    McpToolDef,
+    McpResourceDef,
+    McpResourceTemplateDef,
+    McpReadResourceResult,
+} from './types.js';
+import type { McpServerLike } from './ServerResolver.js';
+
+// ── Client Duck-Typing ──────────────────────────────────────────────
+
+/** Request options of the SDK `Client` methods used by the proxy. */
+export interface ClientRequestOptions {
+    readonly signal?: AbortSignal;
+    readonly onprogress?: (progress: Record<string, unknown>) => void;
+}
+
+/** A JSON-RPC notification, as received from the upstream server. */
+interface NotificationLike {
+    method: string;
+    params?: Record<string, unknown>;
+}
+
+/** Duck-typed MCP `Client` from @modelcontextprotocol/sdk, connected to the upstream. */
+export interface McpClientLike {
+    /** The upstream's capabilities; `undefined` before `connect()`. */
+    getServerCapabilities(): Record<string, unknown> | undefined;
+    listTools(params?: { cursor?: string }, options?: ClientRequestOptions): Promise<unknown>;
+    callTool(
+        params: { name: string; arguments?: Record<string, unknown> },
+        resultSchema?: unknown,
+        options?: ClientRequestOptions,
+    ): Promise<unknown>;
+    listResources(params?: { cursor?: string }, options?: ClientRequestOptions): Promise<unknown>;
+    listResourceTemplates(params?: { cursor?: string }, options?: ClientRequestOptions): Promise<unknown>;
+    readResource(params: { uri: string }, options?: ClientRequestOptions): Promise<unknown>;
+    subscribeResource(params: { uri: string }, options?: ClientRequestOptions): Promise<unknown>;
+    unsubscribeResource(params: { uri: string }, options?: ClientRequestOptions): Promise<unknown>;
+    listPrompts(params?: Record<string, unknown>, options?: ClientRequestOptions): Promise<unknown>;
+    getPrompt(params: Record<string, unknown>, options?: ClientRequestOptions): Promise<unknown>;
+    complete(params: Record<string, unknown>, options?: ClientRequestOptions): Promise<unknown>;
+    setLoggingLevel(level: string, options?: ClientRequestOptions): Promise<unknown>;
+    /** Handles a request from the upstream server; throws for undeclared client capabilities. */
+    setRequestHandler(schema: unknown, handler: (request: unknown, extra: unknown) => unknown): void;
+    /** Receives every notification without a dedicated handler. */
+    fallbackNotificationHandler?: (notification: NotificationLike) => Promise<void>;
+}
+
+/** Typed shape of a pass-through request. */
+interface ForwardedRequest {
+    readonly method: string;
+    readonly params: Record<string, unknown>;
+}
+
+/** The parts of the SDK's `extra` the proxy forwards. */
+interface RequestExtra {
+    readonly signal?: AbortSignal;
+    readonly _meta?: { readonly progressToken?: string | number };
+    readonly sendNotification?: (notification: NotificationLike) => Promise<void>;
+}
+
+/**
+ * Duck-type check for an MCP `Client`.
+ * Requires `getServerCapabilities()`, `listTools()` and `callTool()` methods.
+ */
+export function isClient(source: unknown): source is McpClientLike {
+    if (!source || typeof source !== 'object') return false;
+    const s = source as Record<string, unknown>;
+    return typeof s.getServerCapabilities === 'function'
+        && typeof s.listTools === 'function'
+        && typeof s.callTool === 'function';
+}
+
+// ── Proxy Upstream ──────────────────────────────────────────────────
+
+/**
+ * Create an Upstream that forwards to another MCP server through a
+ * connected client. Resource methods are present only when the upstream
+ * declares the `resources` capability, subscriptions only with
+ * `resources.subscribe`.
+ *
+ * @throws Error if the client is not connected
+ */
+export function createProxyUpstream(client: McpClientLike): Upstream {
+    const capabilities = client.getServerCapabilities();
+    if (!capabilities) {
+        throw new Error('StateSync: the proxied client is not connected. Call client.connect(transport) first.');
+    }
+
+    const upstream: Upstream = {
+        listTools: async () => ({
+            tools: await listAll<McpToolDef>(params => client.listTools(params), 'tools'),
+        }),
+        callTool: async (name, args, extra) =>
+            await client.callTool({ name, arguments: args }, undefined, requestOptions(extra)) as McpCallResult,
+        passthrough: server => forward(client, capabilities, server),
+    };
+
+    const resources = capabilities.resources as { subscribe?: boolean } | undefined;
+    if (!resources) return upstream;
+
+    return {
+        ...upstream,
+        listResources: async () => ({
+            resources: await listAll<McpResourceDef>(params => client.listResources(params), 'resources'),
+        }),
+        listResourceTemplates: async () => ({
+            resourceTemplates: await listAll<McpResourceTemplateDef>(
+                params => client.listResourceTemplates(params),
+                'resourceTemplates',
+            ),
+        }),
+        readResource: async (uri, extra) =>
+            await client.readResource({ uri }, requestOptions(extra)) as McpReadResourceResult,
+        ...(resources.subscribe && {
+            subscribeResource: async (uri: string, extra: unknown) => {
+                await client.subscribeResource({ uri }, requestOptions(extra));
+            },
+            unsubscribeResource: async (uri: string, extra: unknown) => {
+                await client.unsubscribeResource({ uri }, requestOptions(extra));
+            },
+        }),
+    };
+}
+
+// ── Pass-Through ────────────────────────────────────────────────────
+
+/**
+ * An SDK export that older versions of the peer range lack, or `undefined`.
+ * Looked up by name: a static import would fail to link the whole package.
+ */
+function optionalSchema(name: keyof typeof sdkTypes): unknown {
+    return name in sdkTypes ? sdkTypes[name] : undefined;
+}
+
+/** Absent from older SDKs in the peer range (sampling with tools: before 1.24). */
+const ElicitRequestSchema = optionalSchema('ElicitRequestSchema');
+const ElicitResultSchema = optionalSchema('ElicitResultSchema');
+const CreateMessageResultWithToolsSchema = optionalSchema('CreateMessageResultWithToolsSchema');
+
+/** Request schema and the schema of its result, given the request params. */
+type ClientRequest = readonly [unknown, (params?: Record<string, unknown>) => unknown];
+
+/**
+ * Requests the upstream server may send to its client, with the schema of
+ * their result. Sampling requests with `tools` expect tool-use content.
+ * Requests the installed SDK does not define are not forwarded.
+ */
+const CLIENT_REQUESTS: readonly ClientRequest[] = [
+    [CreateMessageRequestSchema, params =>
+        params?.tools && CreateMessageResultWithToolsSchema
+            ? CreateMessageResultWithToolsSchema
+            : CreateMessageResultSchema],
+    [ListRootsRequestSchema, () => ListRootsResultSchema],
+    ...(ElicitRequestSchema && ElicitResultSchema ? [[ElicitRequestSchema, () => ElicitResultSchema] as const] : []),
+];
+
+/**
+ * Forward prompts, completions and the logging level to the upstream,
+ * and every upstream notification and request to the attached server's
+ * client. Only features the upstream declares are registered; upstream
+ * requests only for capabilities the proxy client declares.
+ */
+function forward(
+    client: McpClientLike,
+    capabilities: Record<string, unknown>,
+    server: McpServerLike,
+): void {
+    const params = (request: unknown) => (request as ForwardedRequest).params;
+
+    if (capabilities.prompts) {
+        server.setRequestHandler(ListPromptsRequestSchema, (request: unknown, extra: unknown) =>
+            client.listPrompts(params(request), requestOptions(extra)));
+        server.setRequestHandler(GetPromptRequestSchema, (request: unknown, extra: unknown) =>
+            client.getPrompt(params(request), requestOptions(extra)));
+    }
+    if (capabilities.completions) {
+        server.setRequestHandler(CompleteRequestSchema, (request: unknown, extra: unknown) =>
+            client.complete(params(request), requestOptions(extra)));
+    }
+    if (capabilities.logging) {
+        server.setRequestHandler(SetLevelRequestSchema, (request: unknown, extra: unknown) =>
+            client.setLoggingLevel(String(params(request).level), requestOptions(extra)));
+    }
+
+    for (const [schema, resultSchema] of CLIENT_REQUESTS) {
+        try {
+            client.setRequestHandler(schema, (request: unknown, extra: unknown) => {
+                const { method, params } = request as ForwardedRequest;
+                if (!server.request) throw new Error(`StateSync: the attached server cannot forward "${method}".`);
+                return server.request({ method, params }, resultSchema(params), { signal: requestOptions(extra).signal });
+            });
+        } catch {
+            // Capability not declared by the proxy client — the upstream cannot send this request
+        }
+    }
+
+    client.fallbackNotificationHandler = async ({ method, params }) => {
+        try {
+            await server.notification?.({ method, params });
+        } catch {
+            // Not connected or capability not enabled — delivery is best-effort
+        }
+    };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Abort signal of the downstream request, plus progress forwarding when
+ * the downstream client asked for progress (`_meta.progressToken`).
+ */
+function requestOptions(extra: unknown): ClientRequestOptions {
+    const { signal, _meta, sendNotification } = (extra ?? {}) as RequestExtra;
+    const progressToken = _meta?.progressToken;
+    if (progressToken === undefined || !sendNotification) return { signal };
+
+    return {
+        signal,
+        onprogress: progress => {
+            sendNotification({
+                method: 'notifications/progress',
+                params: { ...progress, progressToken },
+            }).catch(() => { /* best-effort */ });
+        },
+    };
+}
+
+/** Follow `nextCursor` until the last page and concatenate the items. */
+async function listAll<T>(
+    fetchPage: (params?: { cursor: string }) => Promise<unknown>,
+    key: string,
+): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await fetchPage(cursor === undefined ? undefined : { cursor }) as Record<string, unknown>;
+        items.push(...(page[key] as T[] | undefined ?? []));
+        cursor = typeof page.nextCursor === 'string' ? page.nextCursor : undefined;
+    } while (cursor !== undefined);
+    return items;
+}
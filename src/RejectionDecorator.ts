@@ -0,0 +1,47 @@
+/**
+ * RejectionDecorator — Stale-Write Rejection Result
+ *
+ * Pure function. Single responsibility: build the `isError` result
+ * returned instead of calling the upstream when a write is based on
+ * reads that were invalidated after the LLM saw them.
+ */
+import type { McpCallResult, MessageTemplates } from './types.js';
+import { DEFAULT_MESSAGES, formatMessage } from './Messages.js';
+import { canonicalize } from './ResultCache.js';
+
+/**
+ * Name a stale read so the model knows exactly which call to repeat:
+ * the tool name, followed by its canonicalized arguments if it had any.
+ *
+ * @example
+ * describeRead('accounts.get', { id: 2 }) // → 'accounts.get({"id":2})'
+ * describeRead('accounts.list', {})       // → 'accounts.list'
+ */
+export function describeRead(name: string, args: Record<string, unknown>): string {
+    return Object.keys(args).length > 0 ? `${name}(${canonicalize(args)})` : name;
+}
+
+/**
+ * Build a rejection result for a write based on stale reads.
+ *
+ * @param toolName   - The write tool that was rejected
+ * @param staleReads - Reads older than the current domain version (see `describeRead`)
+ * @param messages   - Message catalog (`writeRejected`)
+ * @returns An `isError` result telling the model to re-read first
+ *
+ * @example
+ * rejectStaleWrite('transfers.create', ['accounts.getBalance'])
+ * // → [System: Write rejected — transfers.create is based on stale reads of
+ * //    accounts.getBalance. Re-read them before retrying.]
+ */
+export function rejectStaleWrite(
+    toolName: string,
+    staleReads: readonly string[],
+    messages: MessageTemplates = DEFAULT_MESSAGES,
+): McpCallResult {
+    const reads = staleReads.join(', ');
+    return {
+        content: [{ type: 'text', text: formatMessage(messages, 'writeRejected', { tool: toolName, reads }) }],
+        isError: true,
+    };
+}
@@ -3,8 +3,14 @@
  *
  * Pure function. Single responsibility: prepend a `[System: ...]`
  * content block to a call result. Goes at index 0 to survive truncation.
+ *
+ * Three messages: a plain invalidation notice, a warning for failed
+ * non-atomic writes (`onError: 'invalidate-with-warning'`) that may have
+ * partially modified state, and an expiry notice for `max-calls=N` reads.
+ * Wording comes from a message catalog (see Messages); default English.
  */
-import type { McpCallResult } from './types.js';
+import type { McpCallResult, MessageTemplates } from './types.js';
+import { DEFAULT_MESSAGES, formatMessage } from './Messages.js';
 
 /**
  * Prepend a System invalidation content block to the call result.
@@ -14,21 +20,67 @@ import type { McpCallResult } from './types.js';
  * @param result    - Original call result (developer's response)
  * @param patterns  - Domain patterns that were invalidated (e.g. ['sprints.*'])
  * @param causedBy  - The tool name that caused the invalidation
+ * @param messages  - Message catalog (`invalidated`)
  * @returns A new result with the System block prepended
  */
 export function decorateResponse(
     result: McpCallResult,
     patterns: readonly string[],
     causedBy: string,
+    messages: MessageTemplates = DEFAULT_MESSAGES,
 ): McpCallResult {
     const domains = patterns.join(', ');
-    const systemBlock = {
-        type: 'text' as const,
-        text: `[System: Cache invalidated for ${domains} — caused by ${causedBy}]`,
-    };
+    return prependSystemBlock(result, formatMessage(messages, 'invalidated', { domains, causedBy }));
+}
+
+/**
+ * Prepend a System warning that a failed write may have partially
+ * modified state, naming the invalidated domains to re-read.
+ *
+ * @param result    - Original (failed) call result
+ * @param patterns  - Domain patterns that were invalidated
+ * @param causedBy  - The failed write tool
+ * @param messages  - Message catalog (`partialFailure`)
+ * @returns A new result with the warning prepended; `isError` is kept
+ */
+export function decoratePartialFailure(
+    result: McpCallResult,
+    patterns: readonly string[],
+    causedBy: string,
+    messages: MessageTemplates = DEFAULT_MESSAGES,
+): McpCallResult {
+    const domains = patterns.join(', ');
+    return prependSystemBlock(result, formatMessage(messages, 'partialFailure', { domains, causedBy }));
+}
+
+/**
+ * Prepend a System notice that earlier reads exceeded their `max-calls=N`
+ * budget. Each tool is named once.
+ *
+ * @param result - Call result of the current call
+ * @param reads  - Expired reads: tool name and its N
+ * @param messages - Message catalog (`expired`)
+ * @returns A new result with the notice prepended
+ *
+ * @example
+ * decorateExpiry(result, [{ name: 'dashboard.stats', maxCalls: 5 }])
+ * // → [System: Cache expired for dashboard.stats (max-calls=5) — re-read before relying on it.]
+ */
+export function decorateExpiry(
+    result: McpCallResult,
+    reads: readonly { readonly name: string; readonly maxCalls?: number }[],
+    messages: MessageTemplates = DEFAULT_MESSAGES,
+): McpCallResult {
+    const byName = new Map(reads.map(read => [read.name, read.maxCalls]));
+    const tools = [...byName].map(([name, n]) => `${name} (max-calls=${n})`).join(', ');
+    return prependSystemBlock(result, formatMessage(messages, 'expired', { tools }));
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
 
+function prependSystemBlock(result: McpCallResult, text: string): McpCallResult {
     return {
         ...result,
-        content: [systemBlock, ...result.content],
+        content: [{ type: 'text' as const, text }, ...result.content],
     };
 }
@@ -0,0 +1,80 @@
+/**
+ * ResultCache — Server-Side Memoization of `immutable` Tools
+ *
+ * Single responsibility: store successful results of immutable tools,
+ * keyed by tool name + canonicalized arguments, in a bounded LRU.
+ * Entries are partitioned by session unless the scope is `'shared'`.
+ * Entries are evicted when an invalidation pattern covers them.
+ */
+import type { McpCallResult, MemoizeScope } from './types.js';
+import { LruCache } from './LruCache.js';
+import { matchInvalidations } from './InvalidationTemplate.js';
+
+/** Default upper bound on memoized results. */
+export const DEFAULT_MAX_ENTRIES = 1000;
+
+interface CacheEntry {
+    readonly name: string;
+    readonly args: Record<string, unknown>;
+    readonly result: McpCallResult;
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted at every depth,
+ * so `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` produce the same key.
+ */
+export function canonicalize(value: unknown): string {
+    return JSON.stringify(value, (_key, v: unknown) => {
+        if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+        const sorted: Record<string, unknown> = {};
+        for (const k of Object.keys(v).sort()) {
+            sorted[k] = (v as Record<string, unknown>)[k];
+        }
+        return sorted;
+    });
+}
+
+export class ResultCache {
+    private readonly entries: LruCache<string, CacheEntry>;
+    private readonly shared: boolean;
+
+    constructor(maxEntries: number = DEFAULT_MAX_ENTRIES, scope: MemoizeScope = 'session') {
+        this.entries = new LruCache(maxEntries);
+        this.shared = scope === 'shared';
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** Memoized result for the session (ignored with the `'shared'` scope). */
+    get(name: string, args: Record<string, unknown>, sessionId = ''): McpCallResult | undefined {
+        return this.entries.get(this.keyOf(name, args, sessionId))?.result;
+    }
+
+    set(name: string, args: Record<string, unknown>, result: McpCallResult, sessionId = ''): void {
+        this.entries.set(this.keyOf(name, args, sessionId), { name, args, result });
+    }
+
+    /** Evict every entry covered by the invalidation patterns (minus `!` exclusions). */
+    evict(patterns: readonly string[]): void {
+        if (patterns.length === 0) return;
+
+        const stale: string[] = [];
+        for (const [key, entry] of this.entries) {
+            if (matchInvalidations(patterns, entry.name, entry.args)) {
+                stale.push(key);
+            }
+        }
+        for (const key of stale) this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    private keyOf(name: string, args: Record<string, unknown>, sessionId: string): string {
+        const partition = this.shared ? '' : sessionId;
+        return `${partition}\u0000${name}\u0000${canonicalize(args)}`;
+    }
+}
@@ -9,6 +9,21 @@
 /** Duck-typed interface for the low-level MCP Server. */
 export interface McpServerLike {
     setRequestHandler(schema: unknown, handler: (...args: unknown[]) => unknown): void;
+    /** Send a notification to the connected client (present on the SDK `Server`). */
+    notification?(notification: { method: string; params?: Record<string, unknown> }): Promise<void>;
+    /**
+     * Send `notifications/message`, honoring the level the client set via
+     * `logging/setLevel` (present on the SDK `Server`).
+     */
+    sendLoggingMessage?(params: { level: string; logger?: string; data: unknown }, sessionId?: string): Promise<void>;
+    /** Send a request to the connected client (present on the SDK `Server`). */
+    request?(
+        request: { method: string; params?: Record<string, unknown> },
+        resultSchema: unknown,
+        options?: { signal?: AbortSignal },
+    ): Promise<unknown>;
+    /** Called when the connection closes (present on the SDK `Server`). */
+    onclose?: () => void;
 }
 
 /**
@@ -1,23 +1,71 @@
 /**
- * ServerWrapper — MCP Server Interception (Dual Mode)
+ * ServerWrapper — MCP Server Interception (Fusion, Manual and Proxy Mode)
  *
  * Intercepts `tools/list` and `tools/call` handlers on the MCP Server.
- * Delegates to an Upstream (Fusion registry or manual handlers).
+ * Delegates to an Upstream (Fusion registry, manual handlers or a proxied server).
  *
  * Responsibilities:
  * - tools/list: decorates descriptions via PolicyEngine + DescriptionDecorator
  * - tools/call: delegates to upstream, then applies CausalEngine + ResponseDecorator
+ *   and delivers queued external invalidations for the calling session
+ * - read ledger: optionally narrows System blocks to domains the session has read
+ * - optimistic concurrency: rejects guarded writes based on stale reads
+ * - upstream failures: thrown errors, timeouts and cancellations become
+ *   sanitized `isError` results, invalidated according to `onException`
+ * - memoization: serves repeated calls of `immutable` tools from a ResultCache
+ * - call-count freshness: reports reads of `max-calls=N` tools as expired
+ *   after N further calls in the session
+ * - annotation inference: resolves policies with the listed tool definitions
+ * - lifecycle events: toolsListed, callCompleted, invalidated, upstreamError
+ * - tracing: one span per tools/call through a minimal OTel-compatible tracer
+ * - debug logs: optional per-call resolution log with the explain trace
+ * - channels: text (description suffixes, System blocks) and/or structured
+ *   `_meta` records via MetaDecorator
+ * - messages: every text is rendered from a (localizable) message catalog
+ * - resources: decorates `resources/list` and `resources/templates/list`
+ *   entries, passes `resources/read` through and sends
+ *   `notifications/resources/updated` for invalidated subscribed URIs
+ * - pass-through: lets the upstream register everything else (proxy mode)
+ * - hot reload: swaps the PolicyEngine and announces `tools/list_changed`
  */
 import {
     ListToolsRequestSchema,
     CallToolRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { PolicyEngine } from './PolicyEngine.js';
-import type { Upstream, McpCallResult } from './types.js';
+import type {
+    Upstream,
+    McpCallResult,
+    McpToolDef,
+    ResolvedPolicy,
+    ChannelsConfig,
+    MessageTemplates,
+} from './types.js';
+import type { McpServerLike } from './ServerResolver.js';
 import { resolveServer } from './ServerResolver.js';
 import { decorateDescription } from './DescriptionDecorator.js';
-import { resolveInvalidations } from './CausalEngine.js';
-import { decorateResponse } from './ResponseDecorator.js';
+import { resolveInvalidations, writeSucceeded, failureMode } from './CausalEngine.js';
+import { matchResourceInvalidations } from './InvalidationTemplate.js';
+import { decorateResponse, decoratePartialFailure, decorateExpiry } from './ResponseDecorator.js';
+import { decorateToolMeta, decorateCallMeta } from './MetaDecorator.js';
+import type { InvalidationMeta } from './MetaDecorator.js';
+import { parseMaxCalls } from './PolicyValidator.js';
+import { rejectStaleWrite, describeRead } from './RejectionDecorator.js';
+import { upstreamFailure } from './FailureDecorator.js';
+import { withDeadline, resolveAbortSignal, classifyUpstreamError } from './UpstreamDeadline.js';
+import { DomainVersions } from './DomainVersions.js';
+import { DEFAULT_MESSAGES } from './Messages.js';
+import { SessionStore, resolveSessionId } from './SessionStore.js';
+import type { SessionState } from './SessionStore.js';
+import type { ResultCache } from './ResultCache.js';
+import { SyncEventEmitter } from './SyncEvents.js';
+import { CALL_SPAN_NAME, SPAN_ATTRIBUTES, SPAN_STATUS_ERROR } from './Tracing.js';
+import type { TracerLike, SpanLike } from './Tracing.js';
 
 // ── Request Shape ───────────────────────────────────────────────────
 
@@ -29,46 +77,483 @@ interface CallToolParams {
     };
 }
 
+/** Typed shape of a resources/read, subscribe or unsubscribe request. */
+interface ResourceRequest {
+    readonly params: { readonly uri: string };
+}
+
+/** Logger name used for `notifications/message`. */
+const LOGGER_NAME = 'mcp-state-sync';
+
+/** Shared state injected by StateSync. Every field is optional. */
+export interface ServerWrapperOptions {
+    /** Per-session state, shared across every server of a StateSync instance. */
+    readonly sessions?: SessionStore;
+    /** Memoized results of `immutable` tools. Omit to disable memoization. */
+    readonly resultCache?: ResultCache;
+    /** Narrow System blocks to domains the calling session has read. Default: `false`. */
+    readonly trackReads?: boolean;
+    /** Per-domain version counters, shared with external invalidation. */
+    readonly versions?: DomainVersions;
+    /** Lifecycle event listeners, shared with StateSync. */
+    readonly events?: SyncEventEmitter;
+    /** Creates a span per `tools/call` (any OpenTelemetry `Tracer`). */
+    readonly tracer?: TracerLike;
+    /** Debug log of every resolution (`'trace'` attaches the explain trace). Default: `false`. */
+    readonly debug?: boolean | 'trace';
+    /** Text and/or `_meta` output. Default: text only. */
+    readonly channels?: ChannelsConfig;
+    /** Catalog every text is rendered from (see `resolveMessages`). Default: English. */
+    readonly messages?: MessageTemplates;
+    /**
+     * Delivers `notifications/resources/updated` for a write's invalidations.
+     * StateSync fans it out to every attached server. Default: this server only.
+     */
+    readonly resourcesUpdated?: (patterns: readonly string[]) => Promise<void>;
+}
+
 // ── ServerWrapper ───────────────────────────────────────────────────
 
 export class ServerWrapper {
-    private readonly policyEngine: PolicyEngine;
+    private policyEngine: PolicyEngine;
+    private readonly sessions: SessionStore;
+    private readonly resultCache: ResultCache | undefined;
+    private readonly trackReads: boolean;
+    private readonly versions: DomainVersions;
+    private readonly debug: boolean | 'trace';
+    private readonly events: SyncEventEmitter;
+    private readonly tracer: TracerLike | undefined;
+    private readonly textChannel: boolean;
+    private readonly metaChannel: boolean;
+    private readonly messages: MessageTemplates;
+    private readonly resourcesUpdated: (patterns: readonly string[]) => Promise<void>;
+    private server: McpServerLike | undefined;
+    /** Tool definitions from the last `tools/list`, for annotation inference. */
+    private tools = new Map<string, McpToolDef>();
+    /** Resource URIs the client subscribed to via `resources/subscribe`. */
+    private readonly subscriptions = new Set<string>();
 
-    constructor(policyEngine: PolicyEngine) {
+    constructor(policyEngine: PolicyEngine, options: ServerWrapperOptions = {}) {
         this.policyEngine = policyEngine;
+        this.sessions = options.sessions ?? new SessionStore();
+        this.resultCache = options.resultCache;
+        this.trackReads = options.trackReads ?? false;
+        this.versions = options.versions ?? new DomainVersions();
+        this.debug = options.debug ?? false;
+        this.events = options.events ?? new SyncEventEmitter();
+        this.tracer = options.tracer;
+        this.textChannel = options.channels?.text ?? true;
+        this.metaChannel = options.channels?.meta ?? false;
+        this.messages = options.messages ?? DEFAULT_MESSAGES;
+        this.resourcesUpdated = options.resourcesUpdated ?? (patterns => this.notifyResourcesUpdated(patterns));
     }
 
     /**
      * Attach StateSync to an MCP Server, delegating to the given Upstream.
      * Registers `tools/list` and `tools/call` handlers that decorate
      * descriptions and responses according to resolved policies.
+     * Upstreams with resources also get the `resources/*` handlers; the
+     * server must declare the `resources` capability. `onClose` runs when
+     * the server's connection closes, after any `onclose` set before.
      */
-    attach(server: unknown, upstream: Upstream): void {
+    attach(server: unknown, upstream: Upstream, onClose?: () => void): void {
         const resolved = resolveServer(server);
+        this.server = resolved;
+
+        if (onClose) {
+            const previous = resolved.onclose;
+            resolved.onclose = () => {
+                previous?.call(resolved);
+                onClose();
+            };
+        }
 
-        resolved.setRequestHandler(ListToolsRequestSchema, () => {
-            const { tools } = upstream.listTools();
+        resolved.setRequestHandler(ListToolsRequestSchema, () => andThen(upstream.listTools(), ({ tools }) => {
+            this.tools = new Map(tools.map(tool => [tool.name, tool]));
+
+            const listed = tools.map(tool => ({
+                tool,
+                policy: this.policyEngine.resolve(tool.name, tool),
+            }));
+            this.events.emit('toolsListed', {
+                tools: listed.map(({ tool, policy }) => ({ name: tool.name, policy })),
+            });
             return {
-                tools: tools.map(tool =>
-                    decorateDescription(tool, this.policyEngine.resolve(tool.name)),
-                ),
+                tools: listed.map(({ tool, policy }) => this.decorateEntry(tool, policy)),
             };
-        });
+        }));
 
         resolved.setRequestHandler(CallToolRequestSchema, async (request: unknown, extra: unknown) => {
             const { params } = request as CallToolParams;
-            const { name, arguments: args = {} } = params;
+            const span = this.tracer?.startSpan(CALL_SPAN_NAME, {
+                attributes: { [SPAN_ATTRIBUTES.tool]: params.name },
+            });
+            try {
+                return await this.handleCall(upstream, params, extra, span);
+            } finally {
+                span?.end();
+            }
+        });
+
+        if (upstream.listResources) this.attachResources(resolved, upstream);
+        upstream.passthrough?.(resolved);
+    }
+
+    /**
+     * Register the `resources/*` handlers: list and template entries are
+     * decorated with their resource policy, reads pass through, and
+     * subscriptions are recorded for `notifications/resources/updated`
+     * (and forwarded to upstreams that send their own updates).
+     */
+    private attachResources(server: McpServerLike, upstream: Upstream): void {
+        server.setRequestHandler(ListResourcesRequestSchema, () =>
+            andThen(upstream.listResources?.() ?? { resources: [] }, ({ resources }) => ({
+                resources: resources.map(resource =>
+                    this.decorateEntry(resource, this.policyEngine.resolveResource(resource.uri)),
+                ),
+            })),
+        );
 
-            const result: McpCallResult = await upstream.callTool(name, args, extra);
+        server.setRequestHandler(ListResourceTemplatesRequestSchema, () =>
+            andThen(upstream.listResourceTemplates?.() ?? { resourceTemplates: [] }, ({ resourceTemplates }) => ({
+                resourceTemplates: resourceTemplates.map(template =>
+                    this.decorateEntry(template, this.policyEngine.resolveResource(template.uriTemplate)),
+                ),
+            })),
+        );
 
-            const policy = this.policyEngine.resolve(name);
-            const invalidations = resolveInvalidations(policy, result.isError ?? false);
+        server.setRequestHandler(ReadResourceRequestSchema, (request: unknown, extra: unknown) => {
+            const { params } = request as ResourceRequest;
+            if (!upstream.readResource) throw new Error(`StateSync: no readResource handler for "${params.uri}".`);
+            return upstream.readResource(params.uri, extra);
+        });
 
-            if (invalidations.length > 0) {
-                return decorateResponse(result, invalidations, name);
-            }
+        server.setRequestHandler(SubscribeRequestSchema, (request: unknown, extra: unknown) => {
+            const { uri } = (request as ResourceRequest).params;
+            return andThen(upstream.subscribeResource?.(uri, extra), () => {
+                this.subscriptions.add(uri);
+                return {};
+            });
+        });
 
-            return result;
+        server.setRequestHandler(UnsubscribeRequestSchema, (request: unknown, extra: unknown) => {
+            const { uri } = (request as ResourceRequest).params;
+            this.subscriptions.delete(uri);
+            return andThen(upstream.unsubscribeResource?.(uri, extra), () => ({}));
         });
     }
+
+    /**
+     * The `tools/call` pipeline: resolve → guard → upstream (or memo) →
+     * invalidate → decorate → deliver pending external invalidations →
+     * record the read → report expired `max-calls=N` reads.
+     */
+    private async handleCall(
+        upstream: Upstream,
+        params: CallToolParams['params'],
+        extra: unknown,
+        span: SpanLike | undefined,
+    ): Promise<McpCallResult> {
+        const { name, arguments: args = {} } = params;
+        const startedAt = performance.now();
+        const session = this.sessions.touch(resolveSessionId(extra));
+        this.sessions.countCall(session);
+
+        const engine = this.policyEngine;
+        const readVersion = this.versions.current;
+        span?.setAttribute(SPAN_ATTRIBUTES.session, session.id);
+
+        // A failed definition lookup never reached the tool: no policy, nothing to invalidate
+        let policy: ResolvedPolicy | null = null;
+        let staleReads: string[] = [];
+        let result: McpCallResult;
+        let upstreamMs: number | undefined;
+        let thrown = false;
+        try {
+            const tool = await this.findTool(upstream, name);
+            policy = engine.resolve(name, tool);
+            this.logResolution(engine, name, tool, policy, transportSessionId(extra));
+            if (policy?.cacheControl) span?.setAttribute(SPAN_ATTRIBUTES.cacheControl, policy.cacheControl);
+
+            staleReads = this.findStaleReads(session, policy, args);
+            ({ result, upstreamMs } = staleReads.length > 0
+                ? { result: rejectStaleWrite(name, staleReads, this.messages) }
+                : await this.callUpstream(upstream, policy, name, args, extra, session.id));
+        } catch (error) {
+            const kind = classifyUpstreamError(error);
+            span?.recordException(error instanceof Error ? error : String(error));
+            span?.setStatus({ code: SPAN_STATUS_ERROR, message: `upstream ${kind}` });
+            this.events.emit('upstreamError', { tool: name, sessionId: session.id, kind, error });
+            result = upstreamFailure(name, error, this.messages);
+            thrown = true;
+        }
+
+        const isError = result.isError ?? false;
+        const succeeded = writeSucceeded(policy, result);
+        const invalidations = staleReads.length > 0
+            ? []
+            : resolveInvalidations(policy, !succeeded, args, thrown);
+
+        const records: InvalidationMeta[] = [];
+        if (invalidations.length > 0) {
+            const version = this.versions.bump(invalidations);
+            this.resultCache?.evict(invalidations);
+            this.events.emit('invalidated', { patterns: invalidations, causedBy: name, sessionId: session.id });
+            void this.resourcesUpdated(invalidations);
+            const partialFailure = !succeeded && failureMode(policy, thrown) === 'invalidate-with-warning';
+            records.push({
+                invalidated: invalidations,
+                causedBy: name,
+                version,
+                timestamp: new Date().toISOString(),
+                ...(partialFailure && { partialFailure: true as const }),
+            });
+            // The warning concerns the caller's own write: never narrowed away
+            result = partialFailure
+                ? this.decorateText(result, r => decoratePartialFailure(r, invalidations, name, this.messages))
+                : this.decorate(result, session, invalidations, name);
+        }
+
+        // External invalidations go first, oldest at index 0
+        const pending = this.sessions.drain(session);
+        for (let i = pending.length - 1; i >= 0; i--) {
+            result = this.decorate(result, session, pending[i].patterns, pending[i].causedBy);
+        }
+        records.unshift(...pending.map(({ patterns, causedBy, version, timestamp }) => ({
+            invalidated: patterns, causedBy, version, timestamp,
+        })));
+
+        // Only reads enter the ledger — a write's own response is not cached state
+        if (!isError && !policy?.invalidates?.length) {
+            this.sessions.recordRead(session, name, args, readVersion, parseMaxCalls(policy?.cacheControl));
+        }
+
+        // Reads past their max-calls=N budget — never this call's own read
+        const expired = this.sessions.expire(session);
+        if (expired.length > 0) result = this.decorateText(result, r => decorateExpiry(r, expired, this.messages));
+
+        if (this.metaChannel) {
+            result = decorateCallMeta(result, {
+                invalidations: records,
+                expired: expired.map(read => ({ tool: read.name, maxCalls: read.maxCalls ?? 0 })),
+            });
+        }
+
+        span?.setAttribute(SPAN_ATTRIBUTES.invalidated, invalidations);
+        span?.setAttribute(SPAN_ATTRIBUTES.isError, isError);
+        this.events.emit('callCompleted', {
+            tool: name,
+            sessionId: session.id,
+            durationMs: performance.now() - startedAt,
+            ...(upstreamMs !== undefined && { upstreamMs }),
+            isError,
+            policy,
+        });
+        return result;
+    }
+
+    /**
+     * Swap the PolicyEngine used for every subsequent request and send
+     * `notifications/tools/list_changed` so the client re-fetches the
+     * re-decorated descriptions. In-flight calls finish with the policy
+     * they resolved when they started.
+     */
+    async updatePolicyEngine(policyEngine: PolicyEngine): Promise<void> {
+        this.policyEngine = policyEngine;
+        await this.notify({ method: 'notifications/tools/list_changed' });
+    }
+
+    /**
+     * Tool definition for annotation inference. Calls made before the
+     * first `tools/list` (or for tools added since) refresh the lookup
+     * from the upstream.
+     */
+    private async findTool(upstream: Upstream, name: string): Promise<McpToolDef | undefined> {
+        if (!this.policyEngine.needsToolDefinition) return undefined;
+        if (!this.tools.has(name)) {
+            const { tools } = await upstream.listTools();
+            this.tools = new Map(tools.map(tool => [tool.name, tool]));
+        }
+        return this.tools.get(name);
+    }
+
+    /**
+     * Emit a `debug` log of the resolved policy, with the resolution trace
+     * when `debug` is `'trace'`. Fire-and-forget: never delays the call.
+     */
+    private logResolution(
+        engine: PolicyEngine,
+        name: string,
+        tool: McpToolDef | undefined,
+        policy: ResolvedPolicy | null,
+        sessionId: string | undefined,
+    ): void {
+        if (!this.debug) return;
+
+        void this.log({
+            level: 'debug',
+            logger: LOGGER_NAME,
+            data: {
+                event: 'resolved',
+                tool: name,
+                policy,
+                ...(this.debug === 'trace' && { trace: engine.explain(name, tool) }),
+            },
+        }, sessionId);
+    }
+
+    /**
+     * For policies with `rejectStaleWrites`: the session's reads (tool and
+     * arguments) of the write's target domains that were invalidated after
+     * being read.
+     */
+    private findStaleReads(
+        session: SessionState,
+        policy: ResolvedPolicy | null,
+        args: Record<string, unknown>,
+    ): string[] {
+        if (!policy?.rejectStaleWrites) return [];
+
+        const targets = resolveInvalidations(policy, false, args);
+        const stale = this.sessions.findStaleReads(session, targets, this.versions);
+        return [...new Set(stale.map(read => describeRead(read.name, read.args)))];
+    }
+
+    /**
+     * Prepend a System block, narrowed to the session's read ledger
+     * when read tracking is enabled. Nothing is prepended when no
+     * invalidated domain was read by this session. Narrowing still marks
+     * the session's reads stale when the text channel is off.
+     */
+    private decorate(
+        result: McpCallResult,
+        session: SessionState,
+        patterns: readonly string[],
+        causedBy: string,
+    ): McpCallResult {
+        const shown = this.trackReads ? this.sessions.narrow(session, patterns) : patterns;
+        if (shown.length === 0) return result;
+        return this.decorateText(result, r => decorateResponse(r, shown, causedBy, this.messages));
+    }
+
+    /** Apply a text decoration only when the text channel is enabled. */
+    private decorateText(result: McpCallResult, decorate: (result: McpCallResult) => McpCallResult): McpCallResult {
+        return this.textChannel ? decorate(result) : result;
+    }
+
+    /** Description suffix and/or `_meta` directive of a listed tool or resource, per channel. */
+    private decorateEntry<T extends Pick<McpToolDef, 'description' | '_meta'>>(
+        tool: T,
+        policy: ResolvedPolicy | null,
+    ): T {
+        const described = this.textChannel ? decorateDescription(tool, policy, this.messages) : tool;
+        return this.metaChannel ? decorateToolMeta(described, policy) : described;
+    }
+
+    /**
+     * Call the upstream, serving `immutable` tools from the ResultCache
+     * (partitioned by session) when memoization is enabled and the policy
+     * does not opt out.
+     * Failed results are never memoized. `upstreamMs` is set only when
+     * the upstream was actually called. Upstream calls run under the
+     * policy's `timeoutMs` and the request's abort signal.
+     */
+    private async callUpstream(
+        upstream: Upstream,
+        policy: ResolvedPolicy | null,
+        name: string,
+        args: Record<string, unknown>,
+        extra: unknown,
+        sessionId: string,
+    ): Promise<{ result: McpCallResult; upstreamMs?: number }> {
+        const cache = this.resultCache;
+        const memoize = policy?.cacheControl === 'immutable' && policy.memoize !== false;
+
+        const cached = memoize ? cache?.get(name, args, sessionId) : undefined;
+        if (cached) return { result: cached };
+
+        const startedAt = performance.now();
+        const result = await withDeadline(
+            signal => upstream.callTool(name, args, signal ? { ...(extra as object), signal } : extra),
+            { timeoutMs: policy?.timeoutMs, signal: resolveAbortSignal(extra) },
+        );
+        const upstreamMs = performance.now() - startedAt;
+
+        if (memoize && !result.isError) cache?.set(name, args, result, sessionId);
+        return { result, upstreamMs };
+    }
+
+    /**
+     * Push an external invalidation to the attached client via the MCP
+     * `notifications/message` channel, plus `notifications/resources/updated`
+     * for invalidated subscribed resources. Delivery is best-effort: servers
+     * without the logging capability or without a connection are skipped.
+     */
+    async notifyInvalidation(patterns: readonly string[], causedBy: string): Promise<void> {
+        await Promise.all([
+            this.log({
+                level: 'info',
+                logger: LOGGER_NAME,
+                data: { event: 'invalidated', invalidated: [...patterns], causedBy },
+            }),
+            this.notifyResourcesUpdated(patterns),
+        ]);
+    }
+
+    /** Send `notifications/resources/updated` for every subscribed URI the patterns cover. */
+    async notifyResourcesUpdated(patterns: readonly string[]): Promise<void> {
+        const updated = [...this.subscriptions].filter(uri => matchResourceInvalidations(patterns, uri));
+        await Promise.all(updated.map(uri => this.notify({
+            method: 'notifications/resources/updated',
+            params: { uri },
+        })));
+    }
+
+    /**
+     * Send `notifications/message` through `sendLoggingMessage`, so messages
+     * below the client's `logging/setLevel` are dropped. Servers without it
+     * (duck-typed) get a plain notification.
+     */
+    private async log(
+        params: { level: string; logger: string; data: unknown },
+        sessionId?: string,
+    ): Promise<void> {
+        if (!this.server?.sendLoggingMessage) {
+            await this.notify({ method: 'notifications/message', params });
+            return;
+        }
+
+        try {
+            await this.server.sendLoggingMessage(params, sessionId);
+        } catch {
+            // Not connected — delivery is best-effort
+        }
+    }
+
+    /** Send a notification to the attached client, if connected. */
+    private async notify(notification: { method: string; params?: Record<string, unknown> }): Promise<void> {
+        if (!this.server?.notification) return;
+
+        try {
+            await this.server.notification(notification);
+        } catch {
+            // Not connected or capability not enabled — delivery is best-effort
+        }
+    }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * The transport's session id (`extra.sessionId`) — the key the SDK stores
+ * the client's logging level under. `undefined` for stdio.
+ */
+function transportSessionId(extra: unknown): string | undefined {
+    const sessionId = (extra as { sessionId?: unknown } | undefined)?.sessionId;
+    return typeof sessionId === 'string' ? sessionId : undefined;
+}
+
+/** Apply `fn` to a value or a promise of it, staying synchronous for plain values. */
+function andThen<T, R>(value: T | Promise<T>, fn: (value: T) => R): R | Promise<R> {
+    return value instanceof Promise ? value.then(fn) : fn(value);
 }
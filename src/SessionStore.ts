@@ -0,0 +1,238 @@
+/**
+ * SessionStore — Per-Session Invalidation State
+ *
+ * Single responsibility: hold per-MCP-session state, keyed by the
+ * session id found in the request handler's `extra` argument.
+ *
+ * Tracks, for each session:
+ * - external invalidations not yet delivered to its next `tools/call`
+ * - a read ledger of the tool results the LLM has seen, used to narrow
+ *   System blocks to domains the session actually read and to detect
+ *   writes based on stale reads
+ * - a tool call counter, the clock of `max-calls=N` directives
+ *
+ * Sessions are isolated from each other and dropped after inactivity.
+ */
+import { LruCache } from './LruCache.js';
+import { canonicalize } from './ResultCache.js';
+import { matchInvalidation, matchInvalidations, isExclusion } from './InvalidationTemplate.js';
+import type { DomainVersions } from './DomainVersions.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** An invalidation waiting to be delivered to a session. */
+export interface PendingInvalidation {
+    readonly patterns: readonly string[];
+    readonly causedBy: string;
+    /** Domain version issued by the invalidation. */
+    readonly version: number;
+    /** When the invalidation happened (ISO 8601). */
+    readonly timestamp: string;
+}
+
+/** A tool result the LLM has seen in a session. */
+export interface ReadRecord {
+    readonly name: string;
+    readonly args: Record<string, unknown>;
+    /** Domain version at the time of the read (see DomainVersions). */
+    readonly version: number;
+    /** Set once the session has been told this read is stale. */
+    stale: boolean;
+    /** Session call counter at the time of the read. */
+    readonly call: number;
+    /** N of a `max-calls=N` directive, if the tool has one. */
+    readonly maxCalls?: number;
+    /** Set once the session has been told this read exceeded `maxCalls`. */
+    expired: boolean;
+}
+
+/** Mutable state of a single MCP session. */
+export interface SessionState {
+    readonly id: string;
+    /** External invalidations not yet delivered, oldest first. */
+    readonly pending: PendingInvalidation[];
+    /** Read ledger, keyed by tool name + canonicalized arguments. */
+    readonly reads: LruCache<string, ReadRecord>;
+    /** Number of `tools/call` requests made in this session. */
+    calls: number;
+    /** Timestamp (ms) of the last request in this session. */
+    lastSeen: number;
+}
+
+/** SessionStore construction options. */
+export interface SessionStoreOptions {
+    /** Inactivity window after which a session is dropped. Default: 30 minutes. */
+    readonly ttlMs?: number;
+    /** Clock source, injectable for tests. Default: `Date.now`. */
+    readonly now?: () => number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+/** Session key used when the transport carries no session id (e.g. stdio). */
+export const DEFAULT_SESSION_ID = 'default';
+
+/** Default inactivity window: 30 minutes. */
+export const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+
+/** Upper bound on distinct reads remembered per session. */
+const MAX_READS_PER_SESSION = 1000;
+
+// ── Session Id Resolution ───────────────────────────────────────────
+
+/**
+ * Resolve the MCP session id from a request handler's `extra` argument.
+ * Falls back to {@link DEFAULT_SESSION_ID} for single-session transports.
+ */
+export function resolveSessionId(extra: unknown): string {
+    if (extra && typeof extra === 'object') {
+        const sessionId = (extra as Record<string, unknown>).sessionId;
+        if (typeof sessionId === 'string' && sessionId) return sessionId;
+    }
+    return DEFAULT_SESSION_ID;
+}
+
+// ── SessionStore ────────────────────────────────────────────────────
+
+export class SessionStore {
+    private readonly sessions = new Map<string, SessionState>();
+    private readonly ttlMs: number;
+    private readonly now: () => number;
+    private lastSweep: number;
+
+    constructor(options: SessionStoreOptions = {}) {
+        const ttlMs = options.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+        if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+            throw new Error(`SessionStore: ttlMs must be a positive number, received ${ttlMs}.`);
+        }
+        this.ttlMs = ttlMs;
+        this.now = options.now ?? Date.now;
+        this.lastSweep = this.now();
+    }
+
+    /** Number of live sessions. */
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Get the state for a session, creating it on first sight.
+     * Refreshes the session's activity and drops expired sessions.
+     */
+    touch(id: string): SessionState {
+        const now = this.now();
+        this.sweep(now);
+
+        let session = this.sessions.get(id);
+        if (!session || now - session.lastSeen > this.ttlMs) {
+            session = { id, pending: [], reads: new LruCache(MAX_READS_PER_SESSION), calls: 0, lastSeen: now };
+            this.sessions.set(id, session);
+        }
+        session.lastSeen = now;
+        return session;
+    }
+
+    /**
+     * Queue an invalidation for every known session.
+     * Sessions that appear later have not read anything yet and need no notice.
+     */
+    enqueue(invalidation: PendingInvalidation): void {
+        for (const session of this.sessions.values()) {
+            session.pending.push(invalidation);
+        }
+    }
+
+    /** Remove and return all pending invalidations for a session. */
+    drain(session: SessionState): PendingInvalidation[] {
+        return session.pending.splice(0, session.pending.length);
+    }
+
+    /** Count a `tools/call` of the session. Returns the new count. */
+    countCall(session: SessionState): number {
+        return ++session.calls;
+    }
+
+    /**
+     * Record that the LLM has seen the result of a tool call, as of
+     * `version` and the session's current call count. `maxCalls` is the
+     * N of the tool's `max-calls=N` directive, if any.
+     */
+    recordRead(
+        session: SessionState,
+        name: string,
+        args: Record<string, unknown>,
+        version: number = 0,
+        maxCalls?: number,
+    ): void {
+        session.reads.set(`${name}\u0000${canonicalize(args)}`, {
+            name,
+            args,
+            version,
+            stale: false,
+            call: session.calls,
+            ...(maxCalls !== undefined && { maxCalls }),
+            expired: false,
+        });
+    }
+
+    /**
+     * Find reads with a `max-calls=N` directive made N or more calls ago.
+     * They are marked expired, so each read is reported only once until
+     * it is read again. Reads already reported as invalidated are skipped.
+     */
+    expire(session: SessionState): ReadRecord[] {
+        const expired: ReadRecord[] = [];
+        for (const [, read] of session.reads) {
+            if (read.maxCalls === undefined || read.expired || read.stale) continue;
+            if (session.calls - read.call < read.maxCalls) continue;
+            read.expired = true;
+            expired.push(read);
+        }
+        return expired;
+    }
+
+    /**
+     * Find reads of the session covered by `patterns` that are older than
+     * the current version of their domain.
+     */
+    findStaleReads(
+        session: SessionState,
+        patterns: readonly string[],
+        versions: DomainVersions,
+    ): ReadRecord[] {
+        const stale: ReadRecord[] = [];
+        for (const [, read] of session.reads) {
+            if (!matchInvalidations(patterns, read.name, read.args)) continue;
+            if (versions.versionOf(read.name, read.args) > read.version) stale.push(read);
+        }
+        return stale;
+    }
+
+    /**
+     * Narrow invalidation patterns to those covering a read the session
+     * has seen since its last invalidation. Covered reads are marked stale
+     * so the same read is reported only once until it is read again.
+     * Exclusions (`!glob`) are kept alongside any kept pattern.
+     */
+    narrow(session: SessionState, patterns: readonly string[]): string[] {
+        const covered = [...session.reads]
+            .map(([, read]) => read)
+            .filter(read => !read.stale && matchInvalidations(patterns, read.name, read.args));
+        const kept = patterns.filter(p =>
+            !isExclusion(p) && covered.some(read => matchInvalidation(p, read.name, read.args)),
+        );
+
+        for (const read of covered) read.stale = true;
+        return kept.length > 0 ? [...kept, ...patterns.filter(isExclusion)] : [];
+    }
+
+    /** Drop sessions idle for longer than the TTL. Runs at most once per TTL. */
+    private sweep(now: number): void {
+        if (now - this.lastSweep < this.ttlMs) return;
+        this.lastSweep = now;
+
+        for (const [id, session] of this.sessions) {
+            if (now - session.lastSeen > this.ttlMs) this.sessions.delete(id);
+        }
+    }
+}
@@ -4,9 +4,19 @@
  * The single entry point for the mcp-state-sync package.
  * Constructs internal components from config and delegates to ServerWrapper.
  *
- * Supports two modes:
+ * Supports three modes:
  * - Fusion mode: `attachToServer(server, registry, options?)`
  * - Manual mode: `attachToServer(server, upstreamConfig)`
+ * - Proxy mode:  `attachToServer(server, client)` — in front of another MCP server
+ *
+ * Every mode returns a function that detaches the server again; servers
+ * are detached automatically when their connection closes, so one Server
+ * per session does not accumulate.
+ *
+ * External changes (cron jobs, webhooks, other users) are reported via
+ * `invalidate(patterns, { reason })`. Runtime events are observable via
+ * `on(event, listener)`. Policies can be replaced at runtime
+ * with `updatePolicies(config)` or `watchConfig(path)`.
  */
 import { PolicyEngine } from './PolicyEngine.js';
 import { ServerWrapper } from './ServerWrapper.js';
@@ -15,14 +25,74 @@ import {
     createFusionUpstream,
     createManualUpstream,
 } from './UpstreamFactory.js';
+import { isClient, createProxyUpstream } from './ProxyUpstream.js';
+import type { McpClientLike } from './ProxyUpstream.js';
+import { SessionStore } from './SessionStore.js';
+import { ResultCache, DEFAULT_MAX_ENTRIES } from './ResultCache.js';
+import { DomainVersions } from './DomainVersions.js';
+import {
+    validateChannels,
+    validateMemoize,
+    validateMessages,
+    validateSessions,
+    validateSyncConfig,
+} from './PolicyValidator.js';
+import { resolveMessages } from './Messages.js';
+import { watchSyncConfig } from './ConfigWatcher.js';
+import { SyncEventEmitter } from './SyncEvents.js';
+import type { SyncEventMap, SyncEventListener } from './SyncEvents.js';
+import type { TracerLike } from './Tracing.js';
+import type { WatchConfigOptions, ConfigWatcher } from './ConfigWatcher.js';
+import { parseInvalidation, renderInvalidation } from './InvalidationTemplate.js';
 import type { RegistryLike, FusionAttachOptions } from './UpstreamFactory.js';
-import type { SyncConfig, UpstreamConfig } from './types.js';
+import type {
+    SyncConfig,
+    StateSyncOptions,
+    UpstreamConfig,
+    InvalidateOptions,
+    ChannelsConfig,
+    MessageTemplates,
+} from './types.js';
+
+/** `causedBy` label for external invalidations without a reason. */
+const EXTERNAL_CAUSE = 'external change';
 
 export class StateSync {
-    private readonly policyEngine: PolicyEngine;
+    private policyEngine: PolicyEngine;
+    private readonly sessions: SessionStore;
+    private readonly trackReads: boolean;
+    private readonly resultCache: ResultCache | undefined;
+    private readonly versions = new DomainVersions();
+    private readonly wrappers: ServerWrapper[] = [];
+    private readonly debug: boolean | 'trace';
+    private readonly events = new SyncEventEmitter();
+    private readonly tracer: TracerLike | undefined;
+    private readonly resolutionCacheSize: number | undefined;
+    private readonly channels: ChannelsConfig | undefined;
+    private readonly messages: MessageTemplates;
+
+    constructor(config: SyncConfig, options: StateSyncOptions = {}) {
+        this.resolutionCacheSize = options.resolutionCacheSize;
+        this.policyEngine = createPolicyEngine(config, this.resolutionCacheSize);
+
+        validateSessions(config.sessions);
+        this.sessions = new SessionStore({ ttlMs: config.sessions?.ttlMs });
+        this.trackReads = config.sessions?.trackReads ?? false;
+
+        validateChannels(config.channels);
+        this.channels = config.channels;
+
+        validateMessages(config.messages);
+        this.messages = resolveMessages(config.messages);
+
+        validateMemoize(config.memoize);
+        if (config.memoize) {
+            const { maxEntries = DEFAULT_MAX_ENTRIES, scope } = config.memoize === true ? {} : config.memoize;
+            this.resultCache = new ResultCache(maxEntries, scope);
+        }
 
-    constructor(config: SyncConfig) {
-        this.policyEngine = new PolicyEngine(config.policies, config.defaults);
+        this.debug = options.debug ?? false;
+        this.tracer = options.tracer;
     }
 
     /**
@@ -37,7 +107,7 @@ export class StateSync {
      * sync.attachToServer(server, registry);
      * ```
      */
-    attachToServer(server: unknown, registry: RegistryLike, options?: FusionAttachOptions): void;
+    attachToServer(server: unknown, registry: RegistryLike, options?: FusionAttachOptions): () => void;
 
     /**
      * Attach StateSync to an MCP Server with manual tool definitions.
@@ -53,18 +123,183 @@ export class StateSync {
      * });
      * ```
      */
-    attachToServer(server: unknown, upstream: UpstreamConfig): void;
+    attachToServer(server: unknown, upstream: UpstreamConfig): () => void;
+
+    /**
+     * Attach StateSync as a transparent proxy in front of another MCP
+     * server, reached through a connected MCP `Client` (stdio child
+     * process, in-memory or any other transport).
+     *
+     * `tools/*` and `resources/*` are decorated and invalidated as in the
+     * other modes; prompts, completions, the logging level and upstream
+     * notifications pass through. Declare the upstream's capabilities on
+     * `server`.
+     *
+     * @example
+     * ```typescript
+     * const client = new Client({ name: 'state-sync-proxy', version: '1.0.0' });
+     * await client.connect(new StdioClientTransport({ command: 'jira-mcp' }));
+     *
+     * const server = new Server(info, { capabilities: client.getServerCapabilities() });
+     * sync.attachToServer(server, client);
+     * ```
+     *
+     * @throws Error if the client is not connected
+     */
+    attachToServer(server: unknown, client: McpClientLike): () => void;
 
     attachToServer(
         server: unknown,
-        source: RegistryLike | UpstreamConfig,
+        source: RegistryLike | UpstreamConfig | McpClientLike,
         options?: FusionAttachOptions,
-    ): void {
+    ): () => void {
         const upstream = isRegistry(source)
             ? createFusionUpstream(source, options)
-            : createManualUpstream(source);
+            : isClient(source)
+                ? createProxyUpstream(source)
+                : createManualUpstream(source);
+
+        const wrapper = new ServerWrapper(this.policyEngine, {
+            sessions: this.sessions,
+            resultCache: this.resultCache,
+            trackReads: this.trackReads,
+            versions: this.versions,
+            debug: this.debug,
+            events: this.events,
+            tracer: this.tracer,
+            channels: this.channels,
+            messages: this.messages,
+            resourcesUpdated: async patterns => {
+                await Promise.all(this.wrappers.map(w => w.notifyResourcesUpdated(patterns)));
+            },
+        });
+        const detach = (): void => {
+            const index = this.wrappers.indexOf(wrapper);
+            if (index !== -1) this.wrappers.splice(index, 1);
+        };
+        wrapper.attach(server, upstream, detach);
+        this.wrappers.push(wrapper);
+        return detach;
+    }
+
+    /**
+     * Invalidate domains because of a change made outside the LLM
+     * (cron job, webhook, another user).
+     *
+     * The invalidation is queued as a System block for the next `tools/call`
+     * response of every known session, pushed to connected clients via
+     * `notifications/message`, and evicts matching memoized results.
+     * Domain versions are bumped, so guarded writes based on earlier reads
+     * are rejected until the model re-reads. Argument references
+     * (`$args.x`) have no call to read from and fall back to their coarse
+     * glob.
+     *
+     * @example
+     * ```typescript
+     * await sync.invalidate(['orders.*'], { reason: 'nightly import' });
+     * ```
+     *
+     * @throws Error if a pattern is empty or malformed
+     */
+    async invalidate(patterns: readonly string[], options?: InvalidateOptions): Promise<void> {
+        for (const pattern of patterns) {
+            if (!pattern || typeof pattern !== 'string') {
+                throw new Error('StateSync.invalidate: patterns must be non-empty strings.');
+            }
+            try {
+                parseInvalidation(pattern);
+            } catch (err) {
+                throw new Error(`StateSync.invalidate: ${(err as Error).message}`);
+            }
+        }
+        if (patterns.length === 0) return;
+
+        const rendered = [...new Set(patterns.map(p => renderInvalidation(p, {})))];
+        const causedBy = options?.reason ?? EXTERNAL_CAUSE;
+
+        const version = this.versions.bump(rendered);
+        this.resultCache?.evict(rendered);
+        this.sessions.enqueue({ patterns: rendered, causedBy, version, timestamp: new Date().toISOString() });
+        this.events.emit('invalidated', { patterns: rendered, causedBy });
+        await Promise.all(this.wrappers.map(w => w.notifyInvalidation(rendered, causedBy)));
+    }
 
-        const wrapper = new ServerWrapper(this.policyEngine);
-        wrapper.attach(server, upstream);
+    /**
+     * Listen to a lifecycle event. Returns a function that removes the listener.
+     *
+     * - `toolsListed` — tools of a `tools/list` response with their policies
+     * - `callCompleted` — tool, session, duration, `isError` and policy of a `tools/call`
+     * - `invalidated` — patterns and cause of every invalidation (write or external)
+     * - `upstreamError` — the upstream threw instead of returning a result
+     *
+     * Listeners run synchronously and are isolated: a throwing or rejecting
+     * listener never fails the request.
+     *
+     * @example
+     * ```typescript
+     * sync.on('callCompleted', e => metrics.observe(e.tool, e.durationMs));
+     * ```
+     */
+    on<E extends keyof SyncEventMap>(event: E, listener: SyncEventListener<E>): () => void {
+        return this.events.on(event, listener);
     }
+
+    /** Remove a listener registered with `on`. */
+    off<E extends keyof SyncEventMap>(event: E, listener: SyncEventListener<E>): void {
+        this.events.off(event, listener);
+    }
+
+    /**
+     * Replace the active policies at runtime.
+     *
+     * The new config is fully validated before anything changes — on error
+     * the previous policies stay in effect. The swap is atomic: calls already
+     * in flight complete with the policy they started with, every later
+     * request uses the new one. Every attached server sends
+     * `notifications/tools/list_changed` so clients re-fetch descriptions.
+     *
+     * Only `policies`, `defaults`, `inferFromAnnotations`, `resolution` and `resources` are reloaded;
+     * `memoize`, `sessions`, `channels` and `messages` keep their construction-time values.
+     *
+     * @example
+     * ```typescript
+     * await sync.updatePolicies(await loadSyncConfig('./state-sync.yaml'));
+     * ```
+     *
+     * @throws ConfigValidationError if the config is invalid
+     */
+    async updatePolicies(config: SyncConfig): Promise<void> {
+        validateSyncConfig(config);
+        const policyEngine = createPolicyEngine(config, this.resolutionCacheSize);
+
+        this.policyEngine = policyEngine;
+        await Promise.all(this.wrappers.map(w => w.updatePolicyEngine(policyEngine)));
+    }
+
+    /**
+     * Watch a JSON/YAML config file and apply every valid change via
+     * `updatePolicies`. Invalid edits are reported to `options.onError`
+     * and leave the active policies untouched.
+     *
+     * @example
+     * ```typescript
+     * const watcher = sync.watchConfig('./state-sync.yaml', {
+     *     onError: err => console.error(err),
+     * });
+     * // later: watcher.close();
+     * ```
+     */
+    watchConfig(path: string, options?: WatchConfigOptions): ConfigWatcher {
+        return watchSyncConfig(path, config => this.updatePolicies(config), options);
+    }
+}
+
+/** Build the PolicyEngine for the policy-related part of a config. */
+function createPolicyEngine(config: SyncConfig, cacheSize?: number): PolicyEngine {
+    return new PolicyEngine(config.policies, config.defaults, {
+        inferFromAnnotations: config.inferFromAnnotations === true,
+        resolution: config.resolution,
+        resources: config.resources,
+        cacheSize,
+    });
 }
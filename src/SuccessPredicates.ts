@@ -0,0 +1,92 @@
+/**
+ * SuccessPredicates — Built-In Write Success Checks
+ *
+ * Pure functions. Single responsibility: build `SuccessPredicate`s that
+ * decide from a tool result whether a write actually happened, for
+ * upstreams that report failures in the body instead of via `isError`
+ * (`{"status":"rejected"}`, `"0 rows affected"`).
+ *
+ * Structured results are read from `structuredContent`; otherwise the
+ * first text block is parsed as JSON.
+ */
+import type { McpCallResult, SuccessPredicate } from './types.js';
+
+/** `$.data.items[0].status` / `data.items[0].status` → segments. */
+const PATH_TOKEN = /([^.[\]]+)|\[(\d+)\]/g;
+
+/**
+ * Succeeds when the value at `path` strictly equals `expected`.
+ * Paths use dots and `[index]`, with an optional leading `$.`.
+ *
+ * @example
+ * { match: 'orders.cancel', invalidates: ['orders.*'],
+ *   success: jsonPathEquals('status', 'cancelled') }
+ */
+export function jsonPathEquals(path: string, expected: unknown): SuccessPredicate {
+    const segments = parsePath(path);
+    return result => readPath(structuredBody(result), segments) === expected;
+}
+
+/**
+ * Succeeds when any text block of the result matches `pattern`.
+ *
+ * @example
+ * success: textMatches(/\b[1-9]\d* rows? affected/)
+ */
+export function textMatches(pattern: RegExp): SuccessPredicate {
+    return result => result.content.some(block =>
+        block.type === 'text' && typeof block.text === 'string' && matches(pattern, block.text),
+    );
+}
+
+/**
+ * Inverts a predicate.
+ *
+ * @example
+ * success: not(textMatches(/^0 rows affected/))
+ */
+export function not(predicate: SuccessPredicate): SuccessPredicate {
+    return result => !predicate(result);
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function parsePath(path: string): (string | number)[] {
+    const body = path.replace(/^\$\.?/, '');
+    const segments: (string | number)[] = [];
+    for (const m of body.matchAll(PATH_TOKEN)) {
+        segments.push(m[2] !== undefined ? Number(m[2]) : m[1]);
+    }
+    if (segments.length === 0) {
+        throw new Error(`jsonPathEquals: invalid path "${path}".`);
+    }
+    return segments;
+}
+
+/** `structuredContent`, or the first text block parsed as JSON. */
+function structuredBody(result: McpCallResult): unknown {
+    if (result.structuredContent !== undefined) return result.structuredContent;
+
+    const text = result.content.find(block => block.type === 'text')?.text;
+    if (typeof text !== 'string') return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+function readPath(value: unknown, segments: readonly (string | number)[]): unknown {
+    let current = value;
+    for (const segment of segments) {
+        if (!current || typeof current !== 'object') return undefined;
+        current = (current as Record<string | number, unknown>)[segment];
+    }
+    return current;
+}
+
+/** `RegExp.test` without the `lastIndex` state of global/sticky patterns. */
+function matches(pattern: RegExp, text: string): boolean {
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+}
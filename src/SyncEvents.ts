@@ -0,0 +1,104 @@
+/**
+ * SyncEvents — Typed Lifecycle Events
+ *
+ * Single responsibility: deliver runtime events (tools listed, call
+ * completed, domains invalidated, upstream failed) to listeners.
+ *
+ * Listeners run synchronously, in registration order, and are fully
+ * isolated from the request path: a listener that throws (or returns a
+ * rejected promise) is skipped, never failing the MCP request.
+ */
+import type { ResolvedPolicy } from './types.js';
+import type { UpstreamFailureKind } from './UpstreamDeadline.js';
+
+// ── Event Payloads ──────────────────────────────────────────────────
+
+/** Emitted after `tools/list` was decorated. */
+export interface ToolsListedEvent {
+    readonly tools: readonly { readonly name: string; readonly policy: ResolvedPolicy | null }[];
+}
+
+/** Emitted after every `tools/call` that produced a result. */
+export interface CallCompletedEvent {
+    readonly tool: string;
+    readonly sessionId: string;
+    /** Wall-clock duration of the whole call, including decoration (ms). */
+    readonly durationMs: number;
+    /** Time spent in the upstream (ms); absent for memoized or rejected calls. */
+    readonly upstreamMs?: number;
+    readonly isError: boolean;
+    readonly policy: ResolvedPolicy | null;
+}
+
+/** Emitted for every invalidation — from a write tool or from `sync.invalidate()`. */
+export interface InvalidatedEvent {
+    readonly patterns: readonly string[];
+    /** The write tool, or the external reason. */
+    readonly causedBy: string;
+    /** The session of the write; `undefined` for external invalidations. */
+    readonly sessionId?: string;
+}
+
+/**
+ * Emitted when the upstream throws, times out or is cancelled instead of
+ * returning a result. The call still completes with an `isError` result.
+ */
+export interface UpstreamErrorEvent {
+    readonly tool: string;
+    readonly sessionId: string;
+    readonly kind: UpstreamFailureKind;
+    readonly error: unknown;
+}
+
+/** Event name → payload. */
+export interface SyncEventMap {
+    readonly toolsListed: ToolsListedEvent;
+    readonly callCompleted: CallCompletedEvent;
+    readonly invalidated: InvalidatedEvent;
+    readonly upstreamError: UpstreamErrorEvent;
+}
+
+/** A listener for event `E`. */
+export type SyncEventListener<E extends keyof SyncEventMap> =
+    (event: SyncEventMap[E]) => void | Promise<void>;
+
+// ── SyncEventEmitter ────────────────────────────────────────────────
+
+export class SyncEventEmitter {
+    private readonly listeners = new Map<keyof SyncEventMap, Set<SyncEventListener<never>>>();
+
+    /**
+     * Register a listener. Returns a function that removes it.
+     */
+    on<E extends keyof SyncEventMap>(event: E, listener: SyncEventListener<E>): () => void {
+        let set = this.listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(event, set);
+        }
+        set.add(listener as SyncEventListener<never>);
+        return () => this.off(event, listener);
+    }
+
+    /** Remove a listener registered with `on`. */
+    off<E extends keyof SyncEventMap>(event: E, listener: SyncEventListener<E>): void {
+        this.listeners.get(event)?.delete(listener as SyncEventListener<never>);
+    }
+
+    /** Deliver an event to every listener. Never throws. */
+    emit<E extends keyof SyncEventMap>(event: E, payload: SyncEventMap[E]): void {
+        const set = this.listeners.get(event);
+        if (!set) return;
+
+        for (const listener of [...set] as SyncEventListener<E>[]) {
+            try {
+                const result = listener(payload);
+                if (result && typeof result.catch === 'function') {
+                    result.catch(() => { /* isolated from the request path */ });
+                }
+            } catch {
+                // Isolated from the request path
+            }
+        }
+    }
+}
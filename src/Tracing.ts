@@ -0,0 +1,43 @@
+/**
+ * Tracing — Minimal OpenTelemetry-Compatible Tracer Interface
+ *
+ * Types and constants only. StateSync creates one span per `tools/call`
+ * through this interface, so any OpenTelemetry `Tracer`
+ * (`trace.getTracer('mcp-state-sync')`) can be passed in without this
+ * package depending on an OTel SDK.
+ */
+
+/** Span attribute value (subset of OTel `AttributeValue`). */
+export type SpanAttributeValue = string | number | boolean | readonly string[];
+
+/** The part of an OTel `Span` StateSync uses. */
+export interface SpanLike {
+    setAttribute(key: string, value: SpanAttributeValue): unknown;
+    /** OTel status codes: 0 unset, 1 ok, 2 error. */
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error | string): unknown;
+    end(): void;
+}
+
+/** The part of an OTel `Tracer` StateSync uses. */
+export interface TracerLike {
+    startSpan(
+        name: string,
+        options?: { attributes?: Record<string, SpanAttributeValue> },
+    ): SpanLike;
+}
+
+/** Name of the span created for every `tools/call`. */
+export const CALL_SPAN_NAME = 'mcp-state-sync tools/call';
+
+/** Attribute keys set on the `tools/call` span. */
+export const SPAN_ATTRIBUTES = {
+    tool: 'mcp.tool.name',
+    session: 'mcp.session.id',
+    cacheControl: 'state_sync.cache_control',
+    invalidated: 'state_sync.invalidated',
+    isError: 'state_sync.is_error',
+} as const;
+
+/** OTel `SpanStatusCode.ERROR`. */
+export const SPAN_STATUS_ERROR = 2;
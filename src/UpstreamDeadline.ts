@@ -0,0 +1,82 @@
+/**
+ * UpstreamDeadline — Timeouts and Cancellation of Upstream Calls
+ *
+ * Single responsibility: run an upstream call under the policy's
+ * `timeoutMs` and the request's abort signal (`extra.signal`), and
+ * classify how a call that threw failed.
+ *
+ * The upstream receives a combined `AbortSignal` so it can stop work;
+ * StateSync stops waiting as soon as the signal aborts, whether or not
+ * the upstream honours it.
+ */
+
+// ── Errors ──────────────────────────────────────────────────────────
+
+/** The upstream did not settle within the policy's `timeoutMs`. */
+export class UpstreamTimeoutError extends Error {
+    constructor(readonly timeoutMs: number) {
+        super(`Upstream call timed out after ${timeoutMs} ms.`);
+        this.name = 'UpstreamTimeoutError';
+    }
+}
+
+/** The request was aborted by the client before the upstream settled. */
+export class UpstreamCancelledError extends Error {
+    constructor() {
+        super('Upstream call was cancelled.');
+        this.name = 'UpstreamCancelledError';
+    }
+}
+
+/** How an upstream call that threw failed. */
+export type UpstreamFailureKind = 'error' | 'timeout' | 'cancelled';
+
+// ── Deadline ────────────────────────────────────────────────────────
+
+/**
+ * Run `call` with the signal it should observe. Rejects with
+ * `UpstreamTimeoutError` after `timeoutMs`, or `UpstreamCancelledError`
+ * when `signal` aborts. Without either, `call` runs unchanged.
+ */
+export async function withDeadline<T>(
+    call: (signal: AbortSignal | undefined) => Promise<T>,
+    options: { readonly timeoutMs?: number; readonly signal?: AbortSignal },
+): Promise<T> {
+    const { timeoutMs, signal: parent } = options;
+    if (timeoutMs === undefined && !parent) return call(undefined);
+    if (parent?.aborted) throw new UpstreamCancelledError();
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort(new UpstreamCancelledError());
+    parent?.addEventListener('abort', cancel, { once: true });
+    const timer = timeoutMs !== undefined
+        ? setTimeout(() => controller.abort(new UpstreamTimeoutError(timeoutMs)), timeoutMs)
+        : undefined;
+
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+
+    try {
+        return await Promise.race([call(controller.signal), aborted]);
+    } finally {
+        clearTimeout(timer);
+        parent?.removeEventListener('abort', cancel);
+    }
+}
+
+/** The request's abort signal (`extra.signal` of the MCP SDK), if any. */
+export function resolveAbortSignal(extra: unknown): AbortSignal | undefined {
+    if (extra && typeof extra === 'object') {
+        const signal = (extra as Record<string, unknown>).signal;
+        if (signal instanceof AbortSignal) return signal;
+    }
+    return undefined;
+}
+
+/** Classify an error thrown by `withDeadline` or the upstream. */
+export function classifyUpstreamError(error: unknown): UpstreamFailureKind {
+    if (error instanceof UpstreamTimeoutError) return 'timeout';
+    if (error instanceof UpstreamCancelledError) return 'cancelled';
+    return 'error';
+}
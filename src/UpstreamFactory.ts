@@ -2,13 +2,17 @@
  * UpstreamFactory — Upstream Adapter Creation
  *
  * Single responsibility: create Upstream adapters for both Fusion and Manual modes.
- * Includes duck-type detection for Fusion's ToolRegistry.
+ * Includes duck-type detection for Fusion's ToolRegistry. Both modes can
+ * serve MCP resources next to the tools (`ResourceSource`).
  */
 import type {
     Upstream,
     UpstreamConfig,
+    ResourceSource,
     McpCallResult,
     McpToolDef,
+    McpResourceDef,
+    McpResourceTemplateDef,
 } from './types.js';
 
 // ── Fusion Duck-Typing ──────────────────────────────────────────────
@@ -23,8 +27,8 @@ export interface RegistryLike {
     routeCall(ctx: unknown, name: string, args: Record<string, unknown>): Promise<McpCallResult>;
 }
 
-/** Options for Fusion-mode attachment (mirrors mcp-fusion's AttachOptions). */
-export interface FusionAttachOptions {
+/** Options for Fusion-mode attachment (mirrors mcp-fusion's AttachOptions, plus resources). */
+export interface FusionAttachOptions extends ResourceSource {
     filter?: { tags?: string[]; exclude?: string[] };
     contextFactory?: (extra: unknown) => unknown;
 }
@@ -41,7 +45,7 @@ export function createFusionUpstream(
 ): Upstream {
     const { filter, contextFactory } = options ?? {};
 
-    return {
+    return withResources({
         listTools: () => ({
             tools: filter ? registry.getTools(filter) : registry.getAllTools(),
         }),
@@ -49,7 +53,7 @@ export function createFusionUpstream(
             const ctx = contextFactory ? contextFactory(extra) : undefined;
             return registry.routeCall(ctx, name, args);
         },
-    };
+    }, options ?? {});
 }
 
 /**
@@ -58,9 +62,32 @@ export function createFusionUpstream(
 export function createManualUpstream(config: UpstreamConfig): Upstream {
     const tools = [...config.tools] as McpToolDef[];
 
-    return {
+    return withResources({
         listTools: () => ({ tools }),
         callTool: (name, args, extra) => config.handler(name, args, extra),
+    }, config);
+}
+
+/**
+ * Add the resource methods when the source declares resources.
+ *
+ * @throws Error if resources are declared without a `readResource` handler
+ */
+function withResources(upstream: Upstream, source: ResourceSource): Upstream {
+    if (!source.resources && !source.resourceTemplates) return upstream;
+
+    const { readResource } = source;
+    if (typeof readResource !== 'function') {
+        throw new Error('StateSync: "resources" and "resourceTemplates" require a "readResource" handler.');
+    }
+    const resources = [...source.resources ?? []] as McpResourceDef[];
+    const resourceTemplates = [...source.resourceTemplates ?? []] as McpResourceTemplateDef[];
+
+    return {
+        ...upstream,
+        listResources: () => ({ resources }),
+        listResourceTemplates: () => ({ resourceTemplates }),
+        readResource: (uri, extra) => readResource(uri, extra),
     };
 }
 
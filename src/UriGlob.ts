@@ -0,0 +1,150 @@
+/**
+ * UriGlob — Resource URI Glob Matching (URI-Template Aware)
+ *
+ * Pure functions. Single responsibility: match MCP resource URIs — and
+ * resource URI templates — against URI globs.
+ *
+ * A URI glob starts with a scheme (`jira:`) and is split on `/`:
+ * - `*`  as a whole segment matches exactly one segment
+ * - `**` matches zero or more segments (whole segments only)
+ * - `*`  inside a segment matches any characters of that segment: `*.pdf`
+ * - `{a,b}` matches any of the alternatives within a segment
+ * - `{name}` — an RFC 6570 expression (no `,`, or starting with an operator
+ *   such as `+` or `?`) — matches like `*`, so a glob can be written as the
+ *   resource template itself: `jira://sprints/{sprintId}`
+ *
+ * Expressions in the matched URI are template variables: a template such
+ * as `jira://sprints/{sprintId}` is matched by `jira://sprints/*` (every
+ * instance is covered) but not by `jira://sprints/42`.
+ */
+import { GlobSyntaxError } from './GlobMatcher.js';
+import { LruCache } from './LruCache.js';
+
+/** URI scheme prefix (RFC 3986). Tool globs never contain `:`. */
+const SCHEME = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
+
+/** `{...}` block: a template expression or an alternation. */
+const BLOCK = /\{([^{}]*)\}/g;
+
+/** RFC 6570 operators (plus `$`, for `$args.` references). */
+const OPERATORS = '+#./;?&=,!@|$';
+
+/** Stand-in for a template variable of a matched URI; only `*` matches it. */
+const VARIABLE = '\u0000';
+
+/** Compiled segment patterns. */
+const SEGMENT_PATTERNS = new LruCache<string, RegExp>(1000);
+
+/**
+ * Whether a pattern (optionally `!`-prefixed) is a resource URI rather
+ * than a dot-separated tool glob.
+ *
+ * @example
+ * isResourcePattern('jira://sprints/*') // true
+ * isResourcePattern('sprints.*')        // false
+ */
+export function isResourcePattern(pattern: string): boolean {
+    return SCHEME.test(pattern.startsWith('!') ? pattern.slice(1) : pattern);
+}
+
+/**
+ * Check the syntax of a URI glob. Throws a `GlobSyntaxError` naming the
+ * first problem and its column; `offset` shifts columns for globs
+ * embedded in a longer string.
+ */
+export function validateUriGlob(pattern: string, offset: number = 0): void {
+    const fail = (message: string, index: number): never => {
+        throw new GlobSyntaxError(`${message} at column ${offset + index + 1}`, offset + index + 1);
+    };
+
+    if (!SCHEME.test(pattern)) fail('expected a URI scheme ("scheme:")', 0);
+
+    let braceAt = -1;
+    let segmentStart = 0;
+    for (let i = 0; i <= pattern.length; i++) {
+        const c = pattern[i];
+        if (c === '{') {
+            if (braceAt !== -1) fail('nested "{"', i);
+            braceAt = i;
+        } else if (c === '}') {
+            if (braceAt === -1) fail('unexpected "}"', i);
+            if (i === braceAt + 1) fail('empty "{}"', i);
+            braceAt = -1;
+        } else if (c === '/' || c === undefined) {
+            if (braceAt !== -1) fail('unclosed "{"', braceAt);
+            const segment = pattern.slice(segmentStart, i);
+            const doubleStar = segment.indexOf('**');
+            if (doubleStar !== -1 && segment !== '**') {
+                fail('"**" must be a whole segment', segmentStart + doubleStar);
+            }
+            segmentStart = i + 1;
+        } else if (/\s/.test(c)) {
+            fail('unexpected whitespace', i);
+        }
+    }
+}
+
+/**
+ * Match a resource URI or URI template against a URI glob.
+ *
+ * @example
+ * matchUriGlob('jira://sprints/*', 'jira://sprints/42')          // true
+ * matchUriGlob('jira://sprints/*', 'jira://sprints/{sprintId}')  // true
+ * matchUriGlob('jira://sprints/42', 'jira://sprints/{sprintId}') // false
+ * matchUriGlob('file:///docs/**', 'file:///docs/a/b.md')         // true
+ */
+export function matchUriGlob(pattern: string, uri: string): boolean {
+    const actual = uri.replace(BLOCK, VARIABLE).split('/');
+    return matchSegments(pattern.replace(BLOCK, expandBlock).split('/'), 0, actual, 0);
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Template expressions become `*`; alternations stay. */
+function expandBlock(block: string, body: string): string {
+    return isExpression(body) ? '*' : block;
+}
+
+function isExpression(body: string): boolean {
+    return !body.includes(',') || OPERATORS.includes(body[0]);
+}
+
+function matchSegments(pp: string[], pi: number, np: string[], ni: number): boolean {
+    if (pi === pp.length) return ni === np.length;
+    if (pp[pi] === '**') {
+        return matchSegments(pp, pi + 1, np, ni)
+            || (ni < np.length && matchSegments(pp, pi, np, ni + 1));
+    }
+    return ni < np.length
+        && matchSegment(pp[pi], np[ni])
+        && matchSegments(pp, pi + 1, np, ni + 1);
+}
+
+function matchSegment(segment: string, actual: string): boolean {
+    if (segment === '*') return true;
+    if (!segment.includes('*') && !segment.includes('{')) return segment === actual;
+
+    let regex = SEGMENT_PATTERNS.get(segment);
+    if (!regex) {
+        regex = compileSegment(segment);
+        SEGMENT_PATTERNS.set(segment, regex);
+    }
+    return regex.test(actual);
+}
+
+/** `report-{a,b}*` → `/^report-(?:a|b)[^/]*$/`. */
+function compileSegment(segment: string): RegExp {
+    const source = segment
+        .split(/(\{[^{}]*\}|\*)/)
+        .map(part => {
+            if (part === '*') return '[^/]*';
+            if (part.startsWith('{')) return `(?:${part.slice(1, -1).split(',').map(escape).join('|')})`;
+            return escape(part);
+        })
+        .join('');
+    return new RegExp(`^${source}$`);
+}
+
+function escape(literal: string): string {
+    return literal.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+/**
+ * bin — `mcp-state-sync` executable. Wires Cli to the current process.
+ */
+import { runCli } from './Cli.js';
+
+runCli(process.argv.slice(2), {
+    out: text => process.stdout.write(text),
+    err: text => process.stderr.write(text),
+}).then(code => {
+    process.exitCode = code;
+});
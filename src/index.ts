@@ -12,27 +12,143 @@ export { StateSync } from './StateSync.js';
 // Types
 export type {
     CacheDirective,
+    MaxCallsDirective,
     SyncPolicy,
+    PolicyMatch,
+    ToolPredicate,
     SyncConfig,
+    SuccessPredicate,
+    OnErrorMode,
+    ResolutionMode,
+    MemoizeConfig,
+    MemoizeScope,
+    SessionsConfig,
+    ChannelsConfig,
+    MessageLocale,
+    MessageParams,
+    MessageTemplate,
+    MessageTemplates,
+    MessagesConfig,
+    StateSyncOptions,
+    InvalidateOptions,
     ResolvedPolicy,
+    PolicyTrace,
+    PolicyAttempt,
     McpToolDef,
     McpCallResult,
+    McpResourceDef,
+    McpResourceTemplateDef,
+    McpReadResourceResult,
+    ResourcePolicy,
+    ResourceSource,
     Upstream,
     UpstreamConfig,
 } from './types.js';
 
 export type { FusionAttachOptions, RegistryLike } from './UpstreamFactory.js';
+export type { McpClientLike, ClientRequestOptions } from './ProxyUpstream.js';
 
 // Pure functions
-export { matchGlob } from './GlobMatcher.js';
-export { validatePolicies, validateDefaults, VALID_DIRECTIVES } from './PolicyValidator.js';
+export { matchGlob, coversGlob, explainGlobMismatch, validateGlob, GlobSyntaxError } from './GlobMatcher.js';
+export { matchUriGlob, validateUriGlob, isResourcePattern } from './UriGlob.js';
+export { matchTool, explainMatchMismatch, describeMatch } from './PolicyMatch.js';
+export {
+    validatePolicies,
+    validateDefaults,
+    validateMemoize,
+    validateSessions,
+    validateResolution,
+    validateChannels,
+    validateMessages,
+    validateResourcePolicies,
+    validateSyncConfig,
+    validateKnownKeys,
+    ConfigValidationError,
+    VALID_DIRECTIVES,
+    VALID_ON_ERROR,
+    VALID_RESOLUTION,
+    VALID_LOCALES,
+    MAX_CALLS_DIRECTIVE,
+    isValidDirective,
+    parseMaxCalls,
+} from './PolicyValidator.js';
+export type { ConfigPath } from './PolicyValidator.js';
+export { loadSyncConfig, parseSyncConfig, serializeSyncConfig, ConfigFileError } from './ConfigLoader.js';
+export { watchSyncConfig } from './ConfigWatcher.js';
+export type { WatchConfigOptions, ConfigWatcher } from './ConfigWatcher.js';
 export { decorateDescription } from './DescriptionDecorator.js';
-export { resolveInvalidations } from './CausalEngine.js';
-export { decorateResponse } from './ResponseDecorator.js';
+export {
+    resolveMessages,
+    formatMessage,
+    renderTemplate,
+    parseTemplate,
+    BUILT_IN_MESSAGES,
+    DEFAULT_MESSAGES,
+    MESSAGE_PLACEHOLDERS,
+} from './Messages.js';
+export { decorateToolMeta, decorateCallMeta, META_KEY } from './MetaDecorator.js';
+export type { ToolMeta, CallMeta, InvalidationMeta, ExpiryMeta } from './MetaDecorator.js';
+export { inferPolicy, inferPolicies } from './AnnotationInference.js';
+export { lintPolicies } from './PolicyLinter.js';
+export type { LintFinding, LintSeverity, LintCode } from './PolicyLinter.js';
+export { resolveInvalidations, writeSucceeded, failureMode } from './CausalEngine.js';
+export { upstreamFailure } from './FailureDecorator.js';
+export {
+    withDeadline,
+    classifyUpstreamError,
+    UpstreamTimeoutError,
+    UpstreamCancelledError,
+} from './UpstreamDeadline.js';
+export type { UpstreamFailureKind } from './UpstreamDeadline.js';
+export { jsonPathEquals, textMatches, not } from './SuccessPredicates.js';
+export {
+    parseInvalidation,
+    renderInvalidation,
+    matchInvalidation,
+    matchInvalidations,
+    matchResourceInvalidations,
+    isExclusion,
+} from './InvalidationTemplate.js';
+export { canonicalize } from './ResultCache.js';
+export type { ParsedInvalidation, ScopeParam } from './InvalidationTemplate.js';
+export { decorateResponse, decoratePartialFailure, decorateExpiry } from './ResponseDecorator.js';
+export { rejectStaleWrite, describeRead } from './RejectionDecorator.js';
 export { isRegistry, createFusionUpstream, createManualUpstream } from './UpstreamFactory.js';
+export { isClient, createProxyUpstream } from './ProxyUpstream.js';
 
 // Infrastructure
 export { PolicyEngine } from './PolicyEngine.js';
+export type { PolicyEngineOptions } from './PolicyEngine.js';
+export { GlobTrie } from './GlobTrie.js';
 export { ServerWrapper } from './ServerWrapper.js';
+export type { ServerWrapperOptions } from './ServerWrapper.js';
+export { ResultCache } from './ResultCache.js';
+export { LruCache } from './LruCache.js';
+export { DomainVersions } from './DomainVersions.js';
 export { resolveServer } from './ServerResolver.js';
+export { SyncEventEmitter } from './SyncEvents.js';
+export { PrometheusMetrics } from './PrometheusMetrics.js';
+export type { PrometheusMetricsOptions, SyncEventSource } from './PrometheusMetrics.js';
+export { CALL_SPAN_NAME, SPAN_ATTRIBUTES } from './Tracing.js';
+export type { TracerLike, SpanLike, SpanAttributeValue } from './Tracing.js';
+export type {
+    SyncEventMap,
+    SyncEventListener,
+    ToolsListedEvent,
+    CallCompletedEvent,
+    InvalidatedEvent,
+    UpstreamErrorEvent,
+} from './SyncEvents.js';
+export {
+    SessionStore,
+    resolveSessionId,
+    DEFAULT_SESSION_ID,
+    DEFAULT_SESSION_TTL_MS,
+} from './SessionStore.js';
+export type {
+    SessionState,
+    SessionStoreOptions,
+    PendingInvalidation,
+    ReadRecord,
+} from './SessionStore.js';
 export type { McpServerLike } from './ServerResolver.js';
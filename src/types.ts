@@ -1,25 +1,207 @@
 /**
  * mcp-state-sync — Public Types
  *
- * Minimal type surface. Binary cache vocabulary (no-store | immutable).
- * No max-age — LLMs have no clock.
+ * Minimal type surface. Cache vocabulary: no-store | immutable | max-calls=N.
+ * No max-age — LLMs have no wall clock, but tool calls are a clock the
+ * server can observe.
  */
+import type { TracerLike } from './Tracing.js';
+import type { McpServerLike } from './ServerResolver.js';
 
 // ── Cache Directives ────────────────────────────────────────────────
 
-/** Binary cache directive. LLMs have no clock — max-age is impossible. */
-export type CacheDirective = 'no-store' | 'immutable';
+/**
+ * Cache directive. LLMs have no clock — max-age is impossible — but the
+ * server counts tool calls: `max-calls=N` tolerates N further calls per
+ * session before the result is reported stale.
+ */
+export type CacheDirective = 'no-store' | 'immutable' | MaxCallsDirective;
+
+/** Call-count freshness directive, e.g. `max-calls=5`. */
+export type MaxCallsDirective = `max-calls=${number}`;
 
 // ── Policy ──────────────────────────────────────────────────────────
 
-/** A single StateSync policy rule, matched by glob pattern. */
+/** Decides from the full tool definition whether a policy applies. */
+export type ToolPredicate = (tool: McpToolDef) => boolean;
+
+/**
+ * What a policy applies to: a glob over the tool name (`"sprints.*"`), a
+ * `RegExp` tested against the tool name, or a predicate over the tool
+ * definition. Only globs can be written to config files.
+ */
+export type PolicyMatch = string | RegExp | ToolPredicate;
+
+/** A single StateSync policy rule, matched by glob, RegExp or predicate. */
 export interface SyncPolicy {
-    /** Glob pattern to match tool names. Examples: `"sprints.*"`, `"tasks.update"`, `"**"` */
-    readonly match: string;
+    /**
+     * Tools this policy applies to. Examples: `"sprints.*"`, `"**"`,
+     * `/^billing_/`, `tool => tool.annotations?.category === 'billing'`.
+     */
+    readonly match: PolicyMatch;
     /** Cache directive to apply to matching tools' descriptions. */
     readonly cacheControl?: CacheDirective;
-    /** For write tools: glob patterns of tools whose cache is invalidated on success. */
+    /**
+     * For write tools: glob patterns of tools whose cache is invalidated on success.
+     * Entries may carry an argument scope, e.g. `"tasks.get{id=$args.taskId}"`,
+     * which falls back to the coarse glob when the argument is missing.
+     * Entries starting with a URI scheme target resources:
+     * `"jira://sprints/{$args.sprintId}"`.
+     */
     readonly invalidates?: readonly string[];
+    /**
+     * Set to `false` to opt an `immutable` tool out of server-side memoization.
+     * Only relevant when `SyncConfig.memoize` is enabled.
+     */
+    readonly memoize?: boolean;
+    /**
+     * For write tools: reject the call with an `isError` result when the
+     * session's last read of an invalidated domain is older than that
+     * domain's current version (optimistic concurrency). Default: `false`.
+     */
+    readonly rejectStaleWrites?: boolean;
+    /**
+     * For write tools: decide from the result whether the write actually
+     * happened, for upstreams that report failures in the body instead of
+     * via `isError`. Returning `false` skips invalidation. Code-only — not
+     * available in JSON/YAML config files.
+     */
+    readonly success?: SuccessPredicate;
+    /**
+     * For write tools: what a failed write (`isError`, or rejected by
+     * `success`) does. Default `'skip'` assumes nothing changed; use
+     * `'invalidate'` or `'invalidate-with-warning'` for non-atomic writes
+     * that can partially apply before failing.
+     */
+    readonly onError?: OnErrorMode;
+    /**
+     * What a thrown upstream error, timeout or cancellation does — the
+     * write may or may not have been applied. Defaults to `onError`.
+     */
+    readonly onException?: OnErrorMode;
+    /**
+     * Abort the upstream call after this many milliseconds and return an
+     * `isError` result. The upstream receives an `AbortSignal` in `extra`.
+     */
+    readonly timeoutMs?: number;
+    /**
+     * With `resolution: 'accumulate'`: stop at this policy — later matching
+     * policies contribute nothing. No effect in first-match mode.
+     */
+    readonly final?: boolean;
+}
+
+/**
+ * Failed-write handling:
+ * - `skip` — no invalidation (the mutation changed nothing)
+ * - `invalidate` — invalidate as on success
+ * - `invalidate-with-warning` — invalidate, with a System block warning
+ *   that state may be partially modified
+ */
+export type OnErrorMode = 'skip' | 'invalidate' | 'invalidate-with-warning';
+
+/**
+ * How policies combine. `'first-match'`: the first matching policy is the
+ * whole answer. `'accumulate'`: every matching policy up to the first
+ * `final` one contributes — `invalidates` are merged, every other field
+ * comes from the first policy that sets it.
+ */
+export type ResolutionMode = 'first-match' | 'accumulate';
+
+/**
+ * Decides whether a write succeeded, given its (non-`isError`) result.
+ * See `jsonPathEquals`, `textMatches` and `not` for built-ins.
+ */
+export type SuccessPredicate = (result: McpCallResult) => boolean;
+
+/** Server-side memoization settings for `immutable` tools. */
+export interface MemoizeConfig {
+    /** Upper bound on memoized results (LRU eviction). Default: 1000. */
+    readonly maxEntries?: number;
+    /**
+     * Who may be served a memoized result. `'session'` keys entries by the
+     * MCP session id, so one user's results never reach another user over
+     * HTTP; `'shared'` serves every session from one entry — only for data
+     * that is identical for all callers. Default: `'session'`.
+     */
+    readonly scope?: MemoizeScope;
+}
+
+/** Partitioning of memoized results. */
+export type MemoizeScope = 'session' | 'shared';
+
+/** Per-session tracking settings. */
+export interface SessionsConfig {
+    /**
+     * Keep a per-session ledger of tool results the LLM has seen and narrow
+     * each System block to the domains the session read since their last
+     * invalidation. Default: `false` (every invalidation is reported).
+     */
+    readonly trackReads?: boolean;
+    /** Inactivity window (ms) after which session state is dropped. Default: 30 minutes. */
+    readonly ttlMs?: number;
+}
+
+/** Where StateSync reports to the client. Each channel is independent. */
+export interface ChannelsConfig {
+    /** `[Cache-Control: X]` description suffixes and `[System: ...]` blocks. Default: `true`. */
+    readonly text?: boolean;
+    /** Structured `_meta["io.vinkius/state-sync"]` on listed tools and call results. Default: `false`. */
+    readonly meta?: boolean;
+}
+
+/** A cache rule for MCP resources, matched by URI glob. */
+export interface ResourcePolicy {
+    /**
+     * Resource URIs (and URI templates) this policy applies to: a URI glob
+     * such as `"jira://sprints/*"`, `"file:///docs/**"` or the template
+     * itself, `"jira://sprints/{sprintId}"`.
+     */
+    readonly match: string;
+    /** Cache directive appended to matching resources' descriptions. */
+    readonly cacheControl: CacheDirective;
+}
+
+/** Built-in message catalogs. */
+export type MessageLocale = 'en' | 'pt-BR' | 'es';
+
+/** Interpolation values of each message, as `{name}` placeholders. Lists are pre-joined. */
+export interface MessageParams {
+    /** Description suffix. */
+    readonly cacheControl: { readonly directive: string };
+    /** System block after an invalidation. */
+    readonly invalidated: { readonly domains: string; readonly causedBy: string };
+    /** System block after a failed write that may have partially applied. */
+    readonly partialFailure: { readonly domains: string; readonly causedBy: string };
+    /** System block for reads past their `max-calls=N` budget (`tools`: `name (max-calls=N)`). */
+    readonly expired: { readonly tools: string };
+    /** `isError` result of a write based on stale reads. */
+    readonly writeRejected: { readonly tool: string; readonly reads: string };
+    /** `isError` result of an upstream that threw. */
+    readonly upstreamError: { readonly tool: string };
+    /** `isError` result of an upstream that exceeded `timeoutMs`. */
+    readonly upstreamTimeout: { readonly tool: string; readonly timeoutMs: string };
+    /** `isError` result of a call cancelled by the client. */
+    readonly upstreamCancelled: { readonly tool: string };
+}
+
+/**
+ * A message: a string with `{name}` placeholders (`{{` / `}}` for literal
+ * braces), or a function of the interpolation values (code-only).
+ */
+export type MessageTemplate<P> = string | ((params: P) => string);
+
+/** A complete message catalog. */
+export type MessageTemplates = {
+    readonly [K in keyof MessageParams]: MessageTemplate<MessageParams[K]>;
+};
+
+/** Wording of description suffixes, System blocks and StateSync's `isError` results. */
+export interface MessagesConfig {
+    /** Built-in catalog. Default: `'en'`. */
+    readonly locale?: MessageLocale;
+    /** Overrides of single messages, on top of the locale. */
+    readonly templates?: Partial<MessageTemplates>;
 }
 
 /** StateSync configuration. */
@@ -30,6 +212,54 @@ export interface SyncConfig {
     readonly defaults?: {
         readonly cacheControl?: CacheDirective;
     };
+    /**
+     * Memoize successful results of `immutable` tools on the server,
+     * keyed by tool name + canonicalized arguments. Default: disabled.
+     */
+    readonly memoize?: boolean | MemoizeConfig;
+    /** Per-session tracking (read ledger, expiry). */
+    readonly sessions?: SessionsConfig;
+    /**
+     * Derive policies from MCP tool annotations where no explicit policy
+     * applies: read-only tools get the default directive, other annotated
+     * tools invalidate their own namespace. Explicit policies always win.
+     * Default: `false`.
+     */
+    readonly inferFromAnnotations?: boolean;
+    /** How matching policies combine. Default: `'first-match'`. */
+    readonly resolution?: ResolutionMode;
+    /** Text and/or structured `_meta` output. Default: text only. */
+    readonly channels?: ChannelsConfig;
+    /** Locale and templates of the text channel. Default: English. */
+    readonly messages?: MessagesConfig;
+    /** Cache rules for `resources/list` and `resources/templates/list`, first match wins. */
+    readonly resources?: readonly ResourcePolicy[];
+}
+
+/** Runtime options of a StateSync instance (not part of the file-loadable config). */
+export interface StateSyncOptions {
+    /**
+     * Emit a `notifications/message` at level `debug` for every `tools/call`
+     * with the resolved policy. `'trace'` also attaches the
+     * `PolicyEngine.explain()` trace. Default: `false`.
+     */
+    readonly debug?: boolean | 'trace';
+    /**
+     * Tracer used to create one span per `tools/call` — any OpenTelemetry
+     * `Tracer` fits (see `TracerLike`). Default: no tracing.
+     */
+    readonly tracer?: TracerLike;
+    /**
+     * Upper bound on cached policy resolutions (LRU eviction). Raise it
+     * above the number of tools for very large registries. Default: 10000.
+     */
+    readonly resolutionCacheSize?: number;
+}
+
+/** Options for `StateSync.invalidate()`. */
+export interface InvalidateOptions {
+    /** Human-readable cause, shown as `caused by <reason>`. Default: `"external change"`. */
+    readonly reason?: string;
 }
 
 // ── Resolved Policy (internal output of PolicyEngine) ───────────────
@@ -38,6 +268,40 @@ export interface SyncConfig {
 export interface ResolvedPolicy {
     readonly cacheControl?: CacheDirective;
     readonly invalidates?: readonly string[];
+    readonly memoize?: boolean;
+    readonly rejectStaleWrites?: boolean;
+    readonly success?: SuccessPredicate;
+    readonly onError?: OnErrorMode;
+    readonly onException?: OnErrorMode;
+    readonly timeoutMs?: number;
+    /** `true` when the policy (or its `invalidates`) was inferred from tool annotations. */
+    readonly inferred?: boolean;
+}
+
+/** A policy tried before the matching one, and why it did not match. */
+export interface PolicyAttempt {
+    readonly index: number;
+    /** The policy's `match`, as rendered by `describeMatch` (`sprints.*`, `/^get_/`, `<predicate>`). */
+    readonly match: string;
+    /** Segment-level reason, e.g. `segment 2: "update" does not match "get"`. */
+    readonly reason: string;
+}
+
+/** Structured resolution trace returned by `PolicyEngine.explain()`. */
+export interface PolicyTrace {
+    readonly toolName: string;
+    /** The first matching policy, or `null` when none matched. */
+    readonly matched: { readonly index: number; readonly match: string } | null;
+    /** Every policy before `matched` (all policies when none matched), in order. */
+    readonly tried: readonly PolicyAttempt[];
+    /** With `resolution: 'accumulate'`: every policy that contributed, in order. */
+    readonly accumulated?: readonly { readonly index: number; readonly match: string }[];
+    /** Resolved fields taken from `defaults`. */
+    readonly fromDefaults: readonly (keyof ResolvedPolicy)[];
+    /** Resolved fields inferred from tool annotations. */
+    readonly fromAnnotations: readonly (keyof ResolvedPolicy)[];
+    /** The result of `resolve()` for the same tool. */
+    readonly resolved: ResolvedPolicy | null;
 }
 
 // ── MCP Protocol Types (duck-typed, no hard SDK dependency) ─────────
@@ -48,27 +312,81 @@ export interface McpToolDef {
     description?: string;
     readonly inputSchema: Record<string, unknown>;
     readonly annotations?: Record<string, unknown>;
+    readonly _meta?: Record<string, unknown>;
 }
 
 /** Minimal MCP call result (duck-typed from @modelcontextprotocol/sdk). */
 export interface McpCallResult {
     content: Array<{ type: string;[key: string]: unknown }>;
+    structuredContent?: Record<string, unknown>;
     isError?: boolean;
+    _meta?: Record<string, unknown>;
+}
+
+/** Minimal MCP resource (duck-typed from @modelcontextprotocol/sdk). */
+export interface McpResourceDef {
+    readonly uri: string;
+    readonly name: string;
+    description?: string;
+    readonly mimeType?: string;
+    readonly _meta?: Record<string, unknown>;
+}
+
+/** Minimal MCP resource template (duck-typed from @modelcontextprotocol/sdk). */
+export interface McpResourceTemplateDef {
+    /** RFC 6570 URI template, e.g. `"jira://sprints/{sprintId}"`. */
+    readonly uriTemplate: string;
+    readonly name: string;
+    description?: string;
+    readonly mimeType?: string;
+    readonly _meta?: Record<string, unknown>;
 }
 
-// ── Upstream (abstraction over Fusion / manual handlers) ────────────
+/** Minimal MCP `resources/read` result (duck-typed from @modelcontextprotocol/sdk). */
+export interface McpReadResourceResult {
+    contents: Array<{ uri: string;[key: string]: unknown }>;
+    _meta?: Record<string, unknown>;
+}
+
+// ── Upstream (abstraction over Fusion / manual / proxy) ─────────────
 
 /**
  * Upstream tool provider. Abstracts both Fusion ToolRegistry and manual handlers.
  * ServerWrapper delegates to this without knowing the upstream implementation.
+ * The resource methods are present only when the upstream exposes resources.
+ * Lists may be returned asynchronously (proxy mode).
  */
 export interface Upstream {
-    listTools(): { tools: McpToolDef[] };
+    listTools(): { tools: McpToolDef[] } | Promise<{ tools: McpToolDef[] }>;
     callTool(name: string, args: Record<string, unknown>, extra: unknown): Promise<McpCallResult>;
+    listResources?(): { resources: McpResourceDef[] } | Promise<{ resources: McpResourceDef[] }>;
+    listResourceTemplates?():
+        | { resourceTemplates: McpResourceTemplateDef[] }
+        | Promise<{ resourceTemplates: McpResourceTemplateDef[] }>;
+    readResource?(uri: string, extra: unknown): Promise<McpReadResourceResult>;
+    /** Forward `resources/subscribe` to an upstream that sends its own updates. */
+    subscribeResource?(uri: string, extra: unknown): Promise<void>;
+    /** Forward `resources/unsubscribe`. */
+    unsubscribeResource?(uri: string, extra: unknown): Promise<void>;
+    /**
+     * Register handlers for everything StateSync does not intercept
+     * (prompts, completions, notifications) on the attached server.
+     */
+    passthrough?(server: McpServerLike): void;
+}
+
+/** MCP resources served next to the tools, in Fusion or Manual mode. */
+export interface ResourceSource {
+    /** Concrete resources, listed by `resources/list`. */
+    readonly resources?: readonly McpResourceDef[];
+    /** Resource templates, listed by `resources/templates/list`. */
+    readonly resourceTemplates?: readonly McpResourceTemplateDef[];
+    /** Handler for `resources/read`. Required with `resources` or `resourceTemplates`. */
+    readonly readResource?: (uri: string, extra: unknown) => Promise<McpReadResourceResult>;
 }
 
 /** Manual upstream configuration (for use without Fusion). */
-export interface UpstreamConfig {
+export interface UpstreamConfig extends ResourceSource {
     /** MCP tool definitions. */
     readonly tools: readonly McpToolDef[];
     /** Handler invoked for every tools/call request. */
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { inferPolicy, inferPolicies } from '../src/AnnotationInference.js';
+import type { McpToolDef } from '../src/types.js';
+
+function tool(name: string, annotations?: Record<string, unknown>): McpToolDef {
+    return { name, inputSchema: { type: 'object' }, ...(annotations && { annotations }) };
+}
+
+describe('inferPolicy', () => {
+    it('gives read-only tools the default directive', () => {
+        expect(inferPolicy(tool('sprints.get', { readOnlyHint: true }), { cacheControl: 'no-store' }))
+            .toEqual({ match: 'sprints.get', cacheControl: 'no-store' });
+        expect(inferPolicy(tool('sprints.get', { readOnlyHint: true })))
+            .toEqual({ match: 'sprints.get' });
+    });
+
+    it('makes other annotated tools invalidate their own namespace', () => {
+        expect(inferPolicy(tool('sprints.create', { readOnlyHint: false })))
+            .toEqual({ match: 'sprints.create', invalidates: ['sprints.*'] });
+        expect(inferPolicy(tool('projects.sprints.delete', { destructiveHint: true })))
+            .toEqual({ match: 'projects.sprints.delete', invalidates: ['projects.sprints.*'] });
+    });
+
+    it('infers nothing without annotations', () => {
+        expect(inferPolicy(tool('sprints.create'))).toBeNull();
+    });
+
+    it('infers nothing for writes without a namespace', () => {
+        expect(inferPolicy(tool('reset', { readOnlyHint: false }))).toBeNull();
+    });
+});
+
+describe('inferPolicies', () => {
+    it('lists one policy per inferable tool, in order', () => {
+        const tools = [
+            tool('sprints.get', { readOnlyHint: true }),
+            tool('sprints.create', { idempotentHint: false }),
+            tool('legacy.call'),
+        ];
+
+        expect(inferPolicies(tools, { cacheControl: 'no-store' })).toEqual([
+            { match: 'sprints.get', cacheControl: 'no-store' },
+            { match: 'sprints.create', invalidates: ['sprints.*'] },
+        ]);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { resolveInvalidations } from '../src/CausalEngine.js';
+import { resolveInvalidations, writeSucceeded, failureMode } from '../src/CausalEngine.js';
 import type { ResolvedPolicy } from '../src/types.js';
 
 describe('resolveInvalidations', () => {
@@ -44,3 +44,102 @@ describe('resolveInvalidations', () => {
         expect(resolveInvalidations(policy, true)).toEqual([]);
     });
 });
+
+describe('resolveInvalidations — argument-scoped templates', () => {
+    const policy: ResolvedPolicy = {
+        invalidates: ['tasks.get{id=$args.taskId}', 'sprints.*'],
+    };
+
+    it('renders templates against the call arguments', () => {
+        expect(resolveInvalidations(policy, false, { taskId: 42 })).toEqual([
+            'tasks.get{id=42}', 'sprints.*',
+        ]);
+    });
+
+    it('falls back to the coarse domain when the argument is missing', () => {
+        expect(resolveInvalidations(policy, false, {})).toEqual(['tasks.get', 'sprints.*']);
+    });
+
+    it('deduplicates templates that collapse to the same glob', () => {
+        const dup: ResolvedPolicy = {
+            invalidates: ['tasks.get{id=$args.taskId}', 'tasks.get'],
+        };
+        expect(resolveInvalidations(dup, false, {})).toEqual(['tasks.get']);
+    });
+
+    it('still honors the isError guard', () => {
+        expect(resolveInvalidations(policy, true, { taskId: 42 })).toEqual([]);
+    });
+});
+
+describe('resolveInvalidations — exclusions', () => {
+    it('keeps exclusions next to the patterns they narrow', () => {
+        expect(resolveInvalidations({ invalidates: ['tasks.*', '!tasks.archive.*'] }, false))
+            .toEqual(['tasks.*', '!tasks.archive.*']);
+    });
+
+    it('invalidates nothing with exclusions alone', () => {
+        expect(resolveInvalidations({ invalidates: ['!tasks.archive.*'] }, false)).toEqual([]);
+    });
+});
+
+describe('resolveInvalidations — onError', () => {
+    const base: ResolvedPolicy = { invalidates: ['inventory.*'] };
+
+    it('skips failed writes by default and with onError: skip', () => {
+        expect(resolveInvalidations(base, true)).toEqual([]);
+        expect(resolveInvalidations({ ...base, onError: 'skip' }, true)).toEqual([]);
+    });
+
+    it('invalidates failed writes with onError: invalidate', () => {
+        expect(resolveInvalidations({ ...base, onError: 'invalidate' }, true)).toEqual(['inventory.*']);
+    });
+
+    it('invalidates failed writes with onError: invalidate-with-warning', () => {
+        expect(resolveInvalidations({ ...base, onError: 'invalidate-with-warning' }, true))
+            .toEqual(['inventory.*']);
+    });
+});
+
+describe('failureMode', () => {
+    it('defaults to skip', () => {
+        expect(failureMode(null)).toBe('skip');
+        expect(failureMode({}, true)).toBe('skip');
+    });
+
+    it('uses onException for thrown failures, falling back to onError', () => {
+        const policy: ResolvedPolicy = { onError: 'invalidate', onException: 'invalidate-with-warning' };
+        expect(failureMode(policy)).toBe('invalidate');
+        expect(failureMode(policy, true)).toBe('invalidate-with-warning');
+        expect(failureMode({ onError: 'invalidate' }, true)).toBe('invalidate');
+    });
+
+    it('lets resolveInvalidations honour onException', () => {
+        const policy: ResolvedPolicy = { invalidates: ['orders.*'], onException: 'invalidate' };
+        expect(resolveInvalidations(policy, true)).toEqual([]);
+        expect(resolveInvalidations(policy, true, {}, true)).toEqual(['orders.*']);
+    });
+});
+
+describe('writeSucceeded', () => {
+    const ok = { content: [{ type: 'text', text: '{"status":"ok"}' }] };
+
+    it('is false for isError results', () => {
+        expect(writeSucceeded({ invalidates: ['sprints.*'] }, { ...ok, isError: true })).toBe(false);
+    });
+
+    it('is true without a success predicate', () => {
+        expect(writeSucceeded({ invalidates: ['sprints.*'] }, ok)).toBe(true);
+        expect(writeSucceeded(null, ok)).toBe(true);
+    });
+
+    it('applies the success predicate', () => {
+        expect(writeSucceeded({ success: () => false }, ok)).toBe(false);
+        expect(writeSucceeded({ success: () => true }, ok)).toBe(true);
+    });
+
+    it('treats a throwing predicate as success', () => {
+        const success = () => { throw new Error('boom'); };
+        expect(writeSucceeded({ success }, ok)).toBe(true);
+    });
+});
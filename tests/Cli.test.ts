@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from '../src/Cli.js';
+
+let dir: string;
+let config: string;
+let tools: string;
+
+beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'state-sync-cli-'));
+    config = join(dir, 'state-sync.yaml');
+    tools = join(dir, 'tools.json');
+
+    await writeFile(config, [
+        'defaults:',
+        '  cacheControl: no-store',
+        'policies:',
+        '  - match: countries.*',
+        '    cacheControl: immutable',
+        '  - match: sprints.update',
+        '    invalidates: [sprints.*]',
+        '  - match: sprints.*',
+        '    cacheControl: no-store',
+        '  - match: sprints.get',
+        '    cacheControl: immutable',
+    ].join('\n'));
+    await writeFile(tools, JSON.stringify({
+        tools: ['countries.list', 'sprints.get', 'sprints.update', 'tasks.create'].map(name => ({
+            name,
+            inputSchema: { type: 'object' },
+        })),
+    }));
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+async function run(...argv: string[]) {
+    let out = '';
+    let err = '';
+    const code = await runCli(argv, { out: t => { out += t; }, err: t => { err += t; } });
+    return { code, out, err };
+}
+
+describe('mcp-state-sync lint', () => {
+    it('prints findings and fails on errors', async () => {
+        const { code, out } = await run('lint', config, '--tools', tools);
+
+        expect(code).toBe(1);
+        expect(out).toContain(
+            'error shadowed-policy: Policy[3] (match: "sprints.get") can never match: ' +
+            'shadowed by Policy[2] (match: "sprints.*").',
+        );
+        expect(out).toContain('warning unguarded-write: Tool "tasks.create" looks like a write');
+        expect(out).toContain('1 error(s), 1 warning(s)');
+    });
+
+    it('prints JSON findings', async () => {
+        const { out } = await run('lint', config, '--tools', tools, '--format', 'json');
+        expect(JSON.parse(out).map((f: { code: string }) => f.code)).toEqual([
+            'shadowed-policy', 'unguarded-write',
+        ]);
+    });
+});
+
+describe('mcp-state-sync explain', () => {
+    it('prints the matched policy, tried policies, directive and invalidation targets', async () => {
+        const { code, out } = await run('explain', config, 'sprints.update');
+
+        expect(code).toBe(0);
+        expect(out).toBe([
+            'Tool:        sprints.update',
+            'Policy:      Policy[1] (match: "sprints.update")',
+            'Tried:       Policy[0] (match: "countries.*") — segment 1: "sprints" does not match "countries"',
+            'Directive:   no-store (from defaults)',
+            'Invalidates: sprints.*',
+            '',
+        ].join('\n'));
+    });
+
+    it('lists accumulated policies in accumulate mode', async () => {
+        const accumulating = join(dir, 'accumulate.yaml');
+        await writeFile(accumulating, [
+            'resolution: accumulate',
+            'policies:',
+            '  - match: sprints.*',
+            '    cacheControl: no-store',
+            '  - match: "*.update"',
+            '    invalidates: [audit.*]',
+        ].join('\n'));
+
+        const { out } = await run('explain', accumulating, 'sprints.update');
+        expect(out).toContain('Accumulated: Policy[0], Policy[1]\n');
+        expect(out).toContain('Invalidates: audit.*\n');
+    });
+
+    it('reports tools resolved by defaults', async () => {
+        const { out } = await run('explain', config, 'tasks.list');
+        expect(out).toContain('Policy:      none\n');
+        expect(out).toContain('Directive:   no-store (from defaults)');
+    });
+});
+
+describe('mcp-state-sync matrix', () => {
+    it('prints an aligned text table', async () => {
+        const { code, out } = await run('matrix', config, '--tools', tools);
+
+        expect(code).toBe(0);
+        expect(out).toBe([
+            'Tool            Directive  Invalidated by',
+            'countries.list  immutable  -',
+            'sprints.get     no-store   sprints.update',
+            'sprints.update  no-store   sprints.update',
+            'tasks.create    no-store   -',
+            '',
+        ].join('\n'));
+    });
+
+    it('prints Markdown and JSON', async () => {
+        const markdown = await run('matrix', config, '--tools', tools, '--format', 'markdown');
+        expect(markdown.out.split('\n').slice(0, 3)).toEqual([
+            '| Tool | Directive | Invalidated by |',
+            '| --- | --- | --- |',
+            '| countries.list | immutable | - |',
+        ]);
+
+        const json = await run('matrix', config, '--tools', tools, '--format', 'json');
+        expect(JSON.parse(json.out)[1]).toEqual({
+            tool: 'sprints.get',
+            cacheControl: 'no-store',
+            invalidatedBy: ['sprints.update'],
+        });
+    });
+});
+
+describe('mcp-state-sync usage errors', () => {
+    it('exits with 2 and the usage text', async () => {
+        const missing = await run('matrix', config);
+        expect(missing.code).toBe(2);
+        expect(missing.err).toContain('"matrix" requires --tools <tools.json>.');
+        expect(missing.err).toContain('Usage:');
+
+        expect((await run('frobnicate', config)).err).toContain('unknown command "frobnicate"');
+        expect((await run()).code).toBe(2);
+        expect((await run('--help')).code).toBe(0);
+    });
+
+    it('reports config errors with their location', async () => {
+        const bad = join(dir, 'bad.yaml');
+        await writeFile(bad, 'policies:\n  - match: sprints.*\n    cacheControl: maybe\n');
+
+        const { code, err } = await run('explain', bad, 'sprints.get');
+        expect(code).toBe(2);
+        expect(err).toContain('bad.yaml:3:19: policies[0].cacheControl');
+    });
+});
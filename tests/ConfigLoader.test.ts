@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadSyncConfig, parseSyncConfig, serializeSyncConfig, ConfigFileError } from '../src/ConfigLoader.js';
+import type { SyncConfig } from '../src/types.js';
+import {
+    VALID_DIRECTIVES,
+    VALID_ON_ERROR,
+    VALID_RESOLUTION,
+    VALID_LOCALES,
+    MAX_CALLS_DIRECTIVE,
+} from '../src/PolicyValidator.js';
+import { MESSAGE_PLACEHOLDERS } from '../src/Messages.js';
+
+let dir: string;
+
+beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'state-sync-'));
+});
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+async function write(name: string, text: string): Promise<string> {
+    const file = join(dir, name);
+    await writeFile(file, text);
+    return file;
+}
+
+describe('loadSyncConfig', () => {
+    it('loads a YAML file', async () => {
+        const file = await write('ok.yaml', [
+            'defaults:',
+            '  cacheControl: no-store',
+            'policies:',
+            '  - match: countries.*',
+            '    cacheControl: immutable',
+            '  - match: tasks.update',
+            '    invalidates: [tasks.*, sprints.*]',
+        ].join('\n'));
+
+        expect(await loadSyncConfig(file)).toEqual({
+            defaults: { cacheControl: 'no-store' },
+            policies: [
+                { match: 'countries.*', cacheControl: 'immutable' },
+                { match: 'tasks.update', invalidates: ['tasks.*', 'sprints.*'] },
+            ],
+        });
+    });
+
+    it('loads a JSON file and ignores $schema', async () => {
+        const file = await write('ok.json', JSON.stringify({
+            $schema: './node_modules/@vinkius-core/mcp-state-sync/schema/sync-config.schema.json',
+            policies: [{ match: 'sprints.*', cacheControl: 'no-store' }],
+        }, null, '\t'));
+
+        expect(await loadSyncConfig(file)).toEqual({
+            policies: [{ match: 'sprints.*', cacheControl: 'no-store' }],
+        });
+    });
+
+    it('reports validation errors at their line and column', async () => {
+        const file = await write('bad.yaml', [
+            'policies:',
+            '  - match: countries.*',
+            '    cacheControl: immutable',
+            '  - match: sprints.*',
+            '    cacheControl: maybe',
+        ].join('\n'));
+
+        const err = await loadSyncConfig(file).catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(ConfigFileError);
+        expect((err as ConfigFileError).message).toBe(
+            `${file}:5:19: policies[1].cacheControl: invalid cacheControl "maybe". ` +
+            'Allowed: "no-store", "immutable", "max-calls=N".',
+        );
+        expect((err as ConfigFileError).path).toEqual(['policies', 1, 'cacheControl']);
+    });
+
+    it('reports JSON validation errors at their line and column', async () => {
+        const file = await write('bad.json', [
+            '{',
+            '  "policies": [',
+            '    { "match": "tasks.update", "invalidates": ["tasks.*", ""] }',
+            '  ]',
+            '}',
+        ].join('\n'));
+
+        await expect(loadSyncConfig(file)).rejects.toThrow(
+            `${file}:3:59: policies[0].invalidates[1]: 'invalidates' entries must be non-empty strings.`,
+        );
+    });
+
+    it('rejects keys the JSON Schema does not allow', async () => {
+        const file = await write('typo.yaml', [
+            'policies:',
+            '  - match: sprints.*',
+            '    cacheControll: no-store',
+        ].join('\n'));
+
+        const err = await loadSyncConfig(file).catch((e: unknown) => e) as ConfigFileError;
+        expect(err).toBeInstanceOf(ConfigFileError);
+        expect(err.message.startsWith(`${file}:3:20: policies[0].cacheControll: unknown key "cacheControll".`))
+            .toBe(true);
+        expect(err.path).toEqual(['policies', 0, 'cacheControll']);
+    });
+
+    it('rejects unknown top-level and nested keys', () => {
+        expect(() => parseSyncConfig('policies: []\nmemoise: true\n', 'top.yaml'))
+            .toThrow('top.yaml:2:10: memoise: unknown key "memoise".');
+        expect(() => parseSyncConfig('policies: []\nsessions: { trackRead: true }\n', 'nested.yaml'))
+            .toThrow('nested.yaml:2:24: sessions.trackRead: unknown key "trackRead".');
+    });
+
+    it('points missing fields at their parent', async () => {
+        const file = await write('missing.yaml', 'policies:\n  - cacheControl: no-store\n');
+
+        await expect(loadSyncConfig(file)).rejects.toThrow(
+            `${file}:2:5: policies[0].match: 'match' must be a non-empty string, a RegExp or a function.`,
+        );
+    });
+
+    it('reports syntax errors at their line and column', async () => {
+        const file = await write('syntax.yaml', 'policies:\n  - match: a\n   bad: [\n');
+
+        const err = await loadSyncConfig(file).catch((e: unknown) => e) as ConfigFileError;
+        expect(err).toBeInstanceOf(ConfigFileError);
+        expect(err.line).toBe(3);
+        expect(err.message.startsWith(`${file}:3:`)).toBe(true);
+    });
+
+    it('rejects a file that is not an object', async () => {
+        expect(() => parseSyncConfig('- a\n- b\n', 'list.yaml'))
+            .toThrow('list.yaml:1:1: SyncConfig must be an object.');
+    });
+
+    it('rejects a config without policies', () => {
+        expect(() => parseSyncConfig('defaults: {}\n', 'empty.yaml'))
+            .toThrow("empty.yaml:1:1: policies: 'policies' must be an array.");
+    });
+});
+
+describe('serializeSyncConfig', () => {
+    const config: SyncConfig = {
+        defaults: { cacheControl: 'no-store' },
+        policies: [
+            { match: 'sprints.update', invalidates: ['sprints.*', '!sprints.archive.*'], onError: 'invalidate' },
+            { match: 'countries.*', cacheControl: 'immutable' },
+        ],
+        memoize: { maxEntries: 50 },
+    };
+
+    it('writes JSON and YAML that parse back to the same config', () => {
+        expect(parseSyncConfig(serializeSyncConfig(config), 'out.json')).toEqual(config);
+        expect(parseSyncConfig(serializeSyncConfig(config, 'yaml'), 'out.yaml')).toEqual(config);
+    });
+
+    it('rejects RegExp and predicate matchers', () => {
+        expect(() => serializeSyncConfig({ policies: [{ match: /^refund_/ }] })).toThrow(
+            'Policy[0] (match: "/^refund_/"): RegExp matchers cannot be serialized; ' +
+            'only glob strings can be written to a config file.',
+        );
+        expect(() => serializeSyncConfig({ policies: [{ match: 'a.*' }, { match: () => true }] }))
+            .toThrow('Policy[1] (match: "<predicate match>"): predicate matchers cannot be serialized;');
+    });
+
+    it('rejects success predicates', () => {
+        const err = (() => {
+            try {
+                serializeSyncConfig({ policies: [{ match: 'orders.cancel', success: () => true }] });
+            } catch (e) {
+                return e as { path: unknown };
+            }
+        })();
+        expect(err?.path).toEqual(['policies', 0, 'success']);
+    });
+
+    it('writes string templates and rejects function templates', () => {
+        const localized: SyncConfig = {
+            policies: [],
+            messages: { locale: 'es', templates: { invalidated: '[Aviso: {domains} cambió]' } },
+        };
+        expect(parseSyncConfig(serializeSyncConfig(localized, 'yaml'), 'out.yaml')).toEqual(localized);
+        expect(() => serializeSyncConfig({
+            policies: [],
+            messages: { templates: { expired: ({ tools }) => `Re-read ${tools}` } },
+        })).toThrow('function templates cannot be serialized');
+    });
+});
+
+describe('sync-config.schema.json', () => {
+    it('describes every directive and policy field', async () => {
+        const schema = JSON.parse(
+            await readFile(new URL('../schema/sync-config.schema.json', import.meta.url), 'utf8'),
+        );
+
+        expect(new Set(schema.definitions.cacheDirective.anyOf[0].enum)).toEqual(VALID_DIRECTIVES);
+        expect(schema.definitions.cacheDirective.anyOf[1].pattern).toBe(MAX_CALLS_DIRECTIVE.source);
+        expect(Object.keys(schema.definitions.syncPolicy.properties)).toEqual([
+            'match', 'cacheControl', 'invalidates', 'memoize', 'rejectStaleWrites', 'onError',
+            'onException', 'timeoutMs', 'final',
+        ]);
+        expect(new Set(schema.definitions.syncPolicy.properties.onError.enum)).toEqual(VALID_ON_ERROR);
+        expect(Object.keys(schema.properties)).toEqual([
+            '$schema', 'policies', 'defaults', 'memoize', 'sessions', 'inferFromAnnotations', 'resolution',
+            'channels', 'messages', 'resources',
+        ]);
+        expect(schema.definitions.resourcePolicy.required).toEqual(['match', 'cacheControl']);
+        expect(new Set(schema.properties.resolution.enum)).toEqual(VALID_RESOLUTION);
+        expect(new Set(schema.properties.messages.properties.locale.enum)).toEqual(VALID_LOCALES);
+        expect(Object.keys(schema.properties.messages.properties.templates.properties))
+            .toEqual(Object.keys(MESSAGE_PLACEHOLDERS));
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { watch } from 'node:fs';
+import type { FSWatcher } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { watchSyncConfig } from '../src/ConfigWatcher.js';
+import type { ConfigWatcher } from '../src/ConfigWatcher.js';
+import type { SyncConfig } from '../src/types.js';
+
+// Spy on fs.watch to reach the FSWatcher created by watchSyncConfig
+vi.mock('node:fs', async importOriginal => {
+    const fs = await importOriginal<typeof import('node:fs')>();
+    return { ...fs, watch: vi.fn(fs.watch) };
+});
+
+let dir: string;
+let file: string;
+let watcher: ConfigWatcher | undefined;
+
+beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'state-sync-watch-'));
+    file = join(dir, 'policies.yaml');
+    await writeFile(file, 'policies: []\n');
+});
+
+afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe('watchSyncConfig', () => {
+    it('applies a valid change', async () => {
+        const apply = vi.fn();
+        watcher = watchSyncConfig(file, apply, { debounceMs: 10 });
+
+        await writeFile(file, 'policies:\n  - match: sprints.*\n    cacheControl: no-store\n');
+
+        await vi.waitFor(() => expect(apply).toHaveBeenCalled());
+        expect(apply).toHaveBeenLastCalledWith({
+            policies: [{ match: 'sprints.*', cacheControl: 'no-store' }],
+        });
+    });
+
+    it('reports invalid changes to onError without applying them', async () => {
+        const apply = vi.fn();
+        const onError = vi.fn();
+        watcher = watchSyncConfig(file, apply, { debounceMs: 10, onError });
+
+        await writeFile(file, 'policies:\n  - match: sprints.*\n    cacheControl: max-age=60\n');
+
+        await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+        expect(onError.mock.calls[0][0].message).toContain('policies[0].cacheControl');
+        expect(apply).not.toHaveBeenCalled();
+    });
+
+    it('ignores other files in the same directory', async () => {
+        const apply = vi.fn();
+        const onReload = vi.fn();
+        watcher = watchSyncConfig(file, apply, { debounceMs: 10, onReload });
+
+        await writeFile(join(dir, 'other.yaml'), 'policies: []\n');
+        await writeFile(file, 'policies: []\n');
+
+        await vi.waitFor(() => expect(onReload).toHaveBeenCalled());
+        expect(apply).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports watcher errors to onError instead of crashing', () => {
+        const onError = vi.fn();
+        watcher = watchSyncConfig(file, vi.fn(), { onError });
+        const fsWatcher = vi.mocked(watch).mock.results.at(-1)!.value as FSWatcher;
+
+        fsWatcher.emit('error', new Error('EACCES'));
+
+        expect(onError).toHaveBeenCalledWith(new Error('EACCES'));
+    });
+
+    it('applies reloads one at a time so the last write wins', async () => {
+        const applied: SyncConfig[] = [];
+        let running = 0;
+        let overlapped = false;
+        const apply = vi.fn(async (config: SyncConfig) => {
+            overlapped ||= running > 0;
+            running++;
+            // The first (older) reload is the slow one
+            await new Promise(r => setTimeout(r, apply.mock.calls.length === 1 ? 200 : 0));
+            applied.push(config);
+            running--;
+        });
+        watcher = watchSyncConfig(file, apply, { debounceMs: 10 });
+
+        await writeFile(file, 'policies:\n  - match: old.*\n');
+        await vi.waitFor(() => expect(apply).toHaveBeenCalled());
+        await writeFile(file, 'policies:\n  - match: new.*\n');
+
+        await vi.waitFor(() => expect(applied.at(-1)).toEqual({ policies: [{ match: 'new.*' }] }));
+        await new Promise(r => setTimeout(r, 250));
+        expect(overlapped).toBe(false);
+        expect(applied.at(-1)).toEqual({ policies: [{ match: 'new.*' }] });
+    });
+
+    it('keeps reloading when onReload and onError throw', async () => {
+        const unhandled = vi.fn();
+        process.on('unhandledRejection', unhandled);
+        const apply = vi.fn();
+        const onReload = vi.fn(() => {
+            throw new Error('onReload failed');
+        });
+        const onError = vi.fn(() => {
+            throw new Error('onError failed');
+        });
+        watcher = watchSyncConfig(file, apply, { debounceMs: 10, onReload, onError });
+
+        try {
+            await writeFile(file, 'policies:\n  - match: first.*\n');
+            await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+            await writeFile(file, 'policies:\n  - match: second.*\n');
+            await vi.waitFor(() => expect(apply).toHaveBeenLastCalledWith({ policies: [{ match: 'second.*' }] }));
+            await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(2));
+
+            expect(onError.mock.calls[0]).toEqual([new Error('onReload failed')]);
+            expect(unhandled).not.toHaveBeenCalled();
+        } finally {
+            process.off('unhandledRejection', unhandled);
+        }
+    });
+
+    it('stops reloading after close()', async () => {
+        const apply = vi.fn();
+        watcher = watchSyncConfig(file, apply, { debounceMs: 10 });
+        watcher.close();
+
+        await writeFile(file, 'policies: []\n');
+        await new Promise(r => setTimeout(r, 100));
+
+        expect(apply).not.toHaveBeenCalled();
+    });
+});
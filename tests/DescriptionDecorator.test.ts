@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { decorateDescription } from '../src/DescriptionDecorator.js';
+import { resolveMessages } from '../src/Messages.js';
 import type { McpToolDef, ResolvedPolicy } from '../src/types.js';
 
 const baseTool: McpToolDef = {
@@ -15,6 +16,14 @@ describe('decorateDescription', () => {
         expect(result.description).toBe('Get sprint details. [Cache-Control: no-store]');
     });
 
+    it('appends [Cache-Control: max-calls=N] and replaces it idempotently', () => {
+        const policy: ResolvedPolicy = { cacheControl: 'max-calls=5' };
+        const once = decorateDescription(baseTool, policy);
+        expect(once.description).toBe('Get sprint details. [Cache-Control: max-calls=5]');
+        expect(decorateDescription(once, { cacheControl: 'no-store' }).description)
+            .toBe('Get sprint details. [Cache-Control: no-store]');
+    });
+
     it('appends [Cache-Control: immutable] for static tools', () => {
         const policy: ResolvedPolicy = { cacheControl: 'immutable' };
         const result = decorateDescription(baseTool, policy);
@@ -61,4 +70,32 @@ describe('decorateDescription', () => {
         const second = decorateDescription(first, immutable);
         expect(second.description).toBe('Get sprint details. [Cache-Control: immutable]');
     });
+
+    // ── Custom templates ────────────────────────────────────────────
+
+    it('renders a custom template and stays idempotent across directives', () => {
+        const messages = resolveMessages({ templates: { cacheControl: '(cache: {directive})' } });
+        const first = decorateDescription(baseTool, { cacheControl: 'max-calls=3' }, messages);
+        expect(first.description).toBe('Get sprint details. (cache: max-calls=3)');
+
+        const second = decorateDescription(first, { cacheControl: 'no-store' }, messages);
+        expect(second.description).toBe('Get sprint details. (cache: no-store)');
+    });
+
+    it('stays idempotent with function templates', () => {
+        const verbatim = resolveMessages({ templates: { cacheControl: ({ directive }) => `<<${directive}>>` } });
+        const once = decorateDescription(baseTool, { cacheControl: 'immutable' }, verbatim);
+        expect(decorateDescription(once, { cacheControl: 'no-store' }, verbatim).description)
+            .toBe('Get sprint details. <<no-store>>');
+
+        const worded = resolveMessages({
+            templates: { cacheControl: ({ directive }) => (directive === 'no-store' ? '(sem cache)' : '(fixo)') },
+        });
+        const twice = decorateDescription(
+            decorateDescription(baseTool, { cacheControl: 'no-store' }, worded),
+            { cacheControl: 'no-store' },
+            worded,
+        );
+        expect(twice.description).toBe('Get sprint details. (sem cache)');
+    });
 });
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DomainVersions } from '../src/DomainVersions.js';
+import { matchInvalidations } from '../src/InvalidationTemplate.js';
+
+// Count the domains DomainVersions compares a call with
+vi.mock('../src/InvalidationTemplate.js', async importOriginal => {
+    const actual = await importOriginal<typeof import('../src/InvalidationTemplate.js')>();
+    return { ...actual, matchInvalidations: vi.fn(actual.matchInvalidations) };
+});
+
+describe('DomainVersions', () => {
+    it('starts at version 0', () => {
+        const versions = new DomainVersions();
+        expect(versions.current).toBe(0);
+        expect(versions.versionOf('tasks.get')).toBe(0);
+    });
+
+    it('bumps a new version for each invalidation', () => {
+        const versions = new DomainVersions();
+        expect(versions.bump(['tasks.*'])).toBe(1);
+        expect(versions.bump(['sprints.*'])).toBe(2);
+        expect(versions.current).toBe(2);
+    });
+
+    it('does not bump for an empty invalidation', () => {
+        const versions = new DomainVersions();
+        expect(versions.bump([])).toBe(0);
+    });
+
+    it('reports the latest invalidation covering a tool call', () => {
+        const versions = new DomainVersions();
+        versions.bump(['tasks.*']);
+        versions.bump(['sprints.*']);
+
+        expect(versions.versionOf('tasks.get')).toBe(1);
+        expect(versions.versionOf('sprints.get')).toBe(2);
+        expect(versions.versionOf('users.get')).toBe(0);
+    });
+
+    it('honors argument-scoped invalidations', () => {
+        const versions = new DomainVersions();
+        versions.bump(['tasks.get{id=1}']);
+
+        expect(versions.versionOf('tasks.get', { id: 1 })).toBe(1);
+        expect(versions.versionOf('tasks.get', { id: 2 })).toBe(0);
+    });
+
+    it('raises the floor when forgetting domains on overflow', () => {
+        const versions = new DomainVersions(2);
+        versions.bump(['a.*']);
+        versions.bump(['b.*']);
+        versions.bump(['c.*']);
+
+        // 'a.*' (version 1) was forgotten — every tool is at least version 1
+        expect(versions.versionOf('users.get')).toBe(1);
+        expect(versions.versionOf('c.get')).toBe(3);
+    });
+
+    it('honours exclusions recorded with an invalidation', () => {
+        const versions = new DomainVersions();
+        versions.bump(['tasks.*', '!tasks.archive']);
+
+        expect(versions.versionOf('tasks.get')).toBe(1);
+        expect(versions.versionOf('tasks.archive')).toBe(0);
+
+        versions.bump(['tasks.*']);
+        expect(versions.versionOf('tasks.archive')).toBe(2);
+    });
+
+    it('matches wildcard-led globs against every tool', () => {
+        const versions = new DomainVersions();
+        versions.bump(['*.get']);
+        versions.bump(['**']);
+        versions.bump(['{tasks,users}.list']);
+
+        expect(versions.versionOf('sprints.get')).toBe(2);
+        expect(versions.versionOf('users.list')).toBe(3);
+    });
+
+    it('covers calls that do not constrain a scoped key', () => {
+        const versions = new DomainVersions();
+        versions.bump(['tasks.get{id=1}']);
+        versions.bump(['tasks.get{id=2,owner=ann}']);
+
+        expect(versions.versionOf('tasks.get')).toBe(2);
+        expect(versions.versionOf('tasks.get', { owner: 'bob' })).toBe(1);
+        expect(versions.versionOf('tasks.get', { id: 2, owner: 'bob' })).toBe(0);
+    });
+
+    it('ignores resource URIs for tool calls', () => {
+        const versions = new DomainVersions();
+        versions.bump(['jira://sprints/42']);
+
+        expect(versions.versionOf('sprints.get')).toBe(0);
+    });
+
+    it('re-indexes a domain bumped again and forgets evicted entities', () => {
+        const versions = new DomainVersions(2);
+        versions.bump(['tasks.get{id=1}']);
+        versions.bump(['tasks.get{id=2}']);
+        versions.bump(['tasks.get{id=1}']);
+        versions.bump(['tasks.get{id=3}']);
+
+        // id=2 (version 2) was forgotten and raised the floor
+        expect(versions.versionOf('tasks.get', { id: 1 })).toBe(3);
+        expect(versions.versionOf('tasks.get', { id: 2 })).toBe(2);
+        expect(versions.versionOf('tasks.get', { id: 3 })).toBe(4);
+        expect(versions.versionOf('users.get')).toBe(2);
+    });
+
+    it('compares a call only with the domains that can cover it', () => {
+        const versions = new DomainVersions();
+        for (let i = 0; i < 10_000; i++) {
+            versions.bump([i % 2 === 0 ? `tasks.get{id=${i}}` : `users${i}.get`]);
+        }
+
+        vi.mocked(matchInvalidations).mockClear();
+        expect(versions.versionOf('tasks.get', { id: 42 })).toBe(43);
+        expect(versions.versionOf('tasks.get', { id: 'missing' })).toBe(0);
+        expect(versions.versionOf('users41.get')).toBe(42);
+
+        expect(vi.mocked(matchInvalidations).mock.calls.length).toBe(2);
+    });
+});
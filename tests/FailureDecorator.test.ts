@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { upstreamFailure } from '../src/FailureDecorator.js';
+import { UpstreamTimeoutError, UpstreamCancelledError } from '../src/UpstreamDeadline.js';
+
+describe('upstreamFailure', () => {
+    it('returns a sanitized isError result for thrown errors', () => {
+        const result = upstreamFailure('orders.cancel', new Error('password=hunter2 at db.ts:42'));
+
+        expect(result).toEqual({
+            content: [{ type: 'text', text: '[System: orders.cancel failed — upstream error.]' }],
+            isError: true,
+        });
+    });
+
+    it('names timeouts and cancellations', () => {
+        expect(upstreamFailure('orders.cancel', new UpstreamTimeoutError(5000)).content[0].text)
+            .toBe('[System: orders.cancel failed — timed out after 5000 ms.]');
+        expect(upstreamFailure('orders.cancel', new UpstreamCancelledError()).content[0].text)
+            .toBe('[System: orders.cancel failed — cancelled by the client.]');
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { matchGlob } from '../src/GlobMatcher.js';
+import { matchGlob, coversGlob, explainGlobMismatch, validateGlob, GlobSyntaxError } from '../src/GlobMatcher.js';
 
 describe('matchGlob', () => {
     it('matches exact names', () => {
@@ -39,4 +39,116 @@ describe('matchGlob', () => {
     it('does not match when pattern is longer than name', () => {
         expect(matchGlob('a.b.c', 'a.b')).toBe(false);
     });
+
+    it('matches brace alternatives within a segment', () => {
+        expect(matchGlob('sprints.{create,update,delete}', 'sprints.update')).toBe(true);
+        expect(matchGlob('sprints.{create,update,delete}', 'sprints.get')).toBe(false);
+        expect(matchGlob('{sprints,tasks}.get', 'tasks.get')).toBe(true);
+        expect(matchGlob('tasks.get{One,All}', 'tasks.getAll')).toBe(true);
+        expect(matchGlob('tasks.get{One,All}', 'tasks.get')).toBe(false);
+    });
+
+    it('matches intra-segment wildcards within one segment', () => {
+        expect(matchGlob('*.get*', 'tasks.getAll')).toBe(true);
+        expect(matchGlob('*.get*', 'tasks.get')).toBe(true);
+        expect(matchGlob('*.get*', 'tasks.list')).toBe(false);
+        expect(matchGlob('billing.refund_*', 'billing.refund_partial')).toBe(true);
+        expect(matchGlob('billing.refund_*', 'billing.refund_partial.confirm')).toBe(false);
+        expect(matchGlob('billing.*_{full,partial}', 'billing.refund_full')).toBe(true);
+    });
+
+    it('treats regex characters in names literally', () => {
+        expect(matchGlob('a-*', 'a-b')).toBe(true);
+        expect(matchGlob('a_*', 'ab')).toBe(false);
+    });
+});
+
+describe('validateGlob', () => {
+    it('accepts whole-segment, intra-segment and brace forms', () => {
+        for (const glob of ['**', 'sprints.*', '*.get*', 'sprints.{create,update}', 'a.**.b', 'x_{a,b}*']) {
+            expect(() => validateGlob(glob)).not.toThrow();
+        }
+    });
+
+    it('reports where parsing failed', () => {
+        const cases: [string, string, number][] = [
+            ['sprints.{create,update', 'unclosed "{" at column 9', 9],
+            ['sprints..get', 'empty segment at column 9', 9],
+            ['sprints.get**', '"**" must be a whole segment at column 12', 12],
+            ['sprints.{a,,b}', 'empty alternative at column 12', 12],
+            ['sprints.a}', 'unexpected "}" outside "{...}" at column 10', 10],
+            ['a.{b,{c}}', 'nested "{" at column 6', 6],
+            ['sprints.{a.b}', 'unclosed "{" at column 9', 9],
+            ['sprints.@get', 'invalid segment "@get": unexpected "@" at column 9', 9],
+        ];
+        for (const [glob, message, column] of cases) {
+            const err = (() => { try { validateGlob(glob); } catch (e) { return e; } })();
+            expect(err).toBeInstanceOf(GlobSyntaxError);
+            expect((err as GlobSyntaxError).message).toBe(message);
+            expect((err as GlobSyntaxError).column).toBe(column);
+        }
+    });
+
+    it('shifts columns by the offset', () => {
+        expect(() => validateGlob('a.{b', 1)).toThrow('unclosed "{" at column 4');
+    });
+});
+
+describe('coversGlob', () => {
+    it('covers identical and narrower globs', () => {
+        expect(coversGlob('sprints.get', 'sprints.get')).toBe(true);
+        expect(coversGlob('sprints.*', 'sprints.get')).toBe(true);
+        expect(coversGlob('*.*', 'sprints.*')).toBe(true);
+        expect(coversGlob('**', 'sprints.**')).toBe(true);
+        expect(coversGlob('sprints.**', 'sprints.*.get')).toBe(true);
+    });
+
+    it('does not cover broader or disjoint globs', () => {
+        expect(coversGlob('sprints.get', 'sprints.*')).toBe(false);
+        expect(coversGlob('sprints.*', 'sprints.**')).toBe(false);
+        expect(coversGlob('sprints.*', 'tasks.get')).toBe(false);
+        expect(coversGlob('*.get', 'sprints.*')).toBe(false);
+    });
+
+    it('covers brace alternatives and intra-segment wildcards', () => {
+        expect(coversGlob('sprints.{create,update}', 'sprints.create')).toBe(true);
+        expect(coversGlob('sprints.*', 'sprints.{create,update}')).toBe(true);
+        expect(coversGlob('sprints.{create,update,delete}', 'sprints.{update,create}')).toBe(true);
+        expect(coversGlob('sprints.{create,update}', 'sprints.{create,delete}')).toBe(false);
+        expect(coversGlob('*.get*', 'tasks.{get,getAll}')).toBe(true);
+        expect(coversGlob('*.get*', 'tasks.getAll*')).toBe(true);
+        expect(coversGlob('billing.refund_*', 'billing.refund_*_full')).toBe(true);
+        expect(coversGlob('billing.refund_*', 'billing.*')).toBe(false);
+        expect(coversGlob('*.get*', 'tasks.*get')).toBe(false);
+    });
+});
+
+describe('explainGlobMismatch', () => {
+    it('returns null for a match', () => {
+        expect(explainGlobMismatch('sprints.*', 'sprints.get')).toBeNull();
+    });
+
+    it('names the first mismatching segment', () => {
+        expect(explainGlobMismatch('sprints.update', 'sprints.get'))
+            .toBe('segment 2: "get" does not match "update"');
+    });
+
+    it('reports segment count mismatches', () => {
+        expect(explainGlobMismatch('sprints.*', 'sprints.tasks.get'))
+            .toBe('name has 3 segments, pattern only 2');
+        expect(explainGlobMismatch('sprints.*.get', 'sprints.get'))
+            .toBe('segment 3: pattern expects "get", name has only 2 segment(s)');
+    });
+
+    it('explains extended segments', () => {
+        expect(explainGlobMismatch('sprints.{create,update}', 'sprints.get'))
+            .toBe('segment 2: "get" does not match "{create,update}"');
+        expect(explainGlobMismatch('*.get*', 'tasks.list'))
+            .toBe('segment 2: "list" does not match "get*"');
+    });
+
+    it('compares segments after ** from the end', () => {
+        expect(explainGlobMismatch('**.update', 'sprints.tasks.get'))
+            .toBe('segment 3: "get" does not match "update"');
+    });
 });
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GlobTrie } from '../src/GlobTrie.js';
+import { matchGlob, matchSegment } from '../src/GlobMatcher.js';
+import { PolicyEngine } from '../src/PolicyEngine.js';
+
+// Count the segment matches GlobTrie makes (module-internal calls are not affected)
+vi.mock('../src/GlobMatcher.js', async importOriginal => {
+    const actual = await importOriginal<typeof import('../src/GlobMatcher.js')>();
+    return { ...actual, matchSegment: vi.fn(actual.matchSegment) };
+});
+
+/** The linear first-match-wins loop GlobTrie replaces. */
+function linearFirstMatch(globs: readonly string[], name: string): number {
+    return globs.findIndex(glob => matchGlob(glob, name));
+}
+
+describe('GlobTrie', () => {
+    it('returns the index of the first matching glob', () => {
+        const trie = new GlobTrie(['sprints.get', 'sprints.*', '**']);
+        expect(trie.firstMatch('sprints.get')).toBe(0);
+        expect(trie.firstMatch('sprints.update')).toBe(1);
+        expect(trie.firstMatch('tasks.get')).toBe(2);
+    });
+
+    it('prefers declaration order over specificity', () => {
+        const trie = new GlobTrie(['**', 'sprints.get']);
+        expect(trie.firstMatch('sprints.get')).toBe(0);
+    });
+
+    it('returns -1 when nothing matches', () => {
+        expect(new GlobTrie(['sprints.*']).firstMatch('sprints.tasks.get')).toBe(-1);
+        expect(new GlobTrie([]).firstMatch('sprints.get')).toBe(-1);
+    });
+
+    it('lets ** match zero or more segments anywhere', () => {
+        const trie = new GlobTrie(['a.**.z', '**.get', 'b.**']);
+        expect(trie.firstMatch('a.z')).toBe(0);
+        expect(trie.firstMatch('a.b.c.z')).toBe(0);
+        expect(trie.firstMatch('x.y.get')).toBe(1);
+        expect(trie.firstMatch('b')).toBe(2);
+        expect(trie.firstMatch('a.b')).toBe(-1);
+    });
+
+    it('matches brace alternatives and intra-segment wildcards', () => {
+        const trie = new GlobTrie(['sprints.{create,update}', '*.get*']);
+        expect(trie.firstMatch('sprints.update')).toBe(0);
+        expect(trie.firstMatch('tasks.getAll')).toBe(1);
+        expect(trie.firstMatch('tasks.list')).toBe(-1);
+    });
+
+    it('lists every matching glob in ascending order', () => {
+        const trie = new GlobTrie(['tasks.*', 'sprints.*', '**', 'tasks.get', '*.get']);
+        expect(trie.allMatches('tasks.get')).toEqual([0, 2, 3, 4]);
+        expect(trie.allMatches('a.b.c')).toEqual([2]);
+        expect(new GlobTrie(['tasks.*']).allMatches('sprints.get')).toEqual([]);
+    });
+
+    it('agrees with matchGlob in declaration order', () => {
+        const globs = [
+            'a.b', 'a.*', '*.b', '**', 'a.**', '**.b', 'a.**.b', '*.*', '**.**',
+            'a.{b,c}', '{a,c}.*', 'a*.b', '*b', 'a.**.*', '*.**.c', 'b.c.**',
+        ];
+        const names = ['a', 'b', 'a.b', 'a.c', 'ab.b', 'c.b', 'a.b.b', 'a.x.y.b', 'b.c', 'b.c.d', 'c.a.c', 'a.b.c.d'];
+
+        // Every window of globs, so each glob is tried at every position
+        for (let start = 0; start < globs.length; start++) {
+            const window = [...globs.slice(start), ...globs.slice(0, start)];
+            const trie = new GlobTrie(window);
+            for (const name of names) {
+                expect(trie.firstMatch(name), `${name} in [${window.join(', ')}]`)
+                    .toBe(linearFirstMatch(window, name));
+                expect(trie.allMatches(name))
+                    .toEqual(window.flatMap((glob, i) => (matchGlob(glob, name) ? [i] : [])));
+            }
+        }
+    });
+});
+
+describe('GlobTrie — work against a linear scan', () => {
+    // 300 policies, 4k tools: most tools match late policies or none,
+    // the worst case for a linear scan
+    const globs = Array.from({ length: 300 }, (_, i) =>
+        i % 3 === 0 ? `svc${i}.**.get*` : i % 3 === 1 ? `svc${i}.*.{create,update}` : `svc${i}.*`);
+    const tools = Array.from({ length: 4_000 }, (_, i) =>
+        `svc${i % 400}.entity${Math.floor(i / 400)}.${['get', 'getAll', 'create', 'delete'][i % 4]}`);
+
+    /** `matchGlob`'s recursion, comparing every non-`**` segment through the counted `matchSegment`. */
+    function segmentwiseMatch(pp: readonly string[], pi: number, np: readonly string[], ni: number): boolean {
+        if (pi === pp.length) return ni === np.length;
+        if (pp[pi] === '**') {
+            return segmentwiseMatch(pp, pi + 1, np, ni) || (ni < np.length && segmentwiseMatch(pp, pi, np, ni + 1));
+        }
+        return ni < np.length && matchSegment(pp[pi], np[ni]) && segmentwiseMatch(pp, pi + 1, np, ni + 1);
+    }
+
+    it('compares far fewer segments than trying every glob, with the same result', () => {
+        const trie = new GlobTrie(globs);
+
+        // Unit on both sides: one segment comparison — a matchSegment call,
+        // or a literal child lookup in the trie (every Map.get is counted,
+        // which overcounts the trie)
+        vi.mocked(matchSegment).mockClear();
+        const linear = tools.map(tool => globs.findIndex(glob =>
+            segmentwiseMatch(glob.split('.'), 0, tool.split('.'), 0)));
+        const linearComparisons = vi.mocked(matchSegment).mock.calls.length;
+
+        vi.mocked(matchSegment).mockClear();
+        const lookups = vi.spyOn(Map.prototype, 'get');
+        const compiled = tools.map(tool => trie.firstMatch(tool));
+        const trieComparisons = vi.mocked(matchSegment).mock.calls.length + lookups.mock.calls.length;
+        lookups.mockRestore();
+
+        expect(compiled).toEqual(linear);
+        expect(linear).toEqual(tools.map(tool => linearFirstMatch(globs, tool)));
+        expect(trieComparisons * 20).toBeLessThan(linearComparisons);
+    });
+
+    it('resolves through PolicyEngine like the linear scan', () => {
+        const policies = globs.map(match => ({ match, cacheControl: 'no-store' as const }));
+        const engine = new PolicyEngine(policies);
+
+        expect(tools.map(tool => engine.resolve(tool)?.cacheControl))
+            .toEqual(tools.map(tool => (linearFirstMatch(globs, tool) === -1 ? undefined : 'no-store')));
+    });
+});
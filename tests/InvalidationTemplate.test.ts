@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseInvalidation,
+    renderInvalidation,
+    matchInvalidation,
+    matchInvalidations,
+    matchResourceInvalidations,
+} from '../src/InvalidationTemplate.js';
+
+describe('parseInvalidation', () => {
+    it('parses plain globs with an empty scope', () => {
+        expect(parseInvalidation('sprints.*')).toEqual({ glob: 'sprints.*', scope: [] });
+    });
+
+    it('parses argument references and literals', () => {
+        expect(parseInvalidation('tasks.get{id=$args.taskId, status=open}')).toEqual({
+            glob: 'tasks.get',
+            scope: [
+                { key: 'id', ref: ['taskId'] },
+                { key: 'status', value: 'open' },
+            ],
+        });
+    });
+
+    it('parses nested argument paths', () => {
+        const { scope } = parseInvalidation('tasks.get{id=$args.task.id}');
+        expect(scope[0].ref).toEqual(['task', 'id']);
+    });
+
+    it('throws on unclosed scope block', () => {
+        expect(() => parseInvalidation('tasks.get{id=$args.taskId'))
+            .toThrow('invalid invalidation template');
+    });
+
+    it('throws on missing value', () => {
+        expect(() => parseInvalidation('tasks.get{id=}')).toThrow('invalid scope value');
+        expect(() => parseInvalidation('tasks.get{id=1,name}')).toThrow('invalid scope value "" for key "name"');
+    });
+
+    it('throws on duplicate keys', () => {
+        expect(() => parseInvalidation('tasks.get{id=1,id=2}')).toThrow('duplicate scope key "id"');
+    });
+
+    it('treats a one-option brace as alternation', () => {
+        expect(parseInvalidation('tasks.{get}')).toEqual({ glob: 'tasks.{get}', scope: [] });
+        expect(matchInvalidation('tasks.{get}', 'tasks.get', {})).toBe(true);
+        expect(parseInvalidation('tasks.{get}{id=$args.taskId}').scope).toEqual([{ key: 'id', ref: ['taskId'] }]);
+    });
+
+    it('tells brace alternation from a scope block', () => {
+        expect(parseInvalidation('tasks.{get,list}')).toEqual({ glob: 'tasks.{get,list}', scope: [] });
+        expect(parseInvalidation('tasks.{get,list}{id=$args.taskId}')).toEqual({
+            glob: 'tasks.{get,list}',
+            scope: [{ key: 'id', ref: ['taskId'] }],
+        });
+    });
+
+    it('parses exclusions', () => {
+        expect(parseInvalidation('!tasks.archive.*')).toEqual({ glob: 'tasks.archive.*', scope: [], negated: true });
+        expect(parseInvalidation('!tasks.get{id=1}').scope).toEqual([{ key: 'id', value: '1' }]);
+    });
+
+    it('rejects argument references in exclusions', () => {
+        expect(() => parseInvalidation('!tasks.get{id=$args.taskId}'))
+            .toThrow('exclusion "!tasks.get{id=$args.taskId}" cannot reference "$args.taskId"');
+    });
+
+    it('reports glob syntax errors with their column', () => {
+        expect(() => parseInvalidation('!tasks.{get,list')).toThrow(
+            'invalid invalidation template "!tasks.{get,list": unclosed "{" at column 8.',
+        );
+    });
+
+    it('throws on malformed argument reference', () => {
+        expect(() => parseInvalidation('tasks.get{id=$args.}')).toThrow('invalid argument reference');
+    });
+
+    it('reuses the parse of a pattern seen before', () => {
+        expect(parseInvalidation('tasks.get{id=7}')).toBe(parseInvalidation('tasks.get{id=7}'));
+        expect(() => parseInvalidation('tasks.get{id=}')).toThrow('invalid scope value');
+        expect(() => parseInvalidation('tasks.get{id=}')).toThrow('invalid scope value');
+    });
+});
+
+describe('renderInvalidation', () => {
+    it('returns plain globs unchanged', () => {
+        expect(renderInvalidation('sprints.*', { id: 1 })).toBe('sprints.*');
+    });
+
+    it('substitutes argument values', () => {
+        expect(renderInvalidation('tasks.get{id=$args.taskId}', { taskId: 42 }))
+            .toBe('tasks.get{id=42}');
+    });
+
+    it('substitutes nested argument values and literals', () => {
+        expect(renderInvalidation(
+            'tasks.*{sprint=$args.task.sprintId,kind=task}',
+            { task: { sprintId: 'S-7' } },
+        )).toBe('tasks.*{sprint=S-7,kind=task}');
+    });
+
+    it('falls back to the coarse glob when the argument is missing', () => {
+        expect(renderInvalidation('tasks.get{id=$args.taskId}', {})).toBe('tasks.get');
+    });
+
+    it('falls back to the coarse glob for non-primitive values', () => {
+        expect(renderInvalidation('tasks.get{id=$args.taskId}', { taskId: { a: 1 } }))
+            .toBe('tasks.get');
+    });
+
+    it('falls back to the coarse glob for values with reserved characters', () => {
+        expect(renderInvalidation('tasks.get{id=$args.taskId}', { taskId: 'a,b' }))
+            .toBe('tasks.get');
+    });
+});
+
+describe('matchInvalidation', () => {
+    it('matches tool names by glob', () => {
+        expect(matchInvalidation('tasks.*', 'tasks.get')).toBe(true);
+        expect(matchInvalidation('tasks.*', 'sprints.get')).toBe(false);
+    });
+
+    it('compares scope keys with the call arguments', () => {
+        expect(matchInvalidation('tasks.get{id=42}', 'tasks.get', { id: 42 })).toBe(true);
+        expect(matchInvalidation('tasks.get{id=42}', 'tasks.get', { id: 7 })).toBe(false);
+    });
+
+    it('conservatively covers calls without the scoped argument', () => {
+        expect(matchInvalidation('tasks.*{id=42}', 'tasks.list', {})).toBe(true);
+        expect(matchInvalidation('tasks.get{id=42}', 'tasks.get')).toBe(true);
+    });
+});
+
+describe('matchInvalidations', () => {
+    const patterns = ['tasks.*', 'tasks.archive.*', '!tasks.archive.*'];
+
+    it('covers calls matched by a pattern and not excluded', () => {
+        expect(matchInvalidations(patterns, 'tasks.get')).toBe(true);
+        expect(matchInvalidations(patterns, 'tasks.archive.get')).toBe(false);
+        expect(matchInvalidations(patterns, 'sprints.get')).toBe(false);
+    });
+
+    it('never covers with exclusions alone', () => {
+        expect(matchInvalidations(['!tasks.archive.*'], 'tasks.get')).toBe(false);
+        expect(matchInvalidation('!tasks.*', 'tasks.get')).toBe(false);
+    });
+
+    it('applies scoped exclusions only when the arguments match', () => {
+        const scoped = ['tasks.get', '!tasks.get{id=1}'];
+        expect(matchInvalidations(scoped, 'tasks.get', { id: 1 })).toBe(false);
+        expect(matchInvalidations(scoped, 'tasks.get', { id: 2 })).toBe(true);
+        expect(matchInvalidations(scoped, 'tasks.get', {})).toBe(true);
+        expect(matchInvalidations(scoped, 'tasks.get')).toBe(true);
+    });
+});
+
+describe('resource patterns', () => {
+    it('parses URI patterns as resource globs', () => {
+        expect(parseInvalidation('jira://sprints/{$args.sprintId}')).toEqual({
+            glob: 'jira://sprints/{$args.sprintId}',
+            scope: [],
+            resource: true,
+        });
+        expect(parseInvalidation('!jira://sprints/archive')).toEqual({
+            glob: 'jira://sprints/archive',
+            scope: [],
+            resource: true,
+            negated: true,
+        });
+    });
+
+    it('rejects malformed URI globs and references', () => {
+        expect(() => parseInvalidation('jira://sprints/{a')).toThrow(
+            'invalid resource pattern "jira://sprints/{a": unclosed "{" at column 16.',
+        );
+        expect(() => parseInvalidation('jira://sprints/{$args.}')).toThrow(/invalid argument reference/);
+        expect(() => parseInvalidation('!jira://sprints/{$args.id}')).toThrow(
+            'exclusion "!jira://sprints/{$args.id}" cannot reference "{$args.id}": use literal URIs.',
+        );
+    });
+
+    it('renders argument references URI-encoded', () => {
+        expect(renderInvalidation('jira://sprints/{$args.sprintId}', { sprintId: 42 })).toBe('jira://sprints/42');
+        expect(renderInvalidation('file:///docs/{$args.name}', { name: 'a b*' })).toBe('file:///docs/a%20b%2A');
+        expect(renderInvalidation('jira://boards/{$args.board.id}/sprints', { board: { id: 'x' } }))
+            .toBe('jira://boards/x/sprints');
+    });
+
+    it('widens a missing argument to one segment', () => {
+        expect(renderInvalidation('jira://sprints/{$args.sprintId}', {})).toBe('jira://sprints/*');
+        expect(renderInvalidation('jira://sprints/{$args.sprintId}', { sprintId: {} })).toBe('jira://sprints/*');
+    });
+
+    it('never covers tool calls', () => {
+        expect(matchInvalidation('jira://sprints/*', 'sprints.get')).toBe(false);
+        expect(matchInvalidations(['jira://sprints/*', 'sprints.*'], 'sprints.get')).toBe(true);
+    });
+
+    it('covers matching resource URIs unless excluded', () => {
+        const patterns = ['sprints.*', 'jira://sprints/*', '!jira://sprints/archive'];
+        expect(matchResourceInvalidations(patterns, 'jira://sprints/42')).toBe(true);
+        expect(matchResourceInvalidations(patterns, 'jira://sprints/archive')).toBe(false);
+        expect(matchResourceInvalidations(patterns, 'jira://boards/1')).toBe(false);
+        expect(matchResourceInvalidations(['sprints.*'], 'jira://sprints/42')).toBe(false);
+    });
+});
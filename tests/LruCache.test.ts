@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { LruCache } from '../src/LruCache.js';
+
+describe('LruCache', () => {
+    it('stores and retrieves values', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('b')).toBeUndefined();
+    });
+
+    it('evicts the least recently used entry on overflow', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');       // 'b' is now least recently used
+        cache.set('c', 3);
+
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('c')).toBe(3);
+        expect(cache.size).toBe(2);
+    });
+
+    it('replaces existing keys without growing', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('a', 2);
+        expect(cache.size).toBe(1);
+        expect(cache.get('a')).toBe(2);
+    });
+
+    it('deletes and clears entries', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        expect(cache.delete('a')).toBe(true);
+        expect(cache.size).toBe(1);
+        cache.clear();
+        expect(cache.size).toBe(0);
+    });
+
+    it('throws on invalid maxEntries', () => {
+        expect(() => new LruCache(0)).toThrow('maxEntries must be a positive integer');
+        expect(() => new LruCache(1.5)).toThrow('maxEntries must be a positive integer');
+    });
+});
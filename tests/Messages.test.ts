@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+    resolveMessages,
+    formatMessage,
+    renderTemplate,
+    parseTemplate,
+    BUILT_IN_MESSAGES,
+    DEFAULT_MESSAGES,
+    MESSAGE_PLACEHOLDERS,
+} from '../src/Messages.js';
+
+describe('renderTemplate', () => {
+    it('interpolates placeholders in a single pass', () => {
+        expect(renderTemplate('{causedBy} changed {domains}', { domains: '{causedBy}', causedBy: 'x.update' }))
+            .toBe('x.update changed {causedBy}');
+    });
+
+    it('keeps escaped braces and unknown placeholders literal', () => {
+        expect(renderTemplate('{{tools}} {tools} {other}', { tools: 'a.get' })).toBe('{tools} a.get {other}');
+    });
+
+    it('calls function templates', () => {
+        expect(renderTemplate(({ tools }: { tools: string }) => `Re-read ${tools}`, { tools: 'a.get' }))
+            .toBe('Re-read a.get');
+    });
+});
+
+describe('parseTemplate', () => {
+    it('splits literals around placeholders', () => {
+        expect(parseTemplate('[Cache: {directive}] {{x}}')).toEqual({
+            literals: ['[Cache: ', '] {x}'],
+            placeholders: ['directive'],
+        });
+    });
+});
+
+describe('resolveMessages', () => {
+    it('defaults to English', () => {
+        expect(resolveMessages()).toBe(DEFAULT_MESSAGES);
+        expect(formatMessage(resolveMessages(), 'invalidated', { domains: 'sprints.*', causedBy: 'sprints.update' }))
+            .toBe('[System: Cache invalidated for sprints.* — caused by sprints.update]');
+    });
+
+    it('layers template overrides on a locale', () => {
+        const messages = resolveMessages({ locale: 'pt-BR', templates: { expired: 'Releia {tools}.' } });
+        expect(formatMessage(messages, 'expired', { tools: 'a.get (max-calls=2)' })).toBe('Releia a.get (max-calls=2).');
+        expect(messages.invalidated).toBe(BUILT_IN_MESSAGES['pt-BR'].invalidated);
+    });
+
+    it('gives every built-in message only its own placeholders', () => {
+        for (const catalog of Object.values(BUILT_IN_MESSAGES)) {
+            expect(Object.keys(catalog)).toEqual(Object.keys(MESSAGE_PLACEHOLDERS));
+            for (const [key, template] of Object.entries(catalog)) {
+                expect(parseTemplate(template as string).placeholders.sort())
+                    .toEqual([...MESSAGE_PLACEHOLDERS[key as keyof typeof MESSAGE_PLACEHOLDERS]].sort());
+            }
+        }
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { decorateToolMeta, decorateCallMeta, META_KEY } from '../src/MetaDecorator.js';
+import type { McpCallResult, McpToolDef } from '../src/types.js';
+
+const tool: McpToolDef = {
+    name: 'sprints.get',
+    description: 'Get sprint details.',
+    inputSchema: { type: 'object' },
+};
+
+const result: McpCallResult = { content: [{ type: 'text', text: 'ok' }] };
+
+const record = {
+    invalidated: ['sprints.*'],
+    causedBy: 'sprints.update',
+    version: 3,
+    timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+describe('decorateToolMeta', () => {
+    it('attaches the directive under the StateSync key', () => {
+        const decorated = decorateToolMeta(tool, { cacheControl: 'max-calls=3' });
+        expect(decorated._meta).toEqual({ 'io.vinkius/state-sync': { cacheControl: 'max-calls=3' } });
+        expect(decorated.description).toBe('Get sprint details.');
+    });
+
+    it('preserves other _meta keys and replaces its own', () => {
+        const once = decorateToolMeta({ ...tool, _meta: { 'acme/owner': 'team-a' } }, { cacheControl: 'no-store' });
+        const twice = decorateToolMeta(once, { cacheControl: 'immutable' });
+        expect(twice._meta).toEqual({ 'acme/owner': 'team-a', [META_KEY]: { cacheControl: 'immutable' } });
+    });
+
+    it('returns the tool unchanged without a directive', () => {
+        expect(decorateToolMeta(tool, null)).toBe(tool);
+        expect(decorateToolMeta(tool, { invalidates: ['sprints.*'] })).toBe(tool);
+    });
+});
+
+describe('decorateCallMeta', () => {
+    it('attaches invalidation and expiry records, leaving content untouched', () => {
+        const decorated = decorateCallMeta(result, {
+            invalidations: [record],
+            expired: [{ tool: 'dashboard.stats', maxCalls: 2 }],
+        });
+        expect(decorated.content).toBe(result.content);
+        expect(decorated._meta).toEqual({
+            [META_KEY]: { invalidations: [record], expired: [{ tool: 'dashboard.stats', maxCalls: 2 }] },
+        });
+    });
+
+    it('omits empty lists and preserves other _meta keys', () => {
+        const decorated = decorateCallMeta({ ...result, _meta: { 'acme/trace': 'x' } }, {
+            invalidations: [record],
+            expired: [],
+        });
+        expect(decorated._meta).toEqual({ 'acme/trace': 'x', [META_KEY]: { invalidations: [record] } });
+    });
+
+    it('returns the result unchanged when there is nothing to report', () => {
+        expect(decorateCallMeta(result, {})).toBe(result);
+        expect(decorateCallMeta(result, { invalidations: [], expired: [] })).toBe(result);
+    });
+});
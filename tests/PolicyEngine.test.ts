@@ -80,6 +80,24 @@ describe('PolicyEngine', () => {
         expect(first).toBe(second); // Same reference
     });
 
+    it('bounds the cache to cacheSize entries, evicting the least recently used', () => {
+        const engine = new PolicyEngine([{ match: 'sprints.*', cacheControl: 'no-store' }], undefined, { cacheSize: 2 });
+
+        const get = engine.resolve('sprints.get');
+        const list = engine.resolve('sprints.list');
+        engine.resolve('sprints.get');
+        engine.resolve('sprints.update'); // evicts sprints.list
+
+        expect(engine.resolve('sprints.get')).toBe(get);
+        expect(engine.resolve('sprints.list')).not.toBe(list);
+        expect(engine.resolve('sprints.list')).toEqual(list);
+    });
+
+    it('rejects a non-positive cacheSize', () => {
+        expect(() => new PolicyEngine([], undefined, { cacheSize: 0 }))
+            .toThrow('PolicyEngine: cacheSize must be a positive integer, received 0.');
+    });
+
     // ── Resolved Policy Immutability ────────────────────────────────
 
     it('returns frozen resolved policies', () => {
@@ -91,4 +109,240 @@ describe('PolicyEngine', () => {
         expect(Object.isFrozen(result)).toBe(true);
         expect(Object.isFrozen(result?.invalidates)).toBe(true);
     });
+
+    // ── Annotation Inference ────────────────────────────────────────
+
+    const create = {
+        name: 'sprints.create',
+        inputSchema: {},
+        annotations: { readOnlyHint: false, destructiveHint: false },
+    };
+    const get = { name: 'sprints.get', inputSchema: {}, annotations: { readOnlyHint: true } };
+
+    it('infers invalidation of the own namespace for annotated writes', () => {
+        const engine = new PolicyEngine([], { cacheControl: 'no-store' }, { inferFromAnnotations: true });
+
+        expect(engine.resolve('sprints.create', create)).toEqual({
+            cacheControl: 'no-store',
+            invalidates: ['sprints.*'],
+            inferred: true,
+        });
+        expect(engine.resolve('sprints.get', get)).toEqual({ cacheControl: 'no-store', inferred: true });
+    });
+
+    it('lets explicit invalidates win over inferred ones', () => {
+        const engine = new PolicyEngine(
+            [
+                { match: 'sprints.create', invalidates: ['sprints.*', 'tasks.*'] },
+                { match: 'sprints.archive', invalidates: [] },
+            ],
+            undefined,
+            { inferFromAnnotations: true },
+        );
+
+        expect(engine.resolve('sprints.create', create)?.invalidates).toEqual(['sprints.*', 'tasks.*']);
+        expect(engine.resolve('sprints.archive', { ...create, name: 'sprints.archive' })).toBeNull();
+    });
+
+    it('fills invalidates of an explicit policy that sets only cacheControl', () => {
+        const engine = new PolicyEngine(
+            [{ match: 'sprints.*', cacheControl: 'no-store' }],
+            undefined,
+            { inferFromAnnotations: true },
+        );
+
+        expect(engine.resolve('sprints.create', create)).toEqual({
+            cacheControl: 'no-store',
+            invalidates: ['sprints.*'],
+            inferred: true,
+        });
+    });
+
+    it('ignores annotations unless inference is enabled', () => {
+        const engine = new PolicyEngine([]);
+        expect(engine.resolve('sprints.create', create)).toBeNull();
+    });
+
+    // ── Explain ─────────────────────────────────────────────────────
+
+    it('explains the matched policy and why earlier ones failed', () => {
+        const engine = new PolicyEngine(
+            [
+                { match: 'tasks.*', cacheControl: 'no-store' },
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+                { match: 'sprints.*', invalidates: ['sprints.*'] },
+            ],
+            { cacheControl: 'no-store' },
+        );
+
+        expect(engine.explain('sprints.get')).toEqual({
+            toolName: 'sprints.get',
+            matched: { index: 2, match: 'sprints.*' },
+            tried: [
+                { index: 0, match: 'tasks.*', reason: 'segment 1: "sprints" does not match "tasks"' },
+                { index: 1, match: 'sprints.update', reason: 'segment 2: "get" does not match "update"' },
+            ],
+            fromDefaults: ['cacheControl'],
+            fromAnnotations: [],
+            resolved: { cacheControl: 'no-store', invalidates: ['sprints.*'] },
+        });
+    });
+
+    it('explains a fallback to defaults', () => {
+        const engine = new PolicyEngine([{ match: 'sprints.*' }], { cacheControl: 'immutable' });
+        const trace = engine.explain('countries.list');
+
+        expect(trace.matched).toBeNull();
+        expect(trace.tried).toHaveLength(1);
+        expect(trace.fromDefaults).toEqual(['cacheControl']);
+        expect(trace.resolved).toBe(engine.resolve('countries.list'));
+    });
+
+    it('explains inferred invalidates', () => {
+        const engine = new PolicyEngine([], undefined, { inferFromAnnotations: true });
+        const trace = engine.explain('sprints.create', create);
+
+        expect(trace.fromAnnotations).toEqual(['invalidates']);
+        expect(trace.resolved?.invalidates).toEqual(['sprints.*']);
+    });
+
+    // ── RegExp and Predicate Matchers ───────────────────────────────
+
+    const refund = { name: 'refund_order', inputSchema: {}, annotations: { category: 'billing' } };
+    const isBilling = (tool: { annotations?: Record<string, unknown> }) => tool.annotations?.category === 'billing';
+
+    it('matches tool names against a RegExp', () => {
+        const engine = new PolicyEngine([{ match: /^refund_/, invalidates: ['orders.*'] }]);
+        expect(engine.resolve('refund_order')?.invalidates).toEqual(['orders.*']);
+        expect(engine.resolve('get_order')).toBeNull();
+    });
+
+    it('matches tool definitions against a predicate', () => {
+        const engine = new PolicyEngine([{ match: isBilling, cacheControl: 'no-store' }]);
+        expect(engine.resolve('refund_order', refund)?.cacheControl).toBe('no-store');
+        expect(engine.resolve('get_order', { name: 'get_order', inputSchema: {} })).toBeNull();
+    });
+
+    it('keeps first-match-wins across globs, RegExps and predicates', () => {
+        const engine = new PolicyEngine([
+            { match: /^refund_/, cacheControl: 'immutable' },
+            { match: 'refund_order', cacheControl: 'no-store' },
+            { match: isBilling, cacheControl: 'max-calls=3' },
+            { match: '**', cacheControl: 'no-store' },
+        ]);
+        expect(engine.resolve('refund_order', refund)?.cacheControl).toBe('immutable');
+        expect(engine.resolve('charge', { ...refund, name: 'charge' })?.cacheControl).toBe('max-calls=3');
+        expect(engine.resolve('list', { name: 'list', inputSchema: {} })?.cacheControl).toBe('no-store');
+    });
+
+    it('does not cache resolutions without a tool definition when a predicate is configured', () => {
+        const engine = new PolicyEngine([{ match: isBilling, cacheControl: 'no-store' }]);
+        expect(engine.needsToolDefinition).toBe(true);
+        expect(engine.resolve('refund_order')).toBeNull();
+        expect(engine.resolve('refund_order', refund)?.cacheControl).toBe('no-store');
+    });
+
+    it('needs no tool definition for globs and RegExps', () => {
+        expect(new PolicyEngine([{ match: /x/ }, { match: 'a.*' }]).needsToolDefinition).toBe(false);
+    });
+
+    it('explains RegExp and predicate mismatches', () => {
+        const engine = new PolicyEngine([
+            { match: /^get_/, cacheControl: 'no-store' },
+            { match: isBilling, cacheControl: 'no-store' },
+        ]);
+        const trace = engine.explain('refund_order', refund);
+
+        expect(trace.tried).toEqual([{ index: 0, match: '/^get_/', reason: '"refund_order" does not match /^get_/' }]);
+        expect(trace.matched).toEqual({ index: 1, match: '<predicate isBilling>' });
+    });
+});
+
+describe('PolicyEngine — resources', () => {
+    const engine = new PolicyEngine([], { cacheControl: 'no-store' }, {
+        resources: [
+            { match: 'jira://sprints/*', cacheControl: 'max-calls=3' },
+            { match: 'jira://**', cacheControl: 'immutable' },
+        ],
+    });
+
+    it('resolves the first matching resource policy', () => {
+        expect(engine.resolveResource('jira://sprints/42')).toEqual({ cacheControl: 'max-calls=3' });
+        expect(engine.resolveResource('jira://boards/1/columns')).toEqual({ cacheControl: 'immutable' });
+    });
+
+    it('resolves URI templates by globs covering every instance', () => {
+        expect(engine.resolveResource('jira://sprints/{sprintId}')).toEqual({ cacheControl: 'max-calls=3' });
+    });
+
+    it('does not apply defaults to resources', () => {
+        expect(engine.resolveResource('file:///docs/a.md')).toBeNull();
+    });
+
+    it('keeps tool and resource resolution separate', () => {
+        expect(engine.resolve('jira://sprints/42')).toEqual({ cacheControl: 'no-store' });
+    });
+});
+
+describe('PolicyEngine — accumulate resolution', () => {
+    const policies = [
+        { match: 'sprints.get', cacheControl: 'immutable' as const },
+        { match: 'sprints.*', cacheControl: 'no-store' as const, invalidates: ['sprints.*'] },
+        { match: 'sprints.archive', final: true },
+        { match: '*.{create,update,archive}', invalidates: ['audit.*', 'sprints.*'] },
+    ];
+    const engine = new PolicyEngine(policies, undefined, { resolution: 'accumulate' });
+
+    it('unites invalidates and takes other fields from the first policy setting them', () => {
+        expect(engine.resolve('sprints.update')).toEqual({
+            cacheControl: 'no-store',
+            invalidates: ['sprints.*', 'audit.*'],
+        });
+        expect(engine.resolve('sprints.get')).toEqual({ cacheControl: 'immutable', invalidates: ['sprints.*'] });
+    });
+
+    it('stops at a final policy', () => {
+        expect(engine.resolve('sprints.archive')).toEqual({ cacheControl: 'no-store', invalidates: ['sprints.*'] });
+    });
+
+    it('keeps caching and freezing guarantees', () => {
+        const resolved = engine.resolve('sprints.update');
+        expect(engine.resolve('sprints.update')).toBe(resolved);
+        expect(Object.isFrozen(resolved)).toBe(true);
+        expect(Object.isFrozen(resolved?.invalidates)).toBe(true);
+    });
+
+    it('ignores final and later matches in first-match mode', () => {
+        const firstMatch = new PolicyEngine(policies);
+        expect(firstMatch.resolve('sprints.update')).toEqual({ cacheControl: 'no-store', invalidates: ['sprints.*'] });
+    });
+
+    it('fills invalidates from annotations when no accumulated policy sets them', () => {
+        const inferring = new PolicyEngine(
+            [{ match: 'sprints.*', cacheControl: 'no-store' }, { match: '**', memoize: false }],
+            undefined,
+            { resolution: 'accumulate', inferFromAnnotations: true },
+        );
+        const resolved = inferring.resolve('sprints.create', {
+            name: 'sprints.create', inputSchema: {}, annotations: { readOnlyHint: false },
+        });
+        expect(resolved).toEqual({
+            cacheControl: 'no-store', invalidates: ['sprints.*'], memoize: false, inferred: true,
+        });
+    });
+
+    it('lists accumulated policies in the trace', () => {
+        const trace = engine.explain('sprints.archive');
+        expect(trace.matched).toEqual({ index: 1, match: 'sprints.*' });
+        expect(trace.accumulated).toEqual([
+            { index: 1, match: 'sprints.*' },
+            { index: 2, match: 'sprints.archive' },
+        ]);
+        expect(new PolicyEngine(policies).explain('sprints.archive').accumulated).toBeUndefined();
+    });
+
+    it('rejects an unknown resolution mode', () => {
+        expect(() => new PolicyEngine([], undefined, { resolution: 'merge' as 'accumulate' }))
+            .toThrow('invalid resolution "merge". Allowed: "first-match", "accumulate".');
+    });
 });
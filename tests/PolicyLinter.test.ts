@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { lintPolicies } from '../src/PolicyLinter.js';
+import type { McpToolDef } from '../src/types.js';
+
+function tool(name: string, annotations?: Record<string, unknown>): McpToolDef {
+    return { name, inputSchema: { type: 'object' }, ...(annotations && { annotations }) };
+}
+
+const tools = [
+    tool('sprints.get'),
+    tool('sprints.update'),
+    tool('tasks.list'),
+];
+
+describe('lintPolicies', () => {
+    it('returns no findings for a clean config', () => {
+        expect(lintPolicies({
+            policies: [
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+                { match: '**', cacheControl: 'no-store' },
+            ],
+        }, tools)).toEqual([]);
+    });
+
+    it('reports policies shadowed by an earlier glob', () => {
+        const findings = lintPolicies({
+            policies: [
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+                { match: 'sprints.*', cacheControl: 'no-store' },
+                { match: 'sprints.get', cacheControl: 'immutable' },
+            ],
+        }, tools);
+
+        expect(findings).toEqual([{
+            code: 'shadowed-policy',
+            severity: 'error',
+            message:
+                'Policy[2] (match: "sprints.get") can never match: ' +
+                'shadowed by Policy[1] (match: "sprints.*").',
+            path: ['policies', 2, 'match'],
+        }]);
+    });
+
+    it('reports policies that match no tool', () => {
+        const findings = lintPolicies({
+            policies: [
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+                { match: 'countries.*', cacheControl: 'immutable' },
+            ],
+        }, tools);
+
+        expect(findings.map(f => [f.code, f.severity, f.path])).toEqual([
+            ['unmatched-policy', 'warning', ['policies', 1, 'match']],
+        ]);
+    });
+
+    it('reports invalidation targets that match no tool', () => {
+        const findings = lintPolicies({
+            policies: [{ match: 'sprints.update', invalidates: ['sprints.*', 'sprint.get{id=$args.id}'] }],
+        }, tools);
+
+        expect(findings).toEqual([{
+            code: 'dead-invalidation',
+            severity: 'warning',
+            message:
+                'Policy[0] (match: "sprints.update"): invalidates "sprint.get{id=$args.id}", ' +
+                'which matches no known tool.',
+            path: ['policies', 0, 'invalidates', 1],
+        }]);
+    });
+
+    it('does not check resource URI invalidation targets', () => {
+        const findings = lintPolicies({
+            policies: [{ match: 'sprints.update', invalidates: ['sprints.*', 'jira://sprints/{$args.id}'] }],
+        }, tools);
+
+        expect(findings.filter(f => f.code === 'dead-invalidation')).toEqual([]);
+    });
+
+    it('reports write-looking tools without invalidates', () => {
+        const findings = lintPolicies({ policies: [] }, [
+            tool('sprints.update'),
+            tool('tasks.update_status'),
+            tool('users.setRole'),
+            tool('tasks.list'),
+            tool('reports.settle', { readOnlyHint: false }),
+            tool('tasks.deleteCheck', { readOnlyHint: true }),
+        ]);
+
+        expect(findings.filter(f => f.code === 'unguarded-write').map(f => f.tool)).toEqual([
+            'sprints.update', 'tasks.update_status', 'users.setRole', 'reports.settle',
+        ]);
+    });
+
+    it('counts inferred invalidates as guarded', () => {
+        const findings = lintPolicies({
+            policies: [],
+            inferFromAnnotations: true,
+        }, [tool('sprints.update', { readOnlyHint: false })]);
+
+        expect(findings).toEqual([]);
+    });
+
+    it('reports shadowing in accumulate mode only behind a final policy', () => {
+        const lint = (final: boolean) => lintPolicies({
+            resolution: 'accumulate',
+            policies: [
+                { match: 'sprints.*', cacheControl: 'no-store', final },
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+            ],
+        }, tools).map(f => f.code);
+
+        expect(lint(false)).toEqual([]);
+        expect(lint(true)).toEqual(['shadowed-policy', 'unguarded-write']);
+    });
+
+    it('lints RegExp and predicate matchers against the tools', () => {
+        const findings = lintPolicies({
+            policies: [
+                { match: /^sprints\./, cacheControl: 'no-store' },
+                { match: 'sprints.get', cacheControl: 'immutable' },
+                { match: t => t.annotations?.category === 'billing', cacheControl: 'no-store' },
+            ],
+        }, tools);
+
+        expect(findings.map(f => [f.code, f.path])).toEqual([
+            ['unmatched-policy', ['policies', 2, 'match']],
+            ['unguarded-write', undefined],
+        ]);
+        expect(findings[0].message).toBe('Policy[2] (match: "<predicate match>") matches no known tool.');
+    });
+
+    it('throws on an invalid config', () => {
+        expect(() => lintPolicies({ policies: [{ match: '' }] }, tools))
+            .toThrow('non-empty string');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { matchTool, explainMatchMismatch, describeMatch } from '../src/PolicyMatch.js';
+import type { McpToolDef } from '../src/types.js';
+
+const refund: McpToolDef = {
+    name: 'refund_order',
+    inputSchema: { type: 'object' },
+    annotations: { category: 'billing' },
+};
+
+const isBilling = (tool: McpToolDef) => tool.annotations?.category === 'billing';
+
+describe('matchTool', () => {
+    it('tests a RegExp against the tool name', () => {
+        expect(matchTool(/^refund_/, 'refund_order')).toBe(true);
+        expect(matchTool(/^refund_/, 'get_order')).toBe(false);
+    });
+
+    it('ignores the lastIndex state of global patterns', () => {
+        const pattern = /order/g;
+        expect(matchTool(pattern, 'refund_order')).toBe(true);
+        expect(matchTool(pattern, 'refund_order')).toBe(true);
+    });
+
+    it('calls a predicate with the tool definition', () => {
+        expect(matchTool(isBilling, 'refund_order', refund)).toBe(true);
+        expect(matchTool(isBilling, 'get_order', { name: 'get_order', inputSchema: {} })).toBe(false);
+    });
+
+    it('does not match a predicate without a tool definition', () => {
+        expect(matchTool(() => true, 'refund_order')).toBe(false);
+    });
+
+    it('does not match when the predicate throws', () => {
+        expect(matchTool(() => { throw new Error('boom'); }, 'refund_order', refund)).toBe(false);
+    });
+});
+
+describe('explainMatchMismatch', () => {
+    it('returns null on a match', () => {
+        expect(explainMatchMismatch(/order/, 'refund_order')).toBeNull();
+    });
+
+    it('explains RegExp and predicate mismatches', () => {
+        expect(explainMatchMismatch(/^get_/, 'refund_order')).toBe('"refund_order" does not match /^get_/');
+        expect(explainMatchMismatch(() => false, 'refund_order', refund)).toBe('predicate returned false');
+        expect(explainMatchMismatch(() => true, 'refund_order')).toBe('predicate needs the tool definition');
+    });
+});
+
+describe('describeMatch', () => {
+    it('describes globs, RegExps and predicates', () => {
+        expect(describeMatch('sprints.*')).toBe('sprints.*');
+        expect(describeMatch(/^billing_/i)).toBe('/^billing_/i');
+        expect(describeMatch(isBilling)).toBe('<predicate isBilling>');
+        expect(describeMatch(() => true)).toBe('<predicate>');
+    });
+});
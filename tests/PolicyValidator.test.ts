@@ -1,5 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import { PolicyEngine } from '../src/PolicyEngine.js';
+import {
+    validateMemoize,
+    validateSessions,
+    validateChannels,
+    validateMessages,
+    validateResourcePolicies,
+    validateSyncConfig,
+    validateKnownKeys,
+    isValidDirective,
+    parseMaxCalls,
+    ConfigValidationError,
+} from '../src/PolicyValidator.js';
 
 describe('PolicyValidator (via PolicyEngine construction)', () => {
     it('throws on empty match pattern', () => {
@@ -12,12 +24,52 @@ describe('PolicyValidator (via PolicyEngine construction)', () => {
             .toThrow('invalid segment "@invalid"');
     });
 
+    it('throws on a non-boolean final', () => {
+        expect(() => new PolicyEngine([{ match: 'a.*', final: 'yes' as unknown as boolean }]))
+            .toThrow(`Policy[0] (match: "a.*"): 'final' must be a boolean.`);
+    });
+
+    it('accepts RegExp and predicate matchers', () => {
+        expect(() => new PolicyEngine([{ match: /^billing_/ }, { match: () => true }])).not.toThrow();
+    });
+
+    it('throws on a match that is neither a string, a RegExp nor a function', () => {
+        expect(() => new PolicyEngine([{ match: 42 as unknown as string }])).toThrow(
+            `Policy[0] (match: "42"): 'match' must be a non-empty string, a RegExp or a function.`,
+        );
+    });
+
+    it('accepts extended globs and reports syntax errors with their column', () => {
+        expect(() => new PolicyEngine([
+            { match: 'sprints.{create,update,delete}', invalidates: ['sprints.*', '!sprints.archive.*'] },
+            { match: 'billing.refund_*' },
+        ])).not.toThrow();
+        expect(() => new PolicyEngine([{ match: 'sprints.{create,update' }]))
+            .toThrow('Policy[0] (match: "sprints.{create,update"): unclosed "{" at column 9.');
+    });
+
     it('throws on invalid cacheControl value', () => {
         expect(() => new PolicyEngine([
             { match: 'sprints.*', cacheControl: 'max-age=300' as any },
         ])).toThrow('invalid cacheControl "max-age=300"');
     });
 
+    it('accepts max-calls=N directives with a positive integer N', () => {
+        expect(() => new PolicyEngine([{ match: 'dashboard.*', cacheControl: 'max-calls=5' }])).not.toThrow();
+        expect(() => new PolicyEngine([], { cacheControl: 'max-calls=1' })).not.toThrow();
+        expect(() => new PolicyEngine([
+            { match: 'dashboard.*', cacheControl: 'max-calls=0' as any },
+        ])).toThrow('invalid cacheControl "max-calls=0". Allowed: "no-store", "immutable", "max-calls=N"');
+        expect(isValidDirective('max-calls=1.5')).toBe(false);
+        expect(isValidDirective('max-calls=')).toBe(false);
+    });
+
+    it('parses N from max-calls=N', () => {
+        expect(parseMaxCalls('max-calls=12')).toBe(12);
+        expect(parseMaxCalls('no-store')).toBeUndefined();
+        expect(parseMaxCalls(undefined)).toBeUndefined();
+    });
+
     it('throws on non-array invalidates', () => {
         expect(() => new PolicyEngine([
             { match: 'sprints.update', invalidates: 'sprints.*' as any },
@@ -30,6 +82,131 @@ describe('PolicyValidator (via PolicyEngine construction)', () => {
         ])).toThrow('must be non-empty strings');
     });
 
+    it('throws on malformed invalidation template', () => {
+        expect(() => new PolicyEngine([
+            { match: 'tasks.update', invalidates: ['tasks.get{id=$args.taskId'] },
+        ])).toThrow('Policy[0] (match: "tasks.update"): invalid invalidation template');
+    });
+
+    it('throws on non-boolean memoize', () => {
+        expect(() => new PolicyEngine([
+            { match: 'regions.*', memoize: 'yes' as any },
+        ])).toThrow("'memoize' must be a boolean");
+    });
+
+    it('throws on invalid memoize.maxEntries', () => {
+        expect(() => validateMemoize({ maxEntries: 0 }))
+            .toThrow('memoize.maxEntries must be a positive integer');
+        expect(() => validateMemoize({ maxEntries: 10 })).not.toThrow();
+    });
+
+    it('throws on invalid memoize.scope', () => {
+        expect(() => validateMemoize({ scope: 'global' as 'shared' }))
+            .toThrow(`memoize.scope must be 'session' or 'shared', received "global".`);
+        expect(() => validateMemoize({ scope: 'shared' })).not.toThrow();
+        expect(() => validateMemoize(true)).not.toThrow();
+    });
+
+    it('throws on non-boolean rejectStaleWrites', () => {
+        expect(() => new PolicyEngine([
+            { match: 'transfers.create', rejectStaleWrites: 1 as any },
+        ])).toThrow("'rejectStaleWrites' must be a boolean");
+    });
+
+    it('throws on invalid sessions config', () => {
+        expect(() => validateSessions({ trackReads: 'yes' as any }))
+            .toThrow('sessions.trackReads must be a boolean');
+        expect(() => validateSessions({ ttlMs: -5 }))
+            .toThrow('sessions.ttlMs must be a positive number');
+        expect(() => validateSessions({ trackReads: true, ttlMs: 60_000 })).not.toThrow();
+    });
+
+    it('throws on invalid channels config', () => {
+        expect(() => validateChannels({ meta: 'yes' as any })).toThrow('channels.meta must be a boolean');
+        expect(() => validateChannels({ text: false }))
+            .toThrow('at least one channel (text or meta) must be enabled');
+        expect(() => validateSyncConfig({ policies: [], channels: { text: false, meta: false } }))
+            .toThrow('at least one channel');
+        expect(() => validateChannels({ text: false, meta: true })).not.toThrow();
+        expect(() => validateChannels({ meta: true })).not.toThrow();
+    });
+
+    it('throws on invalid messages config', () => {
+        expect(() => validateMessages({ locale: 'fr' as any }))
+            .toThrow('invalid locale "fr". Allowed: "en", "pt-BR", "es"');
+        expect(() => validateMessages({ templates: { greeting: 'hi' } as any }))
+            .toThrow('unknown template "greeting"');
+        expect(() => validateMessages({ templates: { expired: '' } }))
+            .toThrow('messages.templates.expired must be a non-empty string or a function');
+        expect(() => validateMessages({ templates: { invalidated: '{domains} by {tool}' } }))
+            .toThrow('messages.templates.invalidated: unknown placeholder "{tool}". Allowed: {domains}, {causedBy}.');
+        expect(() => validateMessages({ templates: { cacheControl: '[cache]' } }))
+            .toThrow('messages.templates.cacheControl must contain "{directive}"');
+        expect(() => validateSyncConfig({
+            policies: [],
+            messages: { locale: 'es', templates: { invalidated: '{{ok}} {domains}', expired: () => 'x' } },
+        })).not.toThrow();
+    });
+
+    it('throws on non-boolean inferFromAnnotations', () => {
+        expect(() => validateSyncConfig({ policies: [], inferFromAnnotations: 'yes' }))
+            .toThrow("'inferFromAnnotations' must be a boolean");
+        expect(() => validateSyncConfig({ policies: [], inferFromAnnotations: true })).not.toThrow();
+    });
+
+    it('throws on an unknown onError mode', () => {
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'inventory.bulkAdjust', onError: 'retry' }],
+        })).toThrow('invalid onError "retry". Allowed: "skip", "invalidate", "invalidate-with-warning"');
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'inventory.bulkAdjust', onError: 'invalidate-with-warning' }],
+        })).not.toThrow();
+    });
+
+    it('throws on an unknown onException mode and a non-positive timeoutMs', () => {
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'orders.cancel', onException: 'retry' }],
+        })).toThrow('invalid onException "retry"');
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'orders.cancel', timeoutMs: 0 }],
+        })).toThrow("'timeoutMs' must be a positive number, received 0");
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'orders.cancel', onException: 'invalidate', timeoutMs: 5000 }],
+        })).not.toThrow();
+    });
+
+    it('throws on a non-function success predicate', () => {
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'orders.cancel', success: 'status == ok' }],
+        })).toThrow("'success' must be a function");
+        expect(() => validateSyncConfig({
+            policies: [{ match: 'orders.cancel', success: () => true }],
+        })).not.toThrow();
+    });
+
+    it('throws on malformed resource policies', () => {
+        expect(() => validateResourcePolicies({} as any)).toThrow("'resources' must be an array");
+        expect(() => validateResourcePolicies([{ match: '', cacheControl: 'no-store' }]))
+            .toThrow(`Resource[0] (match: ""): 'match' must be a non-empty URI glob.`);
+        expect(() => validateResourcePolicies([{ match: 'jira://{a', cacheControl: 'no-store' }]))
+            .toThrow('Resource[0] (match: "jira://{a"): unclosed "{" at column 8.');
+        expect(() => validateSyncConfig({ policies: [], resources: [{ match: 'jira://*' } as any] }))
+            .toThrow('Resource[0] (match: "jira://*"): cacheControl "undefined" is invalid');
+    });
+
+    it('reports the path of an invalid resource policy', () => {
+        try {
+            validateResourcePolicies([
+                { match: 'jira://*', cacheControl: 'immutable' },
+                { match: 'jira://*', cacheControl: 'max-age=1' as any },
+            ]);
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(ConfigValidationError);
+            expect((err as ConfigValidationError).path).toEqual(['resources', 1, 'cacheControl']);
+        }
+    });
+
     it('throws on invalid default cacheControl', () => {
         expect(() => new PolicyEngine(
             [],
@@ -42,7 +219,40 @@ describe('PolicyValidator (via PolicyEngine construction)', () => {
             { match: 'sprints.*', cacheControl: 'no-store' },
             { match: 'countries.**', cacheControl: 'immutable' },
             { match: 'tasks.update', invalidates: ['tasks.*', 'sprints.*'] },
+            { match: 'tasks.delete', invalidates: ['tasks.get{id=$args.taskId}'] },
             { match: '**' },
         ])).not.toThrow();
     });
 });
+
+describe('validateKnownKeys', () => {
+    it('rejects keys the JSON Schema does not allow', () => {
+        const err = (() => {
+            try {
+                validateKnownKeys({ policies: [{ match: 'sprints.*', cacheControll: 'no-store' } as any] });
+            } catch (e) {
+                return e as ConfigValidationError;
+            }
+        })();
+        expect(err).toBeInstanceOf(ConfigValidationError);
+        expect(err?.path).toEqual(['policies', 0, 'cacheControll']);
+        expect(err?.message).toMatch(/^Policy\[0\] \(match: "sprints\.\*"\): unknown key "cacheControll"\. Allowed: "match", /);
+    });
+
+    it('checks resources and nested objects', () => {
+        expect(() => validateKnownKeys({ policies: [], resources: [{ match: 'jira://*', cacheControl: 'no-store', ttl: 1 } as any] }))
+            .toThrow('Resource[0] (match: "jira://*"): unknown key "ttl".');
+        expect(() => validateKnownKeys({ policies: [], channels: { text: true, json: true } as any }))
+            .toThrow('unknown key "json". Allowed: "text", "meta".');
+    });
+
+    it('accepts every key of the schema', () => {
+        expect(() => validateKnownKeys({
+            policies: [{ match: 'a.*', cacheControl: 'no-store', invalidates: [], final: true }],
+            defaults: { cacheControl: 'no-store' },
+            memoize: { maxEntries: 1, scope: 'shared' },
+            sessions: { trackReads: true },
+            resources: [{ match: 'jira://*', cacheControl: 'no-store' }],
+        })).not.toThrow();
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { PrometheusMetrics } from '../src/PrometheusMetrics.js';
+import { SyncEventEmitter } from '../src/SyncEvents.js';
+
+function completed(tool: string, cacheControl: 'no-store' | 'immutable' | undefined, upstreamMs?: number) {
+    return {
+        tool,
+        sessionId: 's1',
+        durationMs: 1,
+        ...(upstreamMs !== undefined && { upstreamMs }),
+        isError: false,
+        policy: cacheControl ? { cacheControl } : null,
+    };
+}
+
+describe('PrometheusMetrics', () => {
+    it('counts calls per directive', () => {
+        const events = new SyncEventEmitter();
+        const metrics = new PrometheusMetrics();
+        metrics.attach(events);
+
+        events.emit('callCompleted', completed('sprints.get', 'no-store'));
+        events.emit('callCompleted', completed('sprints.list', 'no-store'));
+        events.emit('callCompleted', completed('countries.list', 'immutable'));
+        events.emit('callCompleted', completed('legacy.call', undefined));
+
+        const text = metrics.render();
+        expect(text).toContain('# TYPE mcp_state_sync_calls_total counter');
+        expect(text).toContain('mcp_state_sync_calls_total{directive="no-store",is_error="false"} 2');
+        expect(text).toContain('mcp_state_sync_calls_total{directive="immutable",is_error="false"} 1');
+        expect(text).toContain('mcp_state_sync_calls_total{directive="none",is_error="false"} 1');
+    });
+
+    it('counts resource invalidations per scheme and authority, not per entity', () => {
+        const events = new SyncEventEmitter();
+        const metrics = new PrometheusMetrics();
+        metrics.attach(events);
+
+        events.emit('invalidated', { patterns: ['jira://sprints/42', 'jira://sprints/43'], causedBy: 'sprints.update' });
+        events.emit('invalidated', { patterns: ['jira://boards/*', 'urn:isbn:0451450523'], causedBy: 'boards.sync' });
+
+        const text = metrics.render();
+        expect(text).toContain('mcp_state_sync_invalidations_total{domain="jira://sprints"} 2');
+        expect(text).toContain('mcp_state_sync_invalidations_total{domain="jira://boards"} 1');
+        expect(text).toContain('mcp_state_sync_invalidations_total{domain="urn:"} 1');
+        expect(text).not.toContain('sprints/42');
+    });
+
+    it('counts invalidations per domain glob', () => {
+        const events = new SyncEventEmitter();
+        const metrics = new PrometheusMetrics();
+        metrics.attach(events);
+
+        events.emit('invalidated', { patterns: ['tasks.get{id=1}', 'sprints.*'], causedBy: 'tasks.update' });
+        events.emit('invalidated', { patterns: ['tasks.get{id=2}'], causedBy: 'tasks.update' });
+
+        const text = metrics.render();
+        expect(text).toContain('mcp_state_sync_invalidations_total{domain="tasks.get"} 2');
+        expect(text).toContain('mcp_state_sync_invalidations_total{domain="sprints.*"} 1');
+    });
+
+    it('renders a cumulative upstream latency histogram', () => {
+        const events = new SyncEventEmitter();
+        const metrics = new PrometheusMetrics({ buckets: [0.1, 1] });
+        metrics.attach(events);
+
+        events.emit('callCompleted', completed('sprints.get', 'no-store', 50));
+        events.emit('callCompleted', completed('sprints.get', 'no-store', 500));
+        events.emit('callCompleted', completed('sprints.get', 'no-store', 5000));
+        events.emit('callCompleted', completed('sprints.get', 'no-store'));
+
+        const lines = metrics.render().split('\n').filter(l => l.startsWith('mcp_state_sync_upstream'));
+        expect(lines).toEqual([
+            'mcp_state_sync_upstream_latency_seconds_bucket{tool="sprints.get",le="0.1"} 1',
+            'mcp_state_sync_upstream_latency_seconds_bucket{tool="sprints.get",le="1"} 2',
+            'mcp_state_sync_upstream_latency_seconds_bucket{tool="sprints.get",le="+Inf"} 3',
+            'mcp_state_sync_upstream_latency_seconds_sum{tool="sprints.get"} 5.55',
+            'mcp_state_sync_upstream_latency_seconds_count{tool="sprints.get"} 3',
+        ]);
+    });
+
+    it('escapes label values', () => {
+        const events = new SyncEventEmitter();
+        const metrics = new PrometheusMetrics({ prefix: 'app' });
+        metrics.attach(events);
+
+        events.emit('callCompleted', completed('odd"name\\x', 'no-store', 1));
+
+        expect(metrics.render()).toContain('app_upstream_latency_seconds_count{tool="odd\\"name\\\\x"} 1');
+    });
+
+    it('stops counting after detaching', () => {
+        const events = new SyncEventEmitter();
+        const metrics = new PrometheusMetrics();
+        const detach = metrics.attach(events);
+
+        detach();
+        events.emit('callCompleted', completed('sprints.get', 'no-store'));
+
+        expect(metrics.render()).not.toContain('mcp_state_sync_calls_total{');
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => new PrometheusMetrics({ prefix: 'bad-prefix' })).toThrow('invalid metric prefix');
+        expect(() => new PrometheusMetrics({ buckets: [] })).toThrow('buckets must be positive');
+    });
+});
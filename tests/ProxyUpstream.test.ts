@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+    ListToolsRequestSchema,
+    CallToolRequestSchema,
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+    ToolListChangedNotificationSchema,
+    CreateMessageRequestSchema,
+    ListRootsRequestSchema,
+    ElicitRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { StateSync } from '../src/StateSync.js';
+import { isClient, createProxyUpstream } from '../src/ProxyUpstream.js';
+import type { SyncConfig } from '../src/types.js';
+
+// ── Upstream MCP Server (a third-party server we do not own) ────────
+
+function createUpstreamServer() {
+    const server = new Server(
+        { name: 'jira', version: '1.0.0' },
+        { capabilities: { tools: {}, prompts: {}, resources: { subscribe: true } } },
+    );
+    const subscribe = vi.fn().mockReturnValue({});
+
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+        tools: [
+            { name: 'sprints.get', description: 'Get sprint.', inputSchema: { type: 'object' as const } },
+            { name: 'sprints.update', description: 'Update sprint.', inputSchema: { type: 'object' as const } },
+        ],
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const progressToken = request.params._meta?.progressToken;
+        if (progressToken !== undefined) {
+            await extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress: 1, total: 2 },
+            });
+        }
+        return { content: [{ type: 'text' as const, text: JSON.stringify(request.params.arguments) }] };
+    });
+    server.setRequestHandler(ListPromptsRequestSchema, () => ({
+        prompts: [{ name: 'plan-sprint', description: 'Plan a sprint.' }],
+    }));
+    server.setRequestHandler(GetPromptRequestSchema, request => ({
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text: `Plan ${request.params.arguments?.sprint}` } }],
+    }));
+    server.setRequestHandler(ListResourcesRequestSchema, () => ({
+        resources: [{ uri: 'jira://sprints/42', name: 'Sprint 42', description: 'Sprint 42.' }],
+    }));
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+        resourceTemplates: [{ uriTemplate: 'jira://sprints/{sprintId}', name: 'Sprint', description: 'A sprint.' }],
+    }));
+    server.setRequestHandler(ReadResourceRequestSchema, request => ({
+        contents: [{ uri: request.params.uri, text: '{"id":42}' }],
+    }));
+    server.setRequestHandler(SubscribeRequestSchema, subscribe);
+    server.setRequestHandler(UnsubscribeRequestSchema, () => ({}));
+
+    return { server, subscribe };
+}
+
+// ── Wiring: client → StateSync proxy → upstream ─────────────────────
+
+const open: { close(): Promise<void> }[] = [];
+
+afterEach(async () => {
+    await Promise.all(open.splice(0).map(c => c.close()));
+});
+
+async function connect(server: Server, capabilities: ClientCapabilities = {}): Promise<Client> {
+    const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities });
+    await server.connect(serverSide);
+    await client.connect(clientSide);
+    open.push(client, server);
+    return client;
+}
+
+async function createProxy(config: SyncConfig, clientCapabilities: ClientCapabilities = {}) {
+    const upstream = createUpstreamServer();
+    const proxyClient = await connect(upstream.server, clientCapabilities);
+
+    const front = new Server(
+        { name: 'state-sync-proxy', version: '1.0.0' },
+        { capabilities: proxyClient.getServerCapabilities() },
+    );
+    const sync = new StateSync(config);
+    sync.attachToServer(front, proxyClient);
+
+    return { upstream, sync, client: await connect(front, clientCapabilities) };
+}
+
+const config: SyncConfig = {
+    policies: [
+        { match: 'sprints.get', cacheControl: 'no-store' },
+        { match: 'sprints.update', invalidates: ['sprints.*', 'jira://sprints/{$args.id}'] },
+    ],
+    resources: [{ match: 'jira://sprints/*', cacheControl: 'no-store' }],
+};
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('ProxyUpstream', () => {
+    it('decorates the tools of the proxied server', async () => {
+        const { client } = await createProxy(config);
+
+        const { tools } = await client.listTools();
+
+        expect(tools.map(t => t.description)).toEqual([
+            'Get sprint. [Cache-Control: no-store]',
+            'Update sprint.',
+        ]);
+    });
+
+    it('forwards tools/call and applies invalidation', async () => {
+        const { client } = await createProxy(config);
+
+        const result = await client.callTool({ name: 'sprints.update', arguments: { id: 42 } });
+
+        expect(result.content).toEqual([
+            {
+                type: 'text',
+                text: '[System: Cache invalidated for sprints.*, jira://sprints/42 — caused by sprints.update]',
+            },
+            { type: 'text', text: '{"id":42}' },
+        ]);
+    });
+
+    it('forwards progress notifications of a call', async () => {
+        const { client } = await createProxy(config);
+        const onprogress = vi.fn();
+
+        await client.callTool({ name: 'sprints.get', arguments: {} }, undefined, { onprogress });
+
+        expect(onprogress).toHaveBeenCalledWith({ progress: 1, total: 2 });
+    });
+
+    it('passes prompts through unchanged', async () => {
+        const { client } = await createProxy(config);
+
+        const { prompts } = await client.listPrompts();
+        const prompt = await client.getPrompt({ name: 'plan-sprint', arguments: { sprint: '42' } });
+
+        expect(prompts).toEqual([{ name: 'plan-sprint', description: 'Plan a sprint.' }]);
+        expect(prompt.messages[0].content).toEqual({ type: 'text', text: 'Plan 42' });
+    });
+
+    it('decorates and reads resources of the proxied server', async () => {
+        const { client } = await createProxy(config);
+
+        const { resources } = await client.listResources();
+        const { resourceTemplates } = await client.listResourceTemplates();
+        const read = await client.readResource({ uri: 'jira://sprints/42' });
+
+        expect(resources[0].description).toBe('Sprint 42. [Cache-Control: no-store]');
+        expect(resourceTemplates[0].description).toBe('A sprint. [Cache-Control: no-store]');
+        expect(read.contents).toEqual([{ uri: 'jira://sprints/42', text: '{"id":42}' }]);
+    });
+
+    it('forwards subscriptions and notifies subscribers of invalidated resources', async () => {
+        const { client, upstream } = await createProxy(config);
+        const updated = new Promise(resolve => {
+            client.fallbackNotificationHandler = async notification => resolve(notification);
+        });
+
+        await client.subscribeResource({ uri: 'jira://sprints/42' });
+        await client.callTool({ name: 'sprints.update', arguments: { id: 42 } });
+
+        expect(upstream.subscribe).toHaveBeenCalledOnce();
+        await expect(updated).resolves.toMatchObject({
+            method: 'notifications/resources/updated',
+            params: { uri: 'jira://sprints/42' },
+        });
+    });
+
+    it('passes upstream notifications through to the client', async () => {
+        const { client, upstream } = await createProxy(config);
+        const changed = new Promise(resolve => {
+            client.setNotificationHandler(ToolListChangedNotificationSchema, notification => resolve(notification));
+        });
+
+        await upstream.server.sendToolListChanged();
+
+        await expect(changed).resolves.toEqual({ method: 'notifications/tools/list_changed' });
+    });
+
+    it('forwards sampling, roots and elicitation requests of the upstream to the client', async () => {
+        const { client, upstream } = await createProxy(config, { sampling: {}, roots: {}, elicitation: {} });
+        client.setRequestHandler(CreateMessageRequestSchema, () => ({
+            role: 'assistant' as const,
+            content: { type: 'text' as const, text: 'Sprint 42 looks good.' },
+            model: 'test-model',
+        }));
+        client.setRequestHandler(ListRootsRequestSchema, () => ({ roots: [{ uri: 'file:///work' }] }));
+        client.setRequestHandler(ElicitRequestSchema, () => ({ action: 'accept' as const, content: { sprint: '42' } }));
+
+        const sampled = await upstream.server.createMessage({
+            messages: [{ role: 'user', content: { type: 'text', text: 'Review sprint 42.' } }],
+            maxTokens: 100,
+        });
+        const { roots } = await upstream.server.listRoots();
+        const elicited = await upstream.server.elicitInput({
+            message: 'Which sprint?',
+            requestedSchema: { type: 'object', properties: { sprint: { type: 'string' } } },
+        });
+
+        expect(sampled.content).toEqual({ type: 'text', text: 'Sprint 42 looks good.' });
+        expect(roots).toEqual([{ uri: 'file:///work' }]);
+        expect(elicited).toEqual({ action: 'accept', content: { sprint: '42' } });
+    });
+
+    it('returns an isError result when the upstream tools/list fails', async () => {
+        const { client, upstream } = await createProxy({ ...config, inferFromAnnotations: true });
+        upstream.server.setRequestHandler(ListToolsRequestSchema, () => {
+            throw new Error('upstream down');
+        });
+
+        const result = await client.callTool({ name: 'sprints.get', arguments: {} });
+
+        expect(result.isError).toBe(true);
+    });
+
+    it('loads with an SDK that lacks elicitation and sampling with tools', async () => {
+        vi.resetModules();
+        vi.doMock('@modelcontextprotocol/sdk/types.js', async importOriginal => {
+            const {
+                ElicitRequestSchema: _request,
+                ElicitResultSchema: _result,
+                CreateMessageResultWithToolsSchema: _withTools,
+                ...older
+            } = await importOriginal<typeof import('@modelcontextprotocol/sdk/types.js')>();
+            return older;
+        });
+        try {
+            const proxy = await import('../src/ProxyUpstream.js');
+            expect(proxy.createProxyUpstream).toBeTypeOf('function');
+        } finally {
+            vi.doUnmock('@modelcontextprotocol/sdk/types.js');
+            vi.resetModules();
+        }
+    });
+
+    it('throws when the client is not connected', () => {
+        expect(() => createProxyUpstream(new Client({ name: 'test', version: '1.0.0' })))
+            .toThrow('StateSync: the proxied client is not connected');
+    });
+});
+
+describe('isClient', () => {
+    it('detects MCP clients', () => {
+        expect(isClient(new Client({ name: 'test', version: '1.0.0' }))).toBe(true);
+    });
+
+    it('rejects registries, manual configs and non-objects', () => {
+        expect(isClient({ getAllTools: () => [], routeCall: vi.fn() })).toBe(false);
+        expect(isClient({ tools: [], handler: vi.fn() })).toBe(false);
+        expect(isClient(null)).toBe(false);
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { rejectStaleWrite, describeRead } from '../src/RejectionDecorator.js';
+
+describe('rejectStaleWrite', () => {
+    it('returns an isError result naming the stale reads', () => {
+        const result = rejectStaleWrite('transfers.create', ['accounts.getBalance', 'accounts.get']);
+
+        expect(result.isError).toBe(true);
+        expect(result.content).toEqual([{
+            type: 'text',
+            text: '[System: Write rejected — transfers.create is based on stale reads of ' +
+                'accounts.getBalance, accounts.get. Re-read them before retrying.]',
+        }]);
+    });
+});
+
+describe('describeRead', () => {
+    it('appends the canonicalized arguments of the read', () => {
+        expect(describeRead('accounts.get', { id: 2, currency: 'EUR' })).toBe('accounts.get({"currency":"EUR","id":2})');
+    });
+
+    it('names reads without arguments by their tool only', () => {
+        expect(describeRead('accounts.list', {})).toBe('accounts.list');
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { decorateResponse } from '../src/ResponseDecorator.js';
+import { decorateResponse, decoratePartialFailure, decorateExpiry } from '../src/ResponseDecorator.js';
+import { resolveMessages } from '../src/Messages.js';
 import type { McpCallResult } from '../src/types.js';
 
 describe('decorateResponse', () => {
@@ -60,3 +61,61 @@ describe('decorateResponse', () => {
         expect(result.isError).toBe(false);
     });
 });
+
+describe('decoratePartialFailure', () => {
+    const failed: McpCallResult = {
+        content: [{ type: 'text', text: 'Failed after 3 of 10 adjustments' }],
+        isError: true,
+    };
+
+    it('prepends a partial-modification warning and keeps isError', () => {
+        const result = decoratePartialFailure(failed, ['inventory.*'], 'inventory.bulkAdjust');
+
+        expect(result.content[0]).toEqual({
+            type: 'text',
+            text: '[System: inventory.bulkAdjust failed and may have partially modified state. ' +
+                'Cache invalidated for inventory.* — re-read before relying on it.]',
+        });
+        expect(result.content[1]).toEqual(failed.content[0]);
+        expect(result.isError).toBe(true);
+        expect(failed.content).toHaveLength(1);
+    });
+});
+
+describe('decorateExpiry', () => {
+    it('prepends one notice naming each expired tool once', () => {
+        const result = decorateExpiry({ content: [{ type: 'text', text: 'ok' }] }, [
+            { name: 'dashboard.stats', maxCalls: 5 },
+            { name: 'dashboard.stats', maxCalls: 5 },
+            { name: 'reports.get', maxCalls: 10 },
+        ]);
+
+        expect(result.content).toEqual([
+            {
+                type: 'text',
+                text: '[System: Cache expired for dashboard.stats (max-calls=5), reports.get (max-calls=10) — ' +
+                    're-read before relying on it.]',
+            },
+            { type: 'text', text: 'ok' },
+        ]);
+    });
+});
+
+describe('localized System blocks', () => {
+    const result: McpCallResult = { content: [] };
+
+    it('renders the configured locale', () => {
+        const messages = resolveMessages({ locale: 'pt-BR' });
+        expect(decorateResponse(result, ['sprints.*'], 'sprints.update', messages).content[0].text)
+            .toBe('[Sistema: Cache invalidado para sprints.* — causado por sprints.update]');
+        expect(decorateExpiry(result, [{ name: 'dashboard.stats', maxCalls: 5 }], resolveMessages({ locale: 'es' }))
+            .content[0].text)
+            .toBe('[Sistema: Caché expirada para dashboard.stats (max-calls=5) — vuelve a leer antes de confiar en ella.]');
+    });
+
+    it('renders template overrides', () => {
+        const messages = resolveMessages({ templates: { partialFailure: '{causedBy} may have half-applied: {domains}' } });
+        expect(decoratePartialFailure(result, ['a.*', 'b.*'], 'a.bulk', messages).content[0].text)
+            .toBe('a.bulk may have half-applied: a.*, b.*');
+    });
+});
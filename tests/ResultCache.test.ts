@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { ResultCache, canonicalize } from '../src/ResultCache.js';
+import type { McpCallResult } from '../src/types.js';
+
+const result: McpCallResult = { content: [{ type: 'text', text: '["us-east-1"]' }] };
+
+describe('canonicalize', () => {
+    it('sorts object keys at every depth', () => {
+        expect(canonicalize({ b: 1, a: { d: 2, c: 3 } }))
+            .toBe(canonicalize({ a: { c: 3, d: 2 }, b: 1 }));
+    });
+
+    it('preserves array order', () => {
+        expect(canonicalize([2, 1])).not.toBe(canonicalize([1, 2]));
+    });
+});
+
+describe('ResultCache', () => {
+    it('keys entries by tool name and canonicalized arguments', () => {
+        const cache = new ResultCache();
+        cache.set('regions.list', { a: 1, b: 2 }, result);
+
+        expect(cache.get('regions.list', { b: 2, a: 1 })).toBe(result);
+        expect(cache.get('regions.list', { a: 1 })).toBeUndefined();
+        expect(cache.get('zones.list', { a: 1, b: 2 })).toBeUndefined();
+    });
+
+    it('partitions entries by session', () => {
+        const cache = new ResultCache();
+        cache.set('regions.list', {}, result, 's1');
+
+        expect(cache.get('regions.list', {}, 's1')).toBe(result);
+        expect(cache.get('regions.list', {}, 's2')).toBeUndefined();
+    });
+
+    it('shares entries across sessions with the shared scope', () => {
+        const cache = new ResultCache(10, 'shared');
+        cache.set('regions.list', {}, result, 's1');
+
+        expect(cache.get('regions.list', {}, 's2')).toBe(result);
+    });
+
+    it('evicts the entries of every session', () => {
+        const cache = new ResultCache();
+        cache.set('regions.list', {}, result, 's1');
+        cache.set('regions.list', {}, result, 's2');
+
+        cache.evict(['regions.*']);
+
+        expect(cache.size).toBe(0);
+    });
+
+    it('is bounded by maxEntries', () => {
+        const cache = new ResultCache(2);
+        cache.set('a', {}, result);
+        cache.set('b', {}, result);
+        cache.set('c', {}, result);
+
+        expect(cache.size).toBe(2);
+        expect(cache.get('a', {})).toBeUndefined();
+    });
+
+    it('evicts entries matched by invalidation globs', () => {
+        const cache = new ResultCache();
+        cache.set('regions.list', {}, result);
+        cache.set('regions.get', { id: 'eu' }, result);
+        cache.set('currencies.list', {}, result);
+
+        cache.evict(['regions.*']);
+
+        expect(cache.get('regions.list', {})).toBeUndefined();
+        expect(cache.get('regions.get', { id: 'eu' })).toBeUndefined();
+        expect(cache.get('currencies.list', {})).toBe(result);
+    });
+
+    it('evicts only the scoped entity for argument-scoped invalidations', () => {
+        const cache = new ResultCache();
+        cache.set('icd.get', { id: 'A01' }, result);
+        cache.set('icd.get', { id: 'B02' }, result);
+
+        cache.evict(['icd.get{id=A01}']);
+
+        expect(cache.get('icd.get', { id: 'A01' })).toBeUndefined();
+        expect(cache.get('icd.get', { id: 'B02' })).toBe(result);
+    });
+});
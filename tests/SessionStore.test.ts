@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { SessionStore, resolveSessionId, DEFAULT_SESSION_ID } from '../src/SessionStore.js';
+import { DomainVersions } from '../src/DomainVersions.js';
+
+const cron = { patterns: ['orders.*'], causedBy: 'cron', version: 1, timestamp: '2026-01-01T00:00:00.000Z' };
+
+describe('resolveSessionId', () => {
+    it('reads sessionId from extra', () => {
+        expect(resolveSessionId({ sessionId: 'abc' })).toBe('abc');
+    });
+
+    it('falls back to the default session', () => {
+        expect(resolveSessionId({})).toBe(DEFAULT_SESSION_ID);
+        expect(resolveSessionId(undefined)).toBe(DEFAULT_SESSION_ID);
+        expect(resolveSessionId({ sessionId: 42 })).toBe(DEFAULT_SESSION_ID);
+    });
+});
+
+describe('SessionStore', () => {
+    it('returns the same state for the same session', () => {
+        const store = new SessionStore();
+        expect(store.touch('a')).toBe(store.touch('a'));
+        expect(store.touch('a')).not.toBe(store.touch('b'));
+    });
+
+    it('queues invalidations for every known session', () => {
+        const store = new SessionStore();
+        const a = store.touch('a');
+        const b = store.touch('b');
+
+        store.enqueue(cron);
+
+        expect(store.drain(a)).toEqual([cron]);
+        expect(store.drain(b)).toHaveLength(1);
+    });
+
+    it('drains pending invalidations only once', () => {
+        const store = new SessionStore();
+        const a = store.touch('a');
+        store.enqueue(cron);
+
+        store.drain(a);
+        expect(store.drain(a)).toEqual([]);
+    });
+
+    it('does not queue for sessions that appear later', () => {
+        const store = new SessionStore();
+        store.enqueue(cron);
+        expect(store.drain(store.touch('late'))).toEqual([]);
+    });
+});
+
+describe('SessionStore — read ledger', () => {
+    it('keeps only patterns covering a read of the session', () => {
+        const store = new SessionStore();
+        const session = store.touch('a');
+        store.recordRead(session, 'tasks.get', { id: 1 });
+
+        expect(store.narrow(session, ['tasks.*', 'sprints.*'])).toEqual(['tasks.*']);
+    });
+
+    it('reports a read only once until it is read again', () => {
+        const store = new SessionStore();
+        const session = store.touch('a');
+        store.recordRead(session, 'tasks.get', { id: 1 });
+
+        expect(store.narrow(session, ['tasks.*'])).toEqual(['tasks.*']);
+        expect(store.narrow(session, ['tasks.*'])).toEqual([]);
+
+        store.recordRead(session, 'tasks.get', { id: 1 });
+        expect(store.narrow(session, ['tasks.*'])).toEqual(['tasks.*']);
+    });
+
+    it('honors argument-scoped invalidations', () => {
+        const store = new SessionStore();
+        const session = store.touch('a');
+        store.recordRead(session, 'tasks.get', { id: 1 });
+
+        expect(store.narrow(session, ['tasks.get{id=2}'])).toEqual([]);
+        expect(store.narrow(session, ['tasks.get{id=1}'])).toEqual(['tasks.get{id=1}']);
+    });
+
+    it('isolates sessions from each other', () => {
+        const store = new SessionStore();
+        const a = store.touch('a');
+        const b = store.touch('b');
+        store.recordRead(a, 'tasks.get', {});
+
+        expect(store.narrow(b, ['tasks.*'])).toEqual([]);
+        expect(store.narrow(a, ['tasks.*'])).toEqual(['tasks.*']);
+    });
+});
+
+describe('SessionStore — expiry', () => {
+    it('drops sessions after the inactivity window', () => {
+        let now = 0;
+        const store = new SessionStore({ ttlMs: 1000, now: () => now });
+        const stale = store.touch('a');
+        store.recordRead(stale, 'tasks.get', {});
+
+        now = 500;
+        store.touch('b');
+        expect(store.size).toBe(2);
+
+        now = 1600;
+        store.touch('b');
+        expect(store.size).toBe(1);
+
+        const fresh = store.touch('a');
+        expect(fresh).not.toBe(stale);
+        expect(fresh.reads.size).toBe(0);
+    });
+
+    it('keeps active sessions alive', () => {
+        let now = 0;
+        const store = new SessionStore({ ttlMs: 1000, now: () => now });
+        const session = store.touch('a');
+
+        now = 900;
+        store.touch('a');
+        now = 1800;
+        expect(store.touch('a')).toBe(session);
+    });
+
+    it('throws on invalid ttlMs', () => {
+        expect(() => new SessionStore({ ttlMs: 0 })).toThrow('ttlMs must be a positive number');
+    });
+});
+
+describe('SessionStore — stale reads', () => {
+    it('finds reads older than their domain version', () => {
+        const store = new SessionStore();
+        const versions = new DomainVersions();
+        const session = store.touch('a');
+
+        store.recordRead(session, 'accounts.get', {}, versions.current);
+        expect(store.findStaleReads(session, ['accounts.*'], versions)).toEqual([]);
+
+        versions.bump(['accounts.*']);
+        expect(store.findStaleReads(session, ['accounts.*'], versions).map(r => r.name))
+            .toEqual(['accounts.get']);
+        expect(store.findStaleReads(session, ['invoices.*'], versions)).toEqual([]);
+
+        store.recordRead(session, 'accounts.get', {}, versions.current);
+        expect(store.findStaleReads(session, ['accounts.*'], versions)).toEqual([]);
+    });
+});
+
+describe('SessionStore — max-calls expiry', () => {
+    it('expires a read once N further calls were counted, once', () => {
+        const store = new SessionStore();
+        const session = store.touch('a');
+
+        store.countCall(session);
+        store.recordRead(session, 'dashboard.stats', {}, 0, 2);
+        store.recordRead(session, 'sprints.get', {});
+
+        store.countCall(session);
+        expect(store.expire(session)).toEqual([]);
+
+        store.countCall(session);
+        expect(store.expire(session).map(r => r.name)).toEqual(['dashboard.stats']);
+
+        store.countCall(session);
+        expect(store.expire(session)).toEqual([]);
+    });
+
+    it('restarts the budget when the tool is read again', () => {
+        const store = new SessionStore();
+        const session = store.touch('a');
+
+        store.countCall(session);
+        store.recordRead(session, 'dashboard.stats', {}, 0, 1);
+        store.countCall(session);
+        store.recordRead(session, 'dashboard.stats', {}, 0, 1);
+
+        expect(store.expire(session)).toEqual([]);
+    });
+
+    it('counts calls per session', () => {
+        const store = new SessionStore();
+        const a = store.touch('a');
+        const b = store.touch('b');
+
+        store.recordRead(a, 'dashboard.stats', {}, 0, 1);
+        expect(store.countCall(b)).toBe(1);
+        expect(store.expire(a)).toEqual([]);
+    });
+});
@@ -1,9 +1,24 @@
 import { describe, it, expect, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { StateSync } from '../src/StateSync.js';
-import type { McpToolDef, McpCallResult } from '../src/types.js';
+import { jsonPathEquals } from '../src/SuccessPredicates.js';
+import type {
+    McpToolDef,
+    McpCallResult,
+    McpResourceDef,
+    McpResourceTemplateDef,
+    SyncConfig,
+} from '../src/types.js';
 import {
     ListToolsRequestSchema,
     CallToolRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 // ── Mock MCP Server ─────────────────────────────────────────────────
@@ -20,6 +35,19 @@ function createMockServer() {
     };
 }
 
+/** Mock server that also records outgoing notifications. */
+function createNotifyingServer() {
+    return Object.assign(createMockServer(), {
+        notification: vi.fn().mockResolvedValue(undefined),
+    });
+}
+
+/** Invoke the wrapped `tools/call` handler without arguments. */
+async function callTool(server: ReturnType<typeof createMockServer>, name: string, sessionId?: string) {
+    const callHandler = server.getHandler(CallToolRequestSchema)!;
+    return callHandler({ params: { name, arguments: {} } }, { sessionId });
+}
+
 // ── Mock Fusion Registry ─────────────────────────────────────────────
 
 function createMockRegistry(tools: McpToolDef[], callResult: McpCallResult) {
@@ -155,6 +183,137 @@ describe('StateSync — Fusion Mode', () => {
     });
 });
 
+describe('StateSync — Argument-scoped invalidation', () => {
+    const policies = [
+        { match: 'tasks.update', invalidates: ['tasks.get{id=$args.taskId}', 'sprints.*'] },
+    ];
+
+    it('names the exact entity in the System block', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] });
+        new StateSync({ policies }).attachToServer(server, registry);
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler(
+            { params: { name: 'tasks.update', arguments: { taskId: 42 } } },
+            {},
+        );
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for tasks.get{id=42}, sprints.* — caused by tasks.update]',
+        );
+    });
+
+    it('falls back to the coarse domain when the argument is missing', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] });
+        new StateSync({ policies }).attachToServer(server, registry);
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler(
+            { params: { name: 'tasks.update', arguments: {} } },
+            {},
+        );
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for tasks.get, sprints.* — caused by tasks.update]',
+        );
+    });
+});
+
+describe('StateSync — Extended globs', () => {
+    const policies = [
+        { match: 'sprints.{create,update,delete}', invalidates: ['sprints.*', '!sprints.archive.*'] },
+        { match: '*.get*', cacheControl: 'no-store' as const },
+    ];
+
+    it('matches brace alternatives and intra-segment wildcards', () => {
+        const server = createMockServer();
+        const tools: McpToolDef[] = ['sprints.getAll', 'sprints.delete'].map(name => ({
+            name, description: 'Tool.', inputSchema: { type: 'object' },
+        }));
+        new StateSync({ policies }).attachToServer(server, createMockRegistry(tools, { content: [] }));
+
+        const result = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(result.tools.map(t => t.description)).toEqual([
+            'Tool. [Cache-Control: no-store]',
+            'Tool.',
+        ]);
+    });
+
+    it('names exclusions in the System block and honours them', async () => {
+        const server = createMockServer();
+        const invalidated = vi.fn();
+        const sync = new StateSync({ policies });
+        sync.on('invalidated', invalidated);
+        sync.attachToServer(server, createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] }));
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler({ params: { name: 'sprints.delete', arguments: {} } }, {});
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for sprints.*, !sprints.archive.* — caused by sprints.delete]',
+        );
+        expect(invalidated).toHaveBeenCalledWith(expect.objectContaining({
+            patterns: ['sprints.*', '!sprints.archive.*'],
+        }));
+    });
+});
+
+describe('StateSync — RegExp and predicate matchers', () => {
+    const refund: McpToolDef = {
+        name: 'refund_order',
+        description: 'Refund.',
+        inputSchema: { type: 'object' },
+        annotations: { category: 'billing' },
+    };
+    const policies = [
+        { match: (tool: McpToolDef) => tool.annotations?.category === 'billing', invalidates: ['orders.*'] },
+        { match: /^get_/, cacheControl: 'no-store' as const },
+    ];
+
+    it('decorates tools/list through RegExp matchers', () => {
+        const server = createMockServer();
+        const get: McpToolDef = { name: 'get_order', description: 'Get.', inputSchema: { type: 'object' } };
+        new StateSync({ policies }).attachToServer(server, createMockRegistry([get, refund], { content: [] }));
+
+        const result = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(result.tools.map(t => t.description)).toEqual(['Get. [Cache-Control: no-store]', 'Refund.']);
+    });
+
+    it('resolves predicate matchers against the tool definition on tools/call', async () => {
+        const server = createMockServer();
+        new StateSync({ policies }).attachToServer(
+            server, createMockRegistry([refund], { content: [{ type: 'text', text: 'ok' }] }),
+        );
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler({ params: { name: 'refund_order', arguments: {} } }, {});
+
+        expect(result.content[0].text).toBe('[System: Cache invalidated for orders.* — caused by refund_order]');
+    });
+});
+
+describe('StateSync — Accumulate resolution', () => {
+    it('adds cross-cutting invalidations to every matching write', async () => {
+        const server = createMockServer();
+        new StateSync({
+            resolution: 'accumulate',
+            policies: [
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+                { match: '*.{create,update,delete}', invalidates: ['audit.*'] },
+            ],
+        }).attachToServer(server, createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] }));
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler({ params: { name: 'sprints.update', arguments: {} } }, {});
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for sprints.*, audit.* — caused by sprints.update]',
+        );
+    });
+});
+
 describe('StateSync — Manual Mode', () => {
     it('works with explicit tool definitions and handler', async () => {
         const server = createMockServer();
@@ -194,6 +353,1250 @@ describe('StateSync — Manual Mode', () => {
     });
 });
 
+describe('StateSync — External invalidation', () => {
+    it('prepends a System block to the next call of each known session', async () => {
+        const server = createNotifyingServer();
+        const registry = createMockRegistry([], { content: [{ type: 'text', text: 'data' }] });
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, registry);
+
+        await callTool(server, 'orders.list', 's1');
+        await callTool(server, 'orders.list', 's2');
+        await sync.invalidate(['orders.*'], { reason: 'nightly import' });
+
+        for (const sessionId of ['s1', 's2']) {
+            const result = await callTool(server, 'orders.list', sessionId);
+            expect(result.content[0].text).toBe(
+                '[System: Cache invalidated for orders.* — caused by nightly import]',
+            );
+            expect(result.content[1].text).toBe('data');
+        }
+
+        const next = await callTool(server, 'orders.list', 's1');
+        expect(next.content).toHaveLength(1);
+    });
+
+    it('pushes notifications/message to connected clients', async () => {
+        const server = createNotifyingServer();
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await sync.invalidate(['orders.*']);
+
+        expect(server.notification).toHaveBeenCalledWith({
+            method: 'notifications/message',
+            params: {
+                level: 'info',
+                logger: 'mcp-state-sync',
+                data: { event: 'invalidated', invalidated: ['orders.*'], causedBy: 'external change' },
+            },
+        });
+    });
+
+    it('places external blocks before the write invalidation block', async () => {
+        const server = createNotifyingServer();
+        const registry = createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] });
+        const sync = new StateSync({
+            policies: [{ match: 'sprints.update', invalidates: ['sprints.*'] }],
+        });
+        sync.attachToServer(server, registry);
+
+        await callTool(server, 'sprints.get');
+        await sync.invalidate(['tasks.*'], { reason: 'webhook' });
+        const result = await callTool(server, 'sprints.update');
+
+        expect(result.content.map((c: { text: string }) => c.text)).toEqual([
+            '[System: Cache invalidated for tasks.* — caused by webhook]',
+            '[System: Cache invalidated for sprints.* — caused by sprints.update]',
+            'ok',
+        ]);
+    });
+
+    it('respects the logging level set by the client', async () => {
+        const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {}, logging: {} } });
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, createMockRegistry([], { content: [] }));
+        const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: 'test', version: '1.0.0' });
+        const onMessage = vi.fn();
+        client.fallbackNotificationHandler = async notification => onMessage(notification);
+        await server.connect(serverSide);
+        await client.connect(clientSide);
+
+        await client.setLoggingLevel('warning');
+        await sync.invalidate(['orders.*']);
+        await client.setLoggingLevel('info');
+        await sync.invalidate(['tasks.*']);
+        await client.ping();
+
+        expect(onMessage).toHaveBeenCalledOnce();
+        expect(onMessage.mock.calls[0][0].params.data.invalidated).toEqual(['tasks.*']);
+        await client.close();
+    });
+
+    it('survives notification failures', async () => {
+        const server = Object.assign(createMockServer(), {
+            notification: vi.fn().mockRejectedValue(new Error('Not connected')),
+        });
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await expect(sync.invalidate(['orders.*'])).resolves.toBeUndefined();
+    });
+
+    it('rejects malformed patterns', async () => {
+        const sync = new StateSync({ policies: [] });
+        await expect(sync.invalidate([''])).rejects.toThrow('non-empty strings');
+        await expect(sync.invalidate(['tasks.get{id'])).rejects.toThrow('invalid invalidation template');
+    });
+});
+
+describe('StateSync — Memoization of immutable tools', () => {
+    const regions = { content: [{ type: 'text', text: '["us-east-1"]' }] };
+
+    async function call(server: ReturnType<typeof createMockServer>, name: string, args = {}) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name, arguments: args } }, {});
+    }
+
+    it('serves repeated calls from the cache', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], regions);
+        new StateSync({
+            memoize: true,
+            policies: [{ match: 'regions.*', cacheControl: 'immutable' }],
+        }).attachToServer(server, registry);
+
+        await call(server, 'regions.list', { a: 1, b: 2 });
+        const second = await call(server, 'regions.list', { b: 2, a: 1 });
+
+        expect(registry.routeCall).toHaveBeenCalledTimes(1);
+        expect(second.content[0].text).toBe('["us-east-1"]');
+    });
+
+    it('does not memoize when disabled, opted out or not immutable', async () => {
+        for (const config of [
+            { policies: [{ match: 'regions.*', cacheControl: 'immutable' as const }] },
+            { memoize: true, policies: [{ match: 'regions.*', cacheControl: 'immutable' as const, memoize: false }] },
+            { memoize: true, policies: [{ match: 'regions.*', cacheControl: 'no-store' as const }] },
+        ]) {
+            const server = createMockServer();
+            const registry = createMockRegistry([], regions);
+            new StateSync(config).attachToServer(server, registry);
+
+            await call(server, 'regions.list');
+            await call(server, 'regions.list');
+            expect(registry.routeCall).toHaveBeenCalledTimes(2);
+        }
+    });
+
+    it('does not memoize failed results', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], { content: [], isError: true });
+        new StateSync({
+            memoize: true,
+            policies: [{ match: 'regions.*', cacheControl: 'immutable' }],
+        }).attachToServer(server, registry);
+
+        await call(server, 'regions.list');
+        await call(server, 'regions.list');
+        expect(registry.routeCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('evicts entries when a write invalidates the tool', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], regions);
+        new StateSync({
+            memoize: { maxEntries: 10 },
+            policies: [
+                { match: 'regions.sync', invalidates: ['regions.*'] },
+                { match: 'regions.*', cacheControl: 'immutable' },
+            ],
+        }).attachToServer(server, registry);
+
+        await call(server, 'regions.list');
+        await call(server, 'regions.sync');
+        await call(server, 'regions.list');
+        expect(registry.routeCall).toHaveBeenCalledTimes(3);
+    });
+
+    it('evicts entries on external invalidation', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], regions);
+        const sync = new StateSync({
+            memoize: true,
+            policies: [{ match: 'regions.*', cacheControl: 'immutable' }],
+        });
+        sync.attachToServer(server, registry);
+
+        await call(server, 'regions.list');
+        await sync.invalidate(['regions.list']);
+        await call(server, 'regions.list');
+        expect(registry.routeCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('never serves one session the memoized result of another', async () => {
+        for (const [scope, upstreamCalls] of [['session', 2], ['shared', 1]] as const) {
+            const server = createMockServer();
+            const registry = createMockRegistry([], regions);
+            new StateSync({
+                memoize: { scope },
+                policies: [{ match: 'regions.*', cacheControl: 'immutable' }],
+            }).attachToServer(server, registry);
+            const callHandler = server.getHandler(CallToolRequestSchema)!;
+
+            await callHandler({ params: { name: 'regions.list', arguments: {} } }, { sessionId: 'alice' });
+            await callHandler({ params: { name: 'regions.list', arguments: {} } }, { sessionId: 'bob' });
+
+            expect(registry.routeCall).toHaveBeenCalledTimes(upstreamCalls);
+        }
+    });
+
+    it('rejects invalid memoize config', () => {
+        expect(() => new StateSync({ memoize: { maxEntries: -1 }, policies: [] }))
+            .toThrow('memoize.maxEntries must be a positive integer');
+    });
+});
+
+describe('StateSync — Per-session read ledger', () => {
+    const ok = { content: [{ type: 'text', text: 'ok' }] };
+    const config = {
+        sessions: { trackReads: true },
+        policies: [
+            { match: 'tasks.update', invalidates: ['tasks.*', 'sprints.*', 'dashboard.*'] },
+        ],
+    };
+
+    async function call(server: ReturnType<typeof createMockServer>, name: string, sessionId: string) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name, arguments: {} } }, { sessionId });
+    }
+
+    it('mentions only domains the session has read', async () => {
+        const server = createMockServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], ok));
+
+        await call(server, 'tasks.get', 's1');
+        const result = await call(server, 'tasks.update', 's1');
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for tasks.* — caused by tasks.update]',
+        );
+    });
+
+    it('omits the System block when nothing invalidated was read', async () => {
+        const server = createMockServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], ok));
+
+        const result = await call(server, 'tasks.update', 's1');
+        expect(result.content).toHaveLength(1);
+    });
+
+    it('does not repeat a domain until it is read again', async () => {
+        const server = createMockServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], ok));
+
+        await call(server, 'tasks.get', 's1');
+        await call(server, 'tasks.update', 's1');
+        const second = await call(server, 'tasks.update', 's1');
+        expect(second.content).toHaveLength(1);
+
+        await call(server, 'tasks.get', 's1');
+        const third = await call(server, 'tasks.update', 's1');
+        expect(third.content).toHaveLength(2);
+    });
+
+    it('isolates sessions', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        sync.attachToServer(server, createMockRegistry([], ok));
+
+        await call(server, 'sprints.get', 's1');
+        await call(server, 'dashboard.get', 's2');
+        await sync.invalidate(['sprints.*']);
+
+        const s1 = await call(server, 'noop', 's1');
+        const s2 = await call(server, 'noop', 's2');
+        expect(s1.content[0].text).toBe('[System: Cache invalidated for sprints.* — caused by external change]');
+        expect(s2.content).toHaveLength(1);
+    });
+});
+
+describe('StateSync — Optimistic concurrency guard', () => {
+    const ok = { content: [{ type: 'text', text: 'ok' }] };
+    const config = {
+        policies: [
+            { match: 'transfers.create', invalidates: ['accounts.*'], rejectStaleWrites: true },
+            { match: 'accounts.adjust', invalidates: ['accounts.*'] },
+        ],
+    };
+
+    async function call(server: ReturnType<typeof createMockServer>, name: string, sessionId = 's1', args = {}) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name, arguments: args } }, { sessionId });
+    }
+
+    it('allows a write based on fresh reads', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], ok);
+        new StateSync(config).attachToServer(server, registry);
+
+        await call(server, 'accounts.getBalance');
+        const result = await call(server, 'transfers.create');
+
+        expect(result.isError).toBeFalsy();
+        expect(registry.routeCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a write after an external change until the model re-reads', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], ok);
+        const sync = new StateSync(config);
+        sync.attachToServer(server, registry);
+
+        await call(server, 'accounts.getBalance');
+        await sync.invalidate(['accounts.*'], { reason: 'mobile banking' });
+
+        const rejected = await call(server, 'transfers.create');
+        expect(rejected.isError).toBe(true);
+        expect(rejected.content.at(-1).text).toBe(
+            '[System: Write rejected — transfers.create is based on stale reads of ' +
+            'accounts.getBalance. Re-read them before retrying.]',
+        );
+        expect(registry.routeCall).toHaveBeenCalledTimes(1);
+
+        await call(server, 'accounts.getBalance');
+        const accepted = await call(server, 'transfers.create');
+        expect(accepted.isError).toBeFalsy();
+    });
+
+    it('names the arguments of each stale read the model must repeat', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        sync.attachToServer(server, createMockRegistry([], ok));
+
+        await call(server, 'accounts.get', 's1', { id: 1 });
+        await call(server, 'accounts.get', 's1', { id: 2 });
+        await sync.invalidate(['accounts.*']);
+        await call(server, 'accounts.get', 's1', { id: 1 });
+
+        const rejected = await call(server, 'transfers.create');
+        expect(rejected.content.at(-1).text).toBe(
+            '[System: Write rejected — transfers.create is based on stale reads of ' +
+            'accounts.get({"id":2}). Re-read them before retrying.]',
+        );
+
+        await call(server, 'accounts.get', 's1', { id: 2 });
+        const accepted = await call(server, 'transfers.create');
+        expect(accepted.isError).toBeFalsy();
+    });
+
+    it('rejects a write after a write from another session', async () => {
+        const server = createMockServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], ok));
+
+        await call(server, 'accounts.getBalance', 's1');
+        await call(server, 'accounts.adjust', 's2');
+
+        const rejected = await call(server, 'transfers.create', 's1');
+        expect(rejected.isError).toBe(true);
+    });
+
+    it('does not guard policies without rejectStaleWrites', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        sync.attachToServer(server, createMockRegistry([], ok));
+
+        await call(server, 'accounts.getBalance');
+        await sync.invalidate(['accounts.*']);
+
+        const result = await call(server, 'accounts.adjust');
+        expect(result.isError).toBeFalsy();
+    });
+});
+
+describe('StateSync — Success predicates', () => {
+    const config = {
+        policies: [{
+            match: 'orders.cancel',
+            invalidates: ['orders.*'],
+            success: jsonPathEquals('status', 'cancelled'),
+        }],
+    };
+
+    async function call(server: ReturnType<typeof createMockServer>) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name: 'orders.cancel', arguments: {} } }) as Promise<McpCallResult>;
+    }
+
+    it('skips invalidation when the predicate rejects the result', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        const invalidated = vi.fn();
+        sync.on('invalidated', invalidated);
+        sync.attachToServer(server, createMockRegistry(
+            [], { content: [{ type: 'text', text: '{"status":"rejected"}' }] },
+        ));
+
+        const result = await call(server);
+
+        expect(result.content).toEqual([{ type: 'text', text: '{"status":"rejected"}' }]);
+        expect(invalidated).not.toHaveBeenCalled();
+    });
+
+    it('invalidates when the predicate accepts the result', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        sync.attachToServer(server, createMockRegistry(
+            [], { content: [{ type: 'text', text: '{"status":"cancelled"}' }] },
+        ));
+
+        const result = await call(server);
+
+        expect(result.content[0]).toEqual({
+            type: 'text',
+            text: '[System: Cache invalidated for orders.* — caused by orders.cancel]',
+        });
+    });
+});
+
+describe('StateSync — Invalidate on failure', () => {
+    const failed: McpCallResult = {
+        content: [{ type: 'text', text: 'Failed after 3 of 10 adjustments' }],
+        isError: true,
+    };
+
+    async function call(server: ReturnType<typeof createMockServer>) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name: 'inventory.bulkAdjust', arguments: {} } }) as Promise<McpCallResult>;
+    }
+
+    function attach(onError: 'skip' | 'invalidate' | 'invalidate-with-warning') {
+        const server = createMockServer();
+        const sync = new StateSync({
+            policies: [{ match: 'inventory.bulkAdjust', invalidates: ['inventory.*'], onError }],
+        });
+        sync.attachToServer(server, createMockRegistry([], failed));
+        return server;
+    }
+
+    it('leaves failed writes untouched with onError: skip', async () => {
+        expect(await call(attach('skip'))).toEqual(failed);
+    });
+
+    it('invalidates failed writes with onError: invalidate', async () => {
+        const result = await call(attach('invalidate'));
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0]).toEqual({
+            type: 'text',
+            text: '[System: Cache invalidated for inventory.* — caused by inventory.bulkAdjust]',
+        });
+    });
+
+    it('warns about partial modification with onError: invalidate-with-warning', async () => {
+        const result = await call(attach('invalidate-with-warning'));
+
+        expect(result.isError).toBe(true);
+        expect(result.content).toEqual([
+            {
+                type: 'text',
+                text: '[System: inventory.bulkAdjust failed and may have partially modified state. ' +
+                    'Cache invalidated for inventory.* — re-read before relying on it.]',
+            },
+            failed.content[0],
+        ]);
+    });
+
+    it('uses the plain notice when the write succeeds', async () => {
+        const server = createMockServer();
+        const sync = new StateSync({
+            policies: [{ match: 'inventory.bulkAdjust', invalidates: ['inventory.*'], onError: 'invalidate-with-warning' }],
+        });
+        sync.attachToServer(server, createMockRegistry([], { content: [] }));
+
+        expect((await call(server)).content[0]).toEqual({
+            type: 'text',
+            text: '[System: Cache invalidated for inventory.* — caused by inventory.bulkAdjust]',
+        });
+    });
+});
+
+describe('StateSync — Upstream failures', () => {
+    function attach(policy: Record<string, unknown>, routeCall: (...args: unknown[]) => Promise<McpCallResult>) {
+        const server = createMockServer();
+        const sync = new StateSync({
+            policies: [{ match: 'orders.cancel', invalidates: ['orders.*'], ...policy }],
+        });
+        const registry = createMockRegistry([], { content: [] });
+        registry.routeCall.mockImplementation(routeCall);
+        sync.attachToServer(server, registry, { contextFactory: extra => extra });
+        return { server, sync, registry };
+    }
+
+    function call(server: ReturnType<typeof createMockServer>, extra: Record<string, unknown> = {}) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name: 'orders.cancel', arguments: {} } }, extra) as Promise<McpCallResult>;
+    }
+
+    it('converts a thrown error into a sanitized isError result without invalidating', async () => {
+        const { server } = attach({}, () => Promise.reject(new Error('connection string: postgres://admin:secret@db')));
+
+        expect(await call(server)).toEqual({
+            content: [{ type: 'text', text: '[System: orders.cancel failed — upstream error.]' }],
+            isError: true,
+        });
+    });
+
+    it('invalidates thrown failures according to onException', async () => {
+        const { server, sync } = attach(
+            { onException: 'invalidate-with-warning' },
+            () => Promise.reject(new Error('socket hang up')),
+        );
+        const invalidated = vi.fn();
+        sync.on('invalidated', invalidated);
+
+        const result = await call(server);
+
+        expect(result.isError).toBe(true);
+        expect(result.content.map(c => c.text)).toEqual([
+            '[System: orders.cancel failed and may have partially modified state. ' +
+                'Cache invalidated for orders.* — re-read before relying on it.]',
+            '[System: orders.cancel failed — upstream error.]',
+        ]);
+        expect(invalidated).toHaveBeenCalledOnce();
+    });
+
+    it('falls back to onError for thrown failures', async () => {
+        const { server } = attach({ onError: 'invalidate' }, () => Promise.reject(new Error('boom')));
+
+        expect((await call(server)).content[0].text)
+            .toBe('[System: Cache invalidated for orders.* — caused by orders.cancel]');
+    });
+
+    it('times out after timeoutMs and aborts the signal passed to the upstream', async () => {
+        let signal: AbortSignal | undefined;
+        const { server, sync } = attach({ timeoutMs: 20 }, (ctx: unknown) => {
+            signal = (ctx as { signal: AbortSignal }).signal;
+            return new Promise(() => { /* never settles */ });
+        });
+        const upstreamError = vi.fn();
+        sync.on('upstreamError', upstreamError);
+
+        const result = await call(server, { sessionId: 's1' });
+
+        expect(result.content[0].text).toBe('[System: orders.cancel failed — timed out after 20 ms.]');
+        expect(signal?.aborted).toBe(true);
+        expect(upstreamError).toHaveBeenCalledWith(expect.objectContaining({ kind: 'timeout', sessionId: 's1' }));
+    });
+
+    it('stops waiting when the request is aborted', async () => {
+        const controller = new AbortController();
+        const { server } = attach({}, () => {
+            controller.abort();
+            return new Promise(() => { /* never settles */ });
+        });
+
+        const result = await call(server, { signal: controller.signal });
+
+        expect(result.content[0].text).toBe('[System: orders.cancel failed — cancelled by the client.]');
+    });
+});
+
+describe('StateSync — max-calls freshness', () => {
+    const config = {
+        policies: [{ match: 'dashboard.*', cacheControl: 'max-calls=2' as const }],
+    };
+
+    async function call(server: ReturnType<typeof createMockServer>, name: string, sessionId = 's1') {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name, arguments: {} } }, { sessionId }) as Promise<McpCallResult>;
+    }
+
+    const notice = '[System: Cache expired for dashboard.stats (max-calls=2) — re-read before relying on it.]';
+
+    it('decorates tools/list with the directive', () => {
+        const server = createMockServer();
+        const stats: McpToolDef = { name: 'dashboard.stats', description: 'Stats.', inputSchema: { type: 'object' } };
+        new StateSync(config).attachToServer(server, createMockRegistry([stats], { content: [] }));
+
+        const result = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(result.tools[0].description).toBe('Stats. [Cache-Control: max-calls=2]');
+    });
+
+    it('prepends an expiry notice after N further calls, once', async () => {
+        const server = createMockServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] }));
+
+        await call(server, 'dashboard.stats');
+        expect((await call(server, 'sprints.get')).content).toHaveLength(1);
+
+        const second = await call(server, 'sprints.get');
+        expect(second.content[0]).toEqual({ type: 'text', text: notice });
+
+        expect((await call(server, 'sprints.get')).content).toHaveLength(1);
+    });
+
+    it('restarts the budget on a re-read and keeps sessions apart', async () => {
+        const server = createMockServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await call(server, 'dashboard.stats');
+        await call(server, 'sprints.get');
+        await call(server, 'dashboard.stats');
+        await call(server, 'sprints.get', 's2');
+        await call(server, 'sprints.get', 's2');
+
+        expect((await call(server, 'sprints.get')).content).toEqual([]);
+        expect((await call(server, 'sprints.get')).content).toEqual([{ type: 'text', text: notice }]);
+    });
+});
+
+describe('StateSync — Machine-readable metadata', () => {
+    const ok = { content: [{ type: 'text', text: 'ok' }] };
+    const policies = [
+        { match: 'sprints.get', cacheControl: 'no-store' as const },
+        { match: 'sprints.update', invalidates: ['sprints.*'] },
+    ];
+    const stateSyncMeta = (value: { _meta?: Record<string, unknown> }) => value._meta?.['io.vinkius/state-sync'];
+
+    async function call(server: ReturnType<typeof createMockServer>, name: string, sessionId = 's1') {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name, arguments: {} } }, { sessionId }) as Promise<McpCallResult>;
+    }
+
+    it('emits text only by default', async () => {
+        const server = createMockServer();
+        new StateSync({ policies }).attachToServer(server, createMockRegistry([sprintGet], ok));
+
+        const list = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(list.tools[0]._meta).toBeUndefined();
+        expect((await call(server, 'sprints.update'))._meta).toBeUndefined();
+    });
+
+    it('carries directives and invalidation records alongside the text', async () => {
+        const server = createMockServer();
+        new StateSync({ policies, channels: { meta: true } })
+            .attachToServer(server, createMockRegistry([sprintGet], ok));
+
+        const list = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(list.tools[0].description).toBe('Get sprint details. [Cache-Control: no-store]');
+        expect(stateSyncMeta(list.tools[0])).toEqual({ cacheControl: 'no-store' });
+
+        const result = await call(server, 'sprints.update');
+        expect(result.content[0].text).toBe('[System: Cache invalidated for sprints.* — caused by sprints.update]');
+        expect(stateSyncMeta(result)).toEqual({
+            invalidations: [{
+                invalidated: ['sprints.*'],
+                causedBy: 'sprints.update',
+                version: 1,
+                timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+            }],
+        });
+    });
+
+    it('reports through _meta only when the text channel is off', async () => {
+        const server = createMockServer();
+        const sync = new StateSync({ policies, channels: { text: false, meta: true } });
+        sync.attachToServer(server, createMockRegistry([sprintGet], ok));
+
+        const list = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(list.tools[0].description).toBe('Get sprint details.');
+        expect(stateSyncMeta(list.tools[0])).toEqual({ cacheControl: 'no-store' });
+
+        await call(server, 'sprints.get');
+        await sync.invalidate(['sprints.*'], { reason: 'nightly import' });
+        const result = await call(server, 'sprints.update');
+
+        expect(result.content).toEqual(ok.content);
+        const meta = stateSyncMeta(result) as { invalidations: { causedBy: string; version: number }[] };
+        expect(meta.invalidations.map(r => [r.causedBy, r.version])).toEqual([
+            ['nightly import', 1],
+            ['sprints.update', 2],
+        ]);
+    });
+
+    it('flags partial failures and reports expired reads', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([], ok);
+        new StateSync({
+            channels: { meta: true },
+            policies: [
+                { match: 'dashboard.stats', cacheControl: 'max-calls=1' },
+                { match: 'sprints.update', invalidates: ['sprints.*'], onError: 'invalidate-with-warning' },
+            ],
+        }).attachToServer(server, registry);
+
+        await call(server, 'dashboard.stats');
+        registry.routeCall.mockResolvedValueOnce({ content: [{ type: 'text', text: 'conflict' }], isError: true });
+        const result = await call(server, 'sprints.update');
+
+        expect(stateSyncMeta(result)).toMatchObject({
+            invalidations: [{ invalidated: ['sprints.*'], causedBy: 'sprints.update', partialFailure: true }],
+            expired: [{ tool: 'dashboard.stats', maxCalls: 1 }],
+        });
+    });
+
+    it('never narrows the _meta record to the read ledger', async () => {
+        const server = createMockServer();
+        new StateSync({ policies, sessions: { trackReads: true }, channels: { meta: true } })
+            .attachToServer(server, createMockRegistry([], ok));
+
+        const result = await call(server, 'sprints.update');
+        expect(result.content).toHaveLength(1);
+        expect(stateSyncMeta(result)).toMatchObject({ invalidations: [{ invalidated: ['sprints.*'] }] });
+    });
+
+    it('rejects disabling both channels', () => {
+        expect(() => new StateSync({ policies, channels: { text: false } }))
+            .toThrow('at least one channel (text or meta) must be enabled');
+    });
+});
+
+describe('StateSync — Localized messages', () => {
+    it('renders descriptions, System blocks and failures from the configured catalog', async () => {
+        const server = createMockServer();
+        const registry = createMockRegistry([sprintGet], { content: [{ type: 'text', text: 'ok' }] });
+        new StateSync({
+            messages: { locale: 'pt-BR', templates: { cacheControl: '(cache: {directive})' } },
+            policies: [
+                { match: 'sprints.get', cacheControl: 'no-store' },
+                { match: 'sprints.update', invalidates: ['sprints.*'] },
+            ],
+        }).attachToServer(server, registry);
+
+        const list = server.getHandler(ListToolsRequestSchema)!() as { tools: McpToolDef[] };
+        expect(list.tools[0].description).toBe('Get sprint details. (cache: no-store)');
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const written = await callHandler({ params: { name: 'sprints.update', arguments: {} } }, {});
+        expect(written.content[0].text).toBe('[Sistema: Cache invalidado para sprints.* — causado por sprints.update]');
+
+        registry.routeCall.mockRejectedValueOnce(new Error('boom'));
+        const failed = await callHandler({ params: { name: 'sprints.get', arguments: {} } }, {});
+        expect(failed.content[0].text).toBe('[Sistema: sprints.get falhou — erro no upstream.]');
+    });
+
+    it('rejects unknown placeholders at construction', () => {
+        expect(() => new StateSync({ policies: [], messages: { templates: { expired: 'Re-read {domains}' } } }))
+            .toThrow('unknown placeholder "{domains}"');
+    });
+});
+
+describe('StateSync — Resources', () => {
+    const sprintResource: McpResourceDef = { uri: 'jira://sprints/42', name: 'Sprint 42', description: 'Sprint 42.' };
+    const boardResource: McpResourceDef = { uri: 'jira://boards/1', name: 'Board 1', description: 'Board 1.' };
+    const sprintTemplate: McpResourceTemplateDef = {
+        uriTemplate: 'jira://sprints/{sprintId}',
+        name: 'Sprint',
+        description: 'A sprint.',
+    };
+
+    function attach(config: Partial<SyncConfig> = {}) {
+        const server = createNotifyingServer();
+        const readResource = vi.fn().mockResolvedValue({ contents: [{ uri: 'jira://sprints/42', text: '{}' }] });
+        const sync = new StateSync({
+            policies: [{ match: 'sprints.update', invalidates: ['sprints.*', 'jira://sprints/{$args.sprintId}'] }],
+            resources: [
+                { match: 'jira://sprints/*', cacheControl: 'no-store' },
+                { match: 'jira://**', cacheControl: 'immutable' },
+            ],
+            ...config,
+        });
+        sync.attachToServer(server, createMockRegistry([sprintUpdate], { content: [{ type: 'text', text: 'ok' }] }), {
+            resources: [sprintResource, boardResource],
+            resourceTemplates: [sprintTemplate],
+            readResource,
+        });
+        return { server, sync, readResource };
+    }
+
+    function update(server: ReturnType<typeof createMockServer>, sprintId: number) {
+        return server.getHandler(CallToolRequestSchema)!(
+            { params: { name: 'sprints.update', arguments: { sprintId } } },
+            {},
+        );
+    }
+
+    it('decorates resources/list and resources/templates/list entries', () => {
+        const { server } = attach();
+
+        const { resources } = server.getHandler(ListResourcesRequestSchema)!() as { resources: McpResourceDef[] };
+        expect(resources.map(r => r.description)).toEqual([
+            'Sprint 42. [Cache-Control: no-store]',
+            'Board 1. [Cache-Control: immutable]',
+        ]);
+
+        const { resourceTemplates } = server.getHandler(ListResourceTemplatesRequestSchema)!() as {
+            resourceTemplates: McpResourceTemplateDef[];
+        };
+        expect(resourceTemplates[0].description).toBe('A sprint. [Cache-Control: no-store]');
+    });
+
+    it('attaches _meta to resources with the meta channel', () => {
+        const { server } = attach({ channels: { text: false, meta: true } });
+
+        const { resources } = server.getHandler(ListResourcesRequestSchema)!() as { resources: McpResourceDef[] };
+        expect(resources[0].description).toBe('Sprint 42.');
+        expect(resources[0]._meta).toEqual({ 'io.vinkius/state-sync': { cacheControl: 'no-store' } });
+    });
+
+    it('passes resources/read through to the handler', async () => {
+        const { server, readResource } = attach();
+        const extra = { sessionId: 's1' };
+
+        const result = await server.getHandler(ReadResourceRequestSchema)!({ params: { uri: 'jira://sprints/42' } }, extra);
+
+        expect(readResource).toHaveBeenCalledWith('jira://sprints/42', extra);
+        expect(result).toEqual({ contents: [{ uri: 'jira://sprints/42', text: '{}' }] });
+    });
+
+    it('notifies subscribers of resources invalidated by a write', async () => {
+        const { server } = attach();
+        const subscribe = server.getHandler(SubscribeRequestSchema)!;
+        expect(subscribe({ params: { uri: 'jira://sprints/42' } })).toEqual({});
+        subscribe({ params: { uri: 'jira://sprints/7' } });
+
+        const result = await update(server, 42);
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for sprints.*, jira://sprints/42 — caused by sprints.update]',
+        );
+        expect(server.notification).toHaveBeenCalledTimes(1);
+        expect(server.notification).toHaveBeenCalledWith({
+            method: 'notifications/resources/updated',
+            params: { uri: 'jira://sprints/42' },
+        });
+    });
+
+    it('notifies subscribers on every attached server of a write', async () => {
+        const { server, sync, readResource } = attach();
+        const other = createNotifyingServer();
+        sync.attachToServer(other, createMockRegistry([sprintUpdate], { content: [] }), {
+            resources: [sprintResource],
+            readResource,
+        });
+        other.getHandler(SubscribeRequestSchema)!({ params: { uri: 'jira://sprints/42' } });
+
+        await update(server, 42);
+
+        expect(other.notification).toHaveBeenCalledWith({
+            method: 'notifications/resources/updated',
+            params: { uri: 'jira://sprints/42' },
+        });
+        expect(server.notification).not.toHaveBeenCalled();
+    });
+
+    it('stops notifying after resources/unsubscribe', async () => {
+        const { server } = attach();
+        server.getHandler(SubscribeRequestSchema)!({ params: { uri: 'jira://sprints/42' } });
+        server.getHandler(UnsubscribeRequestSchema)!({ params: { uri: 'jira://sprints/42' } });
+
+        await update(server, 42);
+
+        expect(server.notification).not.toHaveBeenCalled();
+    });
+
+    it('notifies subscribers of external resource invalidations', async () => {
+        const { server, sync } = attach();
+        server.getHandler(SubscribeRequestSchema)!({ params: { uri: 'jira://boards/1' } });
+
+        await sync.invalidate(['jira://boards/*']);
+
+        expect(server.notification).toHaveBeenCalledWith({
+            method: 'notifications/resources/updated',
+            params: { uri: 'jira://boards/1' },
+        });
+    });
+
+    it('registers no resource handlers for upstreams without resources', () => {
+        const server = createMockServer();
+        new StateSync({ policies: [] }).attachToServer(server, createMockRegistry([], { content: [] }));
+
+        expect(server.getHandler(ListResourcesRequestSchema)).toBeUndefined();
+    });
+
+    it('requires a readResource handler with resources', () => {
+        const sync = new StateSync({ policies: [] });
+        expect(() => sync.attachToServer(createMockServer(), { tools: [], handler: vi.fn(), resources: [boardResource] }))
+            .toThrow('"resources" and "resourceTemplates" require a "readResource" handler');
+    });
+
+    it('rejects invalid resource policies at construction', () => {
+        expect(() => new StateSync({ policies: [], resources: [{ match: 'sprints/*', cacheControl: 'no-store' }] }))
+            .toThrow('expected a URI scheme');
+    });
+});
+
+describe('StateSync — Annotation inference', () => {
+    const annotated: McpToolDef[] = [
+        { ...sprintGet, annotations: { readOnlyHint: true } },
+        { ...sprintUpdate, annotations: { readOnlyHint: false } },
+    ];
+
+    it('invalidates the namespace of annotated writes', async () => {
+        const server = createMockServer();
+        const sync = new StateSync({
+            defaults: { cacheControl: 'no-store' },
+            policies: [],
+            inferFromAnnotations: true,
+        });
+        sync.attachToServer(server, createMockRegistry(annotated, { content: [{ type: 'text', text: 'ok' }] }));
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler({ params: { name: 'sprints.update', arguments: {} } }, {});
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for sprints.* — caused by sprints.update]',
+        );
+    });
+
+    it('lets explicit policies win', async () => {
+        const server = createMockServer();
+        const sync = new StateSync({
+            policies: [{ match: 'sprints.update', invalidates: ['tasks.*'] }],
+            inferFromAnnotations: true,
+        });
+        sync.attachToServer(server, createMockRegistry(annotated, { content: [] }));
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler({ params: { name: 'sprints.update', arguments: {} } }, {});
+
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for tasks.* — caused by sprints.update]',
+        );
+    });
+
+    it('is disabled by default', async () => {
+        const server = createMockServer();
+        new StateSync({ policies: [] })
+            .attachToServer(server, createMockRegistry(annotated, { content: [] }));
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const result = await callHandler({ params: { name: 'sprints.update', arguments: {} } }, {});
+
+        expect(result.content).toEqual([]);
+    });
+});
+
+describe('StateSync — Lifecycle events', () => {
+    const config = {
+        defaults: { cacheControl: 'no-store' as const },
+        policies: [{ match: 'sprints.update', invalidates: ['sprints.*'] }],
+    };
+
+    async function call(server: ReturnType<typeof createMockServer>, name: string) {
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        return callHandler({ params: { name, arguments: {} } }, { sessionId: 's1' });
+    }
+
+    it('emits toolsListed with the policy of every tool', () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        const listener = vi.fn();
+        sync.on('toolsListed', listener);
+        sync.attachToServer(server, createMockRegistry([sprintGet, sprintUpdate], { content: [] }));
+
+        server.getHandler(ListToolsRequestSchema)!();
+
+        expect(listener).toHaveBeenCalledWith({
+            tools: [
+                { name: 'sprints.get', policy: { cacheControl: 'no-store' } },
+                { name: 'sprints.update', policy: { cacheControl: 'no-store', invalidates: ['sprints.*'] } },
+            ],
+        });
+    });
+
+    it('emits invalidated and callCompleted for a write', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        const invalidated = vi.fn();
+        const completed = vi.fn();
+        sync.on('invalidated', invalidated);
+        sync.on('callCompleted', completed);
+        sync.attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await call(server, 'sprints.update');
+
+        expect(invalidated).toHaveBeenCalledWith({
+            patterns: ['sprints.*'],
+            causedBy: 'sprints.update',
+            sessionId: 's1',
+        });
+        expect(completed).toHaveBeenCalledWith({
+            tool: 'sprints.update',
+            sessionId: 's1',
+            durationMs: expect.any(Number),
+            upstreamMs: expect.any(Number),
+            isError: false,
+            policy: { cacheControl: 'no-store', invalidates: ['sprints.*'] },
+        });
+    });
+
+    it('emits invalidated for external invalidations without a session', async () => {
+        const sync = new StateSync(config);
+        const invalidated = vi.fn();
+        sync.on('invalidated', invalidated);
+
+        await sync.invalidate(['orders.*'], { reason: 'webhook' });
+
+        expect(invalidated).toHaveBeenCalledWith({ patterns: ['orders.*'], causedBy: 'webhook' });
+    });
+
+    it('emits upstreamError and returns an isError result', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        const listener = vi.fn();
+        sync.on('upstreamError', listener);
+        const registry = createMockRegistry([], { content: [] });
+        const error = new Error('database down');
+        registry.routeCall.mockRejectedValue(error);
+        sync.attachToServer(server, registry);
+
+        await expect(call(server, 'sprints.get')).resolves.toMatchObject({ isError: true });
+        expect(listener).toHaveBeenCalledWith({ tool: 'sprints.get', sessionId: 's1', kind: 'error', error });
+    });
+
+    it('never lets a listener break the request', async () => {
+        const server = createMockServer();
+        const sync = new StateSync(config);
+        sync.on('callCompleted', () => { throw new Error('listener bug'); });
+        sync.on('invalidated', async () => { throw new Error('async listener bug'); });
+        sync.attachToServer(server, createMockRegistry([], { content: [{ type: 'text', text: 'ok' }] }));
+
+        const result = await call(server, 'sprints.update');
+
+        expect(result.content.at(-1).text).toBe('ok');
+    });
+});
+
+describe('StateSync — Tracing', () => {
+    function createTracer() {
+        const spans: Array<{
+            name: string;
+            attributes: Record<string, unknown>;
+            status?: { code: number };
+            exception?: unknown;
+            ended: boolean;
+        }> = [];
+        const tracer = {
+            startSpan(name: string, options?: { attributes?: Record<string, unknown> }) {
+                const span = { name, attributes: { ...options?.attributes }, ended: false } as (typeof spans)[number];
+                spans.push(span);
+                return {
+                    setAttribute(key: string, value: unknown) { span.attributes[key] = value; },
+                    setStatus(status: { code: number }) { span.status = status; },
+                    recordException(exception: unknown) { span.exception = exception; },
+                    end() { span.ended = true; },
+                };
+            },
+        };
+        return { tracer, spans };
+    }
+
+    const config = {
+        defaults: { cacheControl: 'no-store' as const },
+        policies: [{ match: 'sprints.update', invalidates: ['sprints.*'] }],
+    };
+
+    it('creates one span per tools/call with policy attributes', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createMockServer();
+        new StateSync(config, { tracer }).attachToServer(server, createMockRegistry([], { content: [] }));
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        await callHandler({ params: { name: 'sprints.update', arguments: {} } }, { sessionId: 's1' });
+
+        expect(spans).toEqual([{
+            name: 'mcp-state-sync tools/call',
+            attributes: {
+                'mcp.tool.name': 'sprints.update',
+                'mcp.session.id': 's1',
+                'state_sync.cache_control': 'no-store',
+                'state_sync.invalidated': ['sprints.*'],
+                'state_sync.is_error': false,
+            },
+            ended: true,
+        }]);
+    });
+
+    it('records upstream exceptions and ends the span', async () => {
+        const { tracer, spans } = createTracer();
+        const server = createMockServer();
+        const registry = createMockRegistry([], { content: [] });
+        registry.routeCall.mockRejectedValue(new Error('timeout'));
+        new StateSync(config, { tracer }).attachToServer(server, registry);
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        await expect(callHandler({ params: { name: 'sprints.get', arguments: {} } }, {}))
+            .resolves.toMatchObject({ isError: true });
+
+        expect(spans[0].status).toEqual({ code: 2, message: 'upstream error' });
+        expect((spans[0].exception as Error).message).toBe('timeout');
+        expect(spans[0].ended).toBe(true);
+    });
+});
+
+describe('StateSync — Debug logs', () => {
+    const config = {
+        defaults: { cacheControl: 'no-store' as const },
+        policies: [{ match: 'sprints.update', invalidates: ['sprints.*'] }],
+    };
+
+    it('logs the resolved policy of every call', async () => {
+        const server = createNotifyingServer();
+        new StateSync(config, { debug: true })
+            .attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await callTool(server, 'sprints.get');
+
+        expect(server.notification).toHaveBeenCalledWith({
+            method: 'notifications/message',
+            params: {
+                level: 'debug',
+                logger: 'mcp-state-sync',
+                data: { event: 'resolved', tool: 'sprints.get', policy: { cacheControl: 'no-store' } },
+            },
+        });
+    });
+
+    it('attaches the resolution trace in trace mode', async () => {
+        const server = createNotifyingServer();
+        new StateSync(config, { debug: 'trace' })
+            .attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await callTool(server, 'sprints.get');
+
+        const { data } = server.notification.mock.calls[0][0].params;
+        expect(data.trace.tried).toEqual([
+            { index: 0, match: 'sprints.update', reason: 'segment 2: "get" does not match "update"' },
+        ]);
+        expect(data.trace.fromDefaults).toEqual(['cacheControl']);
+    });
+
+    it('logs nothing by default', async () => {
+        const server = createNotifyingServer();
+        new StateSync(config).attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await callTool(server, 'sprints.get');
+
+        expect(server.notification).not.toHaveBeenCalled();
+    });
+});
+
+describe('StateSync — Hot reload', () => {
+    it('re-decorates descriptions after updatePolicies', async () => {
+        const server = createNotifyingServer();
+        const sync = new StateSync({ policies: [{ match: 'sprints.*', cacheControl: 'no-store' }] });
+        sync.attachToServer(server, createMockRegistry([sprintGet], { content: [] }));
+        const listHandler = server.getHandler(ListToolsRequestSchema)!;
+
+        expect(listHandler().tools[0].description).toBe('Get sprint details. [Cache-Control: no-store]');
+
+        await sync.updatePolicies({ policies: [{ match: 'sprints.*', cacheControl: 'immutable' }] });
+
+        expect(listHandler().tools[0].description).toBe('Get sprint details. [Cache-Control: immutable]');
+    });
+
+    it('sends notifications/tools/list_changed', async () => {
+        const server = createNotifyingServer();
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, createMockRegistry([], { content: [] }));
+
+        await sync.updatePolicies({ policies: [{ match: 'sprints.*', cacheControl: 'no-store' }] });
+
+        expect(server.notification).toHaveBeenCalledWith({ method: 'notifications/tools/list_changed' });
+    });
+
+    it('keeps the previous policies when the new config is invalid', async () => {
+        const server = createNotifyingServer();
+        const sync = new StateSync({ policies: [{ match: 'sprints.*', cacheControl: 'no-store' }] });
+        sync.attachToServer(server, createMockRegistry([sprintGet], { content: [] }));
+
+        await expect(sync.updatePolicies({
+            policies: [{ match: 'sprints.*', cacheControl: 'max-age=60' as 'no-store' }],
+        })).rejects.toThrow('max-age=60');
+
+        const listHandler = server.getHandler(ListToolsRequestSchema)!;
+        expect(listHandler().tools[0].description).toBe('Get sprint details. [Cache-Control: no-store]');
+        expect(server.notification).not.toHaveBeenCalled();
+    });
+
+    it('lets in-flight calls finish with the policy they started with', async () => {
+        const server = createNotifyingServer();
+        let release!: (result: McpCallResult) => void;
+        const registry = {
+            getAllTools: () => [],
+            getTools: () => [],
+            routeCall: vi.fn(() => new Promise<McpCallResult>(r => { release = r; })),
+        };
+        const sync = new StateSync({
+            policies: [{ match: 'sprints.update', invalidates: ['sprints.*'] }],
+        });
+        sync.attachToServer(server, registry);
+
+        const callHandler = server.getHandler(CallToolRequestSchema)!;
+        const pending = callHandler({ params: { name: 'sprints.update', arguments: {} } }, {});
+
+        await sync.updatePolicies({ policies: [{ match: 'sprints.update', invalidates: ['tasks.*'] }] });
+        release({ content: [{ type: 'text', text: 'ok' }] });
+
+        const result = await pending;
+        expect(result.content[0].text).toBe(
+            '[System: Cache invalidated for sprints.* — caused by sprints.update]',
+        );
+    });
+});
+
+describe('StateSync — Detaching servers', () => {
+    const registry = () => createMockRegistry([], { content: [] });
+
+    it('stops notifying a server after its disposer ran', async () => {
+        const first = createNotifyingServer();
+        const second = createNotifyingServer();
+        const sync = new StateSync({ policies: [] });
+        const detach = sync.attachToServer(first, registry());
+        sync.attachToServer(second, registry());
+
+        detach();
+        await sync.invalidate(['orders.*']);
+        await sync.updatePolicies({ policies: [] });
+
+        expect(first.notification).not.toHaveBeenCalled();
+        expect(second.notification).toHaveBeenCalledTimes(2);
+    });
+
+    it('detaches a server when its connection closes, keeping its own onclose', async () => {
+        const previous = vi.fn();
+        const server = Object.assign(createNotifyingServer(), { onclose: previous });
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, registry());
+
+        server.onclose();
+        await sync.invalidate(['orders.*']);
+
+        expect(previous).toHaveBeenCalledOnce();
+        expect(server.notification).not.toHaveBeenCalled();
+    });
+
+    it('detaches an SDK server once its client disconnects', async () => {
+        const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {}, logging: {} } });
+        const sync = new StateSync({ policies: [] });
+        sync.attachToServer(server, registry());
+        const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: 'test', version: '1.0.0' });
+        await server.connect(serverSide);
+        await client.connect(clientSide);
+        const sendLoggingMessage = vi.spyOn(server, 'sendLoggingMessage');
+
+        await sync.invalidate(['orders.*']);
+        await client.close();
+        await sync.invalidate(['tasks.*']);
+
+        expect(sendLoggingMessage).toHaveBeenCalledOnce();
+    });
+});
+
 describe('StateSync — McpServer wrapper resolution', () => {
     it('resolves low-level Server from McpServer wrapper', () => {
         const innerServer = createMockServer();
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { jsonPathEquals, textMatches, not } from '../src/SuccessPredicates.js';
+import type { McpCallResult } from '../src/types.js';
+
+function text(body: string): McpCallResult {
+    return { content: [{ type: 'text', text: body }] };
+}
+
+describe('jsonPathEquals', () => {
+    it('reads the first text block as JSON', () => {
+        const ok = jsonPathEquals('status', 'ok');
+        expect(ok(text('{"status":"ok"}'))).toBe(true);
+        expect(ok(text('{"status":"rejected"}'))).toBe(false);
+    });
+
+    it('prefers structuredContent over text', () => {
+        const ok = jsonPathEquals('status', 'ok');
+        expect(ok({
+            content: [{ type: 'text', text: '{"status":"rejected"}' }],
+            structuredContent: { status: 'ok' },
+        })).toBe(true);
+    });
+
+    it('supports nested paths, indexes and a $. prefix', () => {
+        const result = text('{"data":{"items":[{"affected":2}]}}');
+        expect(jsonPathEquals('$.data.items[0].affected', 2)(result)).toBe(true);
+        expect(jsonPathEquals('data.items[0].affected', 2)(result)).toBe(true);
+        expect(jsonPathEquals('data.items[1].affected', 2)(result)).toBe(false);
+    });
+
+    it('fails on non-JSON text and missing paths', () => {
+        expect(jsonPathEquals('status', 'ok')(text('not json'))).toBe(false);
+        expect(jsonPathEquals('status', 'ok')({ content: [] })).toBe(false);
+        expect(jsonPathEquals('a.b', 'ok')(text('{"a":null}'))).toBe(false);
+    });
+
+    it('throws on an empty path', () => {
+        expect(() => jsonPathEquals('$.', 'ok')).toThrow('jsonPathEquals: invalid path "$."');
+    });
+});
+
+describe('textMatches', () => {
+    it('succeeds when any text block matches', () => {
+        const affected = textMatches(/[1-9]\d* rows? affected/);
+        expect(affected({
+            content: [{ type: 'text', text: 'done' }, { type: 'text', text: '3 rows affected' }],
+        })).toBe(true);
+        expect(affected(text('0 rows affected'))).toBe(false);
+    });
+
+    it('ignores lastIndex of global patterns', () => {
+        const ok = textMatches(/ok/g);
+        expect(ok(text('ok'))).toBe(true);
+        expect(ok(text('ok'))).toBe(true);
+    });
+});
+
+describe('not', () => {
+    it('inverts a predicate', () => {
+        const changed = not(textMatches(/^0 rows affected/));
+        expect(changed(text('0 rows affected'))).toBe(false);
+        expect(changed(text('1 row affected'))).toBe(true);
+    });
+});
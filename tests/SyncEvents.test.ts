@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SyncEventEmitter } from '../src/SyncEvents.js';
+
+const event = { patterns: ['sprints.*'], causedBy: 'sprints.update' };
+
+describe('SyncEventEmitter', () => {
+    it('delivers events to listeners in registration order', () => {
+        const emitter = new SyncEventEmitter();
+        const seen: string[] = [];
+        emitter.on('invalidated', () => { seen.push('first'); });
+        emitter.on('invalidated', () => { seen.push('second'); });
+
+        emitter.emit('invalidated', event);
+
+        expect(seen).toEqual(['first', 'second']);
+    });
+
+    it('removes listeners via off() and the returned function', () => {
+        const emitter = new SyncEventEmitter();
+        const a = vi.fn();
+        const b = vi.fn();
+        emitter.on('invalidated', a);
+        const removeB = emitter.on('invalidated', b);
+
+        emitter.off('invalidated', a);
+        removeB();
+        emitter.emit('invalidated', event);
+
+        expect(a).not.toHaveBeenCalled();
+        expect(b).not.toHaveBeenCalled();
+    });
+
+    it('isolates throwing and rejecting listeners', async () => {
+        const emitter = new SyncEventEmitter();
+        const after = vi.fn();
+        emitter.on('invalidated', () => { throw new Error('boom'); });
+        emitter.on('invalidated', () => Promise.reject(new Error('async boom')));
+        emitter.on('invalidated', after);
+
+        expect(() => emitter.emit('invalidated', event)).not.toThrow();
+        expect(after).toHaveBeenCalledWith(event);
+        await new Promise(r => setTimeout(r, 0));
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    withDeadline,
+    classifyUpstreamError,
+    resolveAbortSignal,
+    UpstreamTimeoutError,
+    UpstreamCancelledError,
+} from '../src/UpstreamDeadline.js';
+
+describe('withDeadline', () => {
+    it('runs the call unchanged without timeout or signal', async () => {
+        const call = vi.fn().mockResolvedValue('ok');
+
+        await expect(withDeadline(call, {})).resolves.toBe('ok');
+        expect(call).toHaveBeenCalledWith(undefined);
+    });
+
+    it('passes a signal and resolves before the timeout', async () => {
+        const call = vi.fn().mockResolvedValue('ok');
+
+        await expect(withDeadline(call, { timeoutMs: 1000 })).resolves.toBe('ok');
+        expect(call.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+    });
+
+    it('rejects with UpstreamTimeoutError and aborts the signal', async () => {
+        vi.useFakeTimers();
+        try {
+            let signal: AbortSignal | undefined;
+            const pending = withDeadline(s => {
+                signal = s;
+                return new Promise(() => { /* never settles */ });
+            }, { timeoutMs: 50 });
+            const assertion = expect(pending).rejects.toThrow(UpstreamTimeoutError);
+
+            await vi.advanceTimersByTimeAsync(50);
+
+            await assertion;
+            expect(signal?.aborted).toBe(true);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('rejects with UpstreamCancelledError when the request aborts', async () => {
+        const controller = new AbortController();
+        const pending = withDeadline(() => new Promise(() => { /* never settles */ }), {
+            signal: controller.signal,
+        });
+
+        controller.abort();
+
+        await expect(pending).rejects.toThrow(UpstreamCancelledError);
+    });
+
+    it('does not call the upstream for an already aborted request', async () => {
+        const call = vi.fn();
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(withDeadline(call, { signal: controller.signal })).rejects.toThrow(UpstreamCancelledError);
+        expect(call).not.toHaveBeenCalled();
+    });
+
+    it('propagates errors of the call', async () => {
+        await expect(withDeadline(() => Promise.reject(new Error('boom')), { timeoutMs: 1000 }))
+            .rejects.toThrow('boom');
+    });
+});
+
+describe('classifyUpstreamError', () => {
+    it('classifies timeouts, cancellations and other errors', () => {
+        expect(classifyUpstreamError(new UpstreamTimeoutError(100))).toBe('timeout');
+        expect(classifyUpstreamError(new UpstreamCancelledError())).toBe('cancelled');
+        expect(classifyUpstreamError(new Error('boom'))).toBe('error');
+        expect(classifyUpstreamError('boom')).toBe('error');
+    });
+});
+
+describe('resolveAbortSignal', () => {
+    it('reads extra.signal', () => {
+        const { signal } = new AbortController();
+        expect(resolveAbortSignal({ signal })).toBe(signal);
+        expect(resolveAbortSignal({ signal: 'nope' })).toBeUndefined();
+        expect(resolveAbortSignal(undefined)).toBeUndefined();
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { matchUriGlob, validateUriGlob, isResourcePattern } from '../src/UriGlob.js';
+import { GlobSyntaxError } from '../src/GlobMatcher.js';
+
+describe('isResourcePattern', () => {
+    it('detects URI globs by their scheme', () => {
+        expect(isResourcePattern('jira://sprints/*')).toBe(true);
+        expect(isResourcePattern('file:///docs/**')).toBe(true);
+        expect(isResourcePattern('!jira://sprints/42')).toBe(true);
+    });
+
+    it('treats dot-separated globs as tool patterns', () => {
+        expect(isResourcePattern('sprints.*')).toBe(false);
+        expect(isResourcePattern('!sprints.get')).toBe(false);
+        expect(isResourcePattern('tasks.get{id=$args.taskId}')).toBe(false);
+    });
+});
+
+describe('matchUriGlob', () => {
+    it('matches exact URIs', () => {
+        expect(matchUriGlob('jira://sprints/42', 'jira://sprints/42')).toBe(true);
+        expect(matchUriGlob('jira://sprints/42', 'jira://sprints/43')).toBe(false);
+    });
+
+    it('matches * against exactly one segment', () => {
+        expect(matchUriGlob('jira://sprints/*', 'jira://sprints/42')).toBe(true);
+        expect(matchUriGlob('jira://sprints/*', 'jira://sprints/42/tasks')).toBe(false);
+    });
+
+    it('matches ** across zero or more segments', () => {
+        expect(matchUriGlob('file:///docs/**', 'file:///docs')).toBe(true);
+        expect(matchUriGlob('file:///docs/**', 'file:///docs/a/b.md')).toBe(true);
+        expect(matchUriGlob('file:///**/b.md', 'file:///docs/a/b.md')).toBe(true);
+        expect(matchUriGlob('file:///docs/**', 'file:///src/a.ts')).toBe(false);
+    });
+
+    it('matches * and alternatives inside a segment', () => {
+        expect(matchUriGlob('file:///docs/*.md', 'file:///docs/a.md')).toBe(true);
+        expect(matchUriGlob('file:///docs/*.md', 'file:///docs/a.txt')).toBe(false);
+        expect(matchUriGlob('jira://{sprints,boards}/*', 'jira://boards/7')).toBe(true);
+        expect(matchUriGlob('jira://{sprints,boards}/*', 'jira://tasks/7')).toBe(false);
+    });
+
+    it('treats template expressions in the glob as *', () => {
+        expect(matchUriGlob('jira://sprints/{sprintId}', 'jira://sprints/42')).toBe(true);
+        expect(matchUriGlob('jira://search{?q,limit}', 'jira://search?q=x')).toBe(true);
+    });
+
+    it('matches a template only by globs covering every instance', () => {
+        expect(matchUriGlob('jira://sprints/*', 'jira://sprints/{sprintId}')).toBe(true);
+        expect(matchUriGlob('jira://sprints/{id}', 'jira://sprints/{sprintId}')).toBe(true);
+        expect(matchUriGlob('jira://sprints/42', 'jira://sprints/{sprintId}')).toBe(false);
+    });
+
+    it('escapes regex characters in literals', () => {
+        expect(matchUriGlob('file:///a+b/*.md', 'file:///a+b/x.md')).toBe(true);
+        expect(matchUriGlob('file:///docs/a.*', 'file:///docs/abmd')).toBe(false);
+    });
+});
+
+describe('validateUriGlob', () => {
+    it('accepts valid URI globs', () => {
+        expect(() => validateUriGlob('jira://sprints/{sprintId}')).not.toThrow();
+        expect(() => validateUriGlob('file:///docs/**/*.{md,txt}')).not.toThrow();
+    });
+
+    it('rejects globs without a scheme', () => {
+        expect(() => validateUriGlob('sprints/*')).toThrow(/expected a URI scheme/);
+    });
+
+    it('rejects malformed braces with the column', () => {
+        expect(() => validateUriGlob('jira://{a{b}}')).toThrow('nested "{" at column 10');
+        expect(() => validateUriGlob('jira://a}')).toThrow('unexpected "}" at column 9');
+        expect(() => validateUriGlob('jira://{a/b}')).toThrow(/unclosed "\{"/);
+        expect(() => validateUriGlob('jira://{}')).toThrow(/empty "\{\}"/);
+    });
+
+    it('rejects ** inside a segment and whitespace', () => {
+        expect(() => validateUriGlob('file:///docs**')).toThrow(/must be a whole segment/);
+        expect(() => validateUriGlob('jira://a b')).toThrow(/unexpected whitespace/);
+    });
+
+    it('throws GlobSyntaxError with the column shifted by offset', () => {
+        try {
+            validateUriGlob('jira://}', 4);
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(GlobSyntaxError);
+            expect((err as GlobSyntaxError).column).toBe(12);
+        }
+    });
+});